@@ -0,0 +1,82 @@
+// Skytap Management Console - Production Server
+// Serves the built SPA and proxies /api to Skytap with server-side credentials, replacing the
+// Vite dev proxy in production. Build with `npm run build:server`, run with `npm start`.
+
+import http from "http";
+import { randomUUID } from "crypto";
+import { createProfilesMiddleware, loadSkytapProfiles, PROFILE_HEADER } from "./skytap-profiles";
+import { createSkytapProxy, DEFAULT_UPSTREAM } from "./skytap-proxy";
+import { createStaticHandler } from "./static-files";
+
+const env = process.env;
+
+const config = {
+  host: env.HOST || '0.0.0.0',
+  port: Number(env.PORT) || 8080,
+  upstream: env.SKYTAP_UPSTREAM || DEFAULT_UPSTREAM,
+  staticDir: env.STATIC_DIR || 'dist',
+  timeoutMs: Number(env.PROXY_TIMEOUT_MS) || 120_000,
+};
+
+const profiles = loadSkytapProfiles(env);
+const startedAt = Date.now();
+
+const handleProfiles = createProfilesMiddleware(profiles);
+const handleProxy = createSkytapProxy({ upstream: config.upstream, profiles, timeoutMs: config.timeoutMs });
+const handleStatic = createStaticHandler(config.staticDir);
+
+/**
+ * One line per request: method, path, status, duration and the profile used
+ */
+const logRequest = (req: http.IncomingMessage, res: http.ServerResponse, requestId: string) => {
+  const start = process.hrtime.bigint();
+  res.on('close', () => {
+    const durationMs = Number(process.hrtime.bigint() - start) / 1e6;
+    const profile = req.headers[PROFILE_HEADER] ?? profiles.defaultProfileId ?? '-';
+    const status = res.writableFinished ? res.statusCode : `${res.statusCode} (aborted)`;
+    console.log(`${new Date().toISOString()} ${requestId} ${req.method} ${req.url} ${status} ${durationMs.toFixed(0)}ms profile=${profile}`);
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const requestId = randomUUID();
+  res.setHeader('X-Proxy-Request-Id', requestId);
+  logRequest(req, res, requestId);
+
+  if (req.url === '/healthz') {
+    res.writeHead(200, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+    res.end(JSON.stringify({
+      status: 'ok',
+      upstream: config.upstream,
+      profiles: profiles.profiles.length,
+      uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    }));
+    return;
+  }
+
+  handleProfiles(req, res, () => {
+    if (handleProxy(req, res)) return;
+    handleStatic(req, res).catch((err) => {
+      console.error('Static file error:', err);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(`Skytap Management Console listening on http://${config.host}:${config.port}`);
+  console.log(`Proxying /api to ${config.upstream} with ${profiles.profiles.length} credential profile(s)`);
+  if (profiles.profiles.length === 0) {
+    console.warn('No Skytap credentials configured; API requests will be sent unauthenticated');
+  }
+});
+
+// Let in-flight requests finish before exiting on container stop
+const shutdown = (signal: string) => {
+  console.log(`${signal} received, shutting down`);
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(1), 10_000).unref();
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
@@ -0,0 +1,600 @@
+// Mock Skytap API
+// An in-memory, stateful stand-in for the Skytap endpoints SkytapAPI uses. It simulates network
+// latency, 423 "busy" locks after long-running operations and report readiness polling, so every
+// page can be exercised offline and tests can run without credentials.
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type {
+  SkytapConfiguration,
+  SkytapPublishSet,
+  SkytapReport,
+  SkytapSchedule,
+  SkytapTemplate,
+} from "../../src/lib/skytap-schemas";
+import { MOCK_ORIGIN, MockSeed, createSeed, makeVMs } from "./seed";
+
+export interface MockSkytapOptions {
+  /** Base delay added to every response (default 150ms, with up to 50% jitter) */
+  latencyMs?: number;
+  /** How long a configuration stays busy (423) after a copy, deploy or runstate change (default 3s) */
+  lockMs?: number;
+  /** Number of polls before a report reports ready (default 2) */
+  reportPolls?: number;
+  /** Reject requests without an Authorization header, like Skytap does (default true) */
+  requireAuth?: boolean;
+}
+
+/**
+ * A request the mock received, recorded so tests can assert on the exact calls a flow makes
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+interface MockReport {
+  id: string;
+  resourceType: string;
+  startDate: string;
+  endDate: string;
+  pollsRemaining: number;
+}
+
+interface MockState extends MockSeed {
+  /** Configuration id -> epoch ms until which mutations return 423 */
+  locks: Map<string, number>;
+  /** Runstate a busy configuration settles into once its lock expires */
+  pendingRunstates: Map<string, string>;
+  reports: Map<string, MockReport>;
+  requests: MockRequest[];
+  nextId: number;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+type RouteHandler = (ctx: RouteContext) => MockResponse;
+
+class MockError extends Error {
+  constructor(readonly status: number, message: string, readonly headers?: Record<string, string>) {
+    super(message);
+  }
+}
+
+const ok = (body: unknown): MockResponse => ({ status: 200, body });
+
+const paginate = <T>(items: T[], query: URLSearchParams): T[] => {
+  const offset = Number(query.get('offset')) || 0;
+  const count = Number(query.get('count')) || items.length;
+  return items.slice(offset, offset + count);
+};
+
+const asString = (value: unknown) => (value === undefined || value === null ? undefined : String(value));
+
+/**
+ * Create the mock's state and request handler. The handler can be mounted on any
+ * Node HTTP server; `startMockSkytapServer` does that for you.
+ */
+export function createMockSkytap(options: MockSkytapOptions = {}) {
+  const { latencyMs = 150, lockMs = 3000, reportPolls = 2, requireAuth = true } = options;
+  let state: MockState;
+
+  const reset = () => {
+    state = { ...createSeed(), locks: new Map(), pendingRunstates: new Map(), reports: new Map(), requests: [], nextId: 9000 };
+  };
+  reset();
+
+  const newId = () => String(state.nextId++);
+
+  // Settle busy configurations whose lock has expired
+  const settle = (config: SkytapConfiguration) => {
+    const lockedUntil = state.locks.get(config.id);
+    if (lockedUntil !== undefined && lockedUntil <= Date.now()) {
+      state.locks.delete(config.id);
+      const next = state.pendingRunstates.get(config.id);
+      if (next) {
+        config.runstate = next;
+        config.vms?.forEach(vm => { vm.runstate = next; });
+        state.pendingRunstates.delete(config.id);
+      }
+    }
+    return config;
+  };
+
+  const lock = (config: SkytapConfiguration, settleTo?: string) => {
+    if (lockMs <= 0) {
+      if (settleTo) config.runstate = settleTo;
+      return;
+    }
+    state.locks.set(config.id, Date.now() + lockMs);
+    if (settleTo) {
+      state.pendingRunstates.set(config.id, settleTo);
+      config.runstate = 'busy';
+    }
+  };
+
+  const findConfiguration = (id: string) => {
+    const config = state.configurations.find(c => c.id === id);
+    if (!config) throw new MockError(404, `Configuration ${id} not found`);
+    return settle(config);
+  };
+
+  // Mutations on a busy configuration fail the same way Skytap does
+  const findUnlockedConfiguration = (id: string) => {
+    const config = findConfiguration(id);
+    const lockedUntil = state.locks.get(id);
+    if (lockedUntil !== undefined) {
+      const seconds = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 1000));
+      throw new MockError(423, `Configuration ${id} is busy. Try again later.`, { 'Retry-After': String(seconds) });
+    }
+    return config;
+  };
+
+  const findProject = (id: string) => {
+    const project = state.projects.find(p => p.id === id);
+    if (!project) throw new MockError(404, `Project ${id} not found`);
+    return {
+      ...project,
+      configuration_count: state.projectConfigurations[id]?.length ?? 0,
+      template_count: state.projectTemplates[id]?.length ?? 0,
+    };
+  };
+
+  const findPublishSet = (configId: string, publishSetId: string) => {
+    const publishSet = state.publishSets[configId]?.find(ps => ps.id === publishSetId);
+    if (!publishSet) throw new MockError(404, `Publish set ${publishSetId} not found`);
+    return publishSet;
+  };
+
+  const findSchedule = (id: string) => {
+    const schedule = state.schedules.find(s => s.id === id);
+    if (!schedule) throw new MockError(404, `Schedule ${id} not found`);
+    return schedule;
+  };
+
+  const cloneConfiguration = (source: SkytapConfiguration, name: string): SkytapConfiguration => {
+    const id = newId();
+    const config: SkytapConfiguration = {
+      ...structuredClone(source),
+      id,
+      name,
+      runstate: 'stopped',
+      created_at: new Date().toISOString(),
+      last_run: undefined,
+      url: `${MOCK_ORIGIN}/v2/configurations/${id}`,
+      vms: makeVMs(id, source.vm_count, 'stopped'),
+    };
+    state.configurations.push(config);
+    return config;
+  };
+
+  const updateConfiguration = (ctx: RouteContext) => {
+    const config = findUnlockedConfiguration(ctx.params[0]);
+    const { name, suspend_type, suspend_on_idle, shutdown_at_time, runstate } = ctx.body;
+    if (typeof name === 'string') config.name = name;
+    if (suspend_type !== undefined) {
+      config.suspend_type = suspend_type ? String(suspend_type) : undefined;
+      if (!suspend_type) {
+        config.suspend_on_idle = undefined;
+        config.auto_suspend_description = undefined;
+      }
+    }
+    if (typeof suspend_on_idle === 'number') {
+      config.suspend_on_idle = suspend_on_idle;
+      config.auto_suspend_description = `Environment will ${config.suspend_type || 'suspend'} after ${Math.round(suspend_on_idle / 60)} minutes of inactivity`;
+    } else if (suspend_on_idle === null) {
+      config.suspend_on_idle = undefined;
+      config.auto_suspend_description = undefined;
+    }
+    if (shutdown_at_time !== undefined) {
+      config.shutdown_at_time = shutdown_at_time ? String(shutdown_at_time) : undefined;
+    }
+    if (typeof runstate === 'string') {
+      // Powering off ("halted") leaves the configuration stopped, like a guest shutdown
+      const next = runstate === 'halted' ? 'stopped' : runstate;
+      if (next !== config.runstate) {
+        if (next === 'running') config.last_run = new Date().toISOString();
+        lock(config, next);
+      }
+    }
+    return ok(config);
+  };
+
+  const addToProject = (ctx: RouteContext) => {
+    const project = findProject(ctx.params[0]);
+    const config = findUnlockedConfiguration(ctx.params[1]);
+    const ids = (state.projectConfigurations[project.id] ??= []);
+    if (!ids.includes(config.id)) ids.push(config.id);
+    return ok(config);
+  };
+
+  const buildReport = (report: MockReport): SkytapReport => {
+    if (report.pollsRemaining > 0) {
+      report.pollsRemaining--;
+      return { id: report.id, ready: false };
+    }
+    // Hours of RAM (MB) or storage (MB) usage for a single billing period
+    const totalUsage = report.resourceType === 'storage_size' ? 52_428_800 : 1_843_200;
+    return {
+      id: report.id,
+      ready: true,
+      results: {
+        groupings: [{
+          key: '__all__',
+          name: 'All Regions',
+          periods: [{ period: 'For Billing Period', start_date: report.startDate, end_date: report.endDate, total_usage: totalUsage }],
+        }],
+      },
+    };
+  };
+
+  const routes: [string, RegExp, RouteHandler][] = [
+    // Projects
+    ['GET', /^\/v2\/projects$/, ({ query }) => ok(paginate(state.projects.map(p => findProject(p.id)), query))],
+    ['GET', /^\/v2\/projects\/([^/]+)\.json$/, ({ params }) => ok(findProject(params[0]))],
+    ['DELETE', /^\/projects\/([^/.]+)$/, ({ params }) => {
+      findProject(params[0]);
+      state.projects = state.projects.filter(p => p.id !== params[0]);
+      delete state.projectConfigurations[params[0]];
+      return { status: 204 };
+    }],
+    ['PUT', /^\/projects\/([^/.]+)\.json$/, ({ params, body }) => {
+      const project = state.projects.find(p => p.id === params[0]);
+      if (!project) throw new MockError(404, `Project ${params[0]} not found`);
+      if (typeof body.name === 'string') project.name = body.name;
+      if (typeof body.summary === 'string') project.summary = body.summary;
+      return ok(findProject(project.id));
+    }],
+    ['GET', /^\/v2\/projects\/([^/]+)\/configurations\.json$/, ({ params, query }) => {
+      findProject(params[0]);
+      const ids = state.projectConfigurations[params[0]] ?? [];
+      return ok(paginate(ids.map(findConfiguration), query));
+    }],
+    ['GET', /^\/v2\/projects\/([^/]+)\/templates\.json$/, ({ params, query }) => {
+      findProject(params[0]);
+      const ids = state.projectTemplates[params[0]] ?? [];
+      return ok(paginate(state.templates.filter(t => ids.includes(t.id)), query));
+    }],
+    ['POST', /^\/v2\/projects\/([^/]+)\/configurations\/([^/.]+)$/, addToProject],
+    ['POST', /^\/projects\/([^/]+)\/configurations\/([^/]+)\.json$/, addToProject],
+
+    // Configurations
+    ['GET', /^\/v2\/configurations$/, ({ query }) => {
+      let configs = state.configurations.map(settle);
+      if (query.get('query') === 'status:running') {
+        configs = configs.filter(c => c.runstate === 'running');
+      }
+      return ok(paginate(configs, query));
+    }],
+    ['GET', /^\/v2\/configurations\/([^/.]+)(?:\.json)?$/, ({ params }) => ok(findConfiguration(params[0]))],
+    ['PUT', /^\/v2\/configurations\/([^/.]+)(?:\.json)?$/, updateConfiguration],
+    ['PUT', /^\/configurations\/([^/.]+)\.json$/, updateConfiguration],
+    ['DELETE', /^\/configurations\/([^/.]+)\.json$/, ({ params }) => {
+      const config = findUnlockedConfiguration(params[0]);
+      state.configurations = state.configurations.filter(c => c.id !== params[0]);
+      Object.values(state.projectConfigurations).forEach(ids => {
+        const index = ids.indexOf(params[0]);
+        if (index >= 0) ids.splice(index, 1);
+      });
+      // Deleting an environment removes its portals and schedules and detaches, but keeps, its public IPs
+      delete state.publishSets[config.id];
+      state.schedules = state.schedules.filter(schedule => schedule.configuration_id !== config.id);
+      const nicIds = new Set(config.vms?.flatMap(vm => vm.interfaces?.map(nic => nic.id) ?? []));
+      state.ips
+        .filter(ip => ip.nics.some(nic => nicIds.has(nic.id)))
+        .forEach(ip => {
+          ip.nic_count = 0;
+          ip.nics = [];
+        });
+      return { status: 204 };
+    }],
+    ['POST', /^\/configurations\.json$/, ({ body }) => {
+      // Copy an existing configuration, or deploy a new one from a template
+      const sourceConfigId = asString(body.configuration_id);
+      const templateId = asString(body.template_id);
+      let config: SkytapConfiguration;
+      if (sourceConfigId) {
+        const source = findUnlockedConfiguration(sourceConfigId);
+        config = cloneConfiguration(source, `${source.name} - Copy`);
+        // Copying locks the source as well as the new environment
+        lock(source);
+      } else if (templateId) {
+        const template = state.templates.find(t => t.id === templateId);
+        if (!template) throw new MockError(404, `Template ${templateId} not found`);
+        config = cloneConfiguration({ ...template, runstate: 'stopped' }, asString(body.name) || template.name);
+      } else {
+        throw new MockError(422, 'configuration_id or template_id is required');
+      }
+      lock(config, 'stopped');
+      return ok(config);
+    }],
+    ['GET', /^\/v2\/configurations\/([^/]+)\/labels\.json$/, ({ params }) => {
+      findConfiguration(params[0]);
+      return ok(state.labels[`configurations/${params[0]}`] ?? []);
+    }],
+    ['PUT', /^\/v2\/configurations\/([^/]+)\/labels\.json$/, ({ params, body }) => {
+      findConfiguration(params[0]);
+      const added = (Array.isArray(body) ? body : []).map((label: Record<string, unknown>) => ({
+        id: newId(),
+        text: asString(label.value) ?? '',
+        type: asString(label.label_category) ?? '',
+        created_at: new Date().toISOString(),
+      }));
+      if (added.some(label => !label.text || !label.type)) {
+        throw new MockError(422, 'Each label needs a label_category and a value');
+      }
+      // Categories hold one value per environment, so a new label replaces the old one
+      const key = `configurations/${params[0]}`;
+      state.labels[key] = [
+        ...(state.labels[key] ?? []).filter(existing => !added.some(label => label.type === existing.type)),
+        ...added,
+      ];
+      return ok(state.labels[key]);
+    }],
+
+    // Templates
+    ['GET', /^\/v2\/templates$/, ({ query }) => ok(paginate(state.templates, query))],
+    ['GET', /^\/v2\/templates\/([^/.]+)(?:\.json)?$/, ({ params }) => {
+      const template = state.templates.find(t => t.id === params[0]);
+      if (!template) throw new MockError(404, `Template ${params[0]} not found`);
+      return ok(template);
+    }],
+    ['POST', /^\/templates\.json$/, ({ body }) => {
+      const configId = asString(body.configuration_id);
+      if (!configId) throw new MockError(422, 'configuration_id is required');
+      const config = findUnlockedConfiguration(configId);
+      const id = newId();
+      const template: SkytapTemplate = {
+        id,
+        name: config.name,
+        region: config.region,
+        vm_count: config.vm_count,
+        storage: config.storage,
+        svms: config.svms,
+        created_at: new Date().toISOString(),
+        owner_name: config.owner_name,
+        vms: makeVMs(id, config.vm_count, 'stopped'),
+      };
+      state.templates.push(template);
+      // Saving a template locks the source environment until Skytap finishes
+      lock(config);
+      return ok(template);
+    }],
+    ['GET', /^\/v2\/templates\/([^/]+)\/labels\.json$/, ({ params }) => ok(state.labels[`templates/${params[0]}`] ?? [])],
+
+    // Public IPs
+    ['GET', /^\/v2\/ips\.json$/, ({ query }) => {
+      const region = query.get('query')?.replace(/^region:/, '');
+      return ok(paginate(state.ips.filter(ip => !region || ip.region === region), query));
+    }],
+    ['POST', /^\/v2\/ips\/acquire\.json$/, ({ body }) => {
+      const region = asString(body.region);
+      if (!region) throw new MockError(422, 'region is required');
+      const ip = {
+        id: `ip-${newId()}`,
+        address: `198.51.100.${(state.nextId % 250) + 1}`,
+        region,
+        nic_count: 0,
+        connect_type: 'static',
+        dns_name: null,
+        nics: [],
+      };
+      state.ips.push(ip);
+      return ok(ip);
+    }],
+    ['POST', /^\/v2\/ips\/([^/]+)\/release\.json$/, ({ params }) => {
+      const ip = state.ips.find(i => i.id === params[0]);
+      if (!ip) throw new MockError(404, `IP ${params[0]} not found`);
+      if (ip.nic_count > 0) throw new MockError(422, `IP ${ip.address} is attached to a network interface`);
+      state.ips = state.ips.filter(i => i.id !== params[0]);
+      return ok({});
+    }],
+    ['POST', /^\/v2\/configurations\/([^/]+)\/vms\/([^/]+)\/interfaces\/([^/]+)\/ips\.json$/, ({ params, body }) => {
+      const config = findUnlockedConfiguration(params[0]);
+      const nic = config.vms?.find(vm => vm.id === params[1])?.interfaces?.find(i => i.id === params[2]);
+      if (!nic) throw new MockError(404, `Interface ${params[2]} not found`);
+      const ip = state.ips.find(i => i.address === body.ip || i.id === body.ip);
+      if (!ip) throw new MockError(404, `IP ${String(body.ip)} not found`);
+      ip.nic_count = 1;
+      ip.nics = [{ id: nic.id, deployed: true }];
+      nic.public_ips = [{ id: ip.id, address: ip.address }];
+      return ok({ id: ip.id, address: ip.address });
+    }],
+
+    // Sharing portals
+    ['GET', /^\/v2\/configurations\/([^/]+)\/publish_sets\.json$/, ({ params, query }) => {
+      findConfiguration(params[0]);
+      return ok(paginate(state.publishSets[params[0]] ?? [], query));
+    }],
+    ['POST', /^\/v2\/configurations\/([^/]+)\/publish_sets\.json$/, ({ params, body }) => {
+      const config = findUnlockedConfiguration(params[0]);
+      const id = newId();
+      const runtimeLimit = typeof body.runtime_limit === 'number' ? body.runtime_limit : null;
+      const publishSet: SkytapPublishSet = {
+        id,
+        name: asString(body.name) || config.name,
+        configuration_name: config.name,
+        desktops_url: `${MOCK_ORIGIN}/vms/mock-desktops-${id}`,
+        url: `${MOCK_ORIGIN}/v2/configurations/${config.id}/publish_sets/${id}`,
+        publish_set_type: asString(body.publish_set_type) || 'single_url',
+        runtime_limit: runtimeLimit,
+        runtime_left_in_seconds: runtimeLimit === null ? null : runtimeLimit * 60,
+        created_at: new Date().toISOString(),
+        expiration_date: asString(body.expiration_date) ?? null,
+        expiration_date_tz: asString(body.time_zone) ?? null,
+        start_time: asString(body.start_time) ?? null,
+        end_time: asString(body.end_time) ?? null,
+        time_zone: asString(body.time_zone) ?? null,
+        multiple_url: body.publish_set_type === 'multiple_url',
+        password: asString(body.password) ?? null,
+        use_smart_client: false,
+        vms: Array.isArray(body.vms) ? body.vms : [],
+      };
+      (state.publishSets[config.id] ??= []).push(publishSet);
+      return ok(publishSet);
+    }],
+    ['GET', /^\/v2\/configurations\/([^/]+)\/publish_sets\/([^/]+)\.json$/, ({ params }) => ok(findPublishSet(params[0], params[1]))],
+    ['PUT', /^\/v2\/configurations\/([^/]+)\/publish_sets\/([^/]+)\.json$/, ({ params, body }) => {
+      const publishSet = findPublishSet(params[0], params[1]);
+      Object.assign(publishSet, body, { id: publishSet.id });
+      return ok(publishSet);
+    }],
+    ['DELETE', /^\/v2\/configurations\/([^/]+)\/publish_sets\/([^/]+)\.json$/, ({ params }) => {
+      findPublishSet(params[0], params[1]);
+      state.publishSets[params[0]] = state.publishSets[params[0]].filter(ps => ps.id !== params[1]);
+      return { status: 204 };
+    }],
+
+    // Schedules
+    ['GET', /^\/v2\/schedules(?:\.json)?$/, ({ query }) => ok(paginate(state.schedules, query))],
+    ['POST', /^\/v2\/schedules\.json$/, ({ body }) => {
+      const configId = asString(body.configuration_id);
+      if (!configId) throw new MockError(422, 'configuration_id is required');
+      findUnlockedConfiguration(configId);
+      const schedule: SkytapSchedule = { ...(body as Partial<SkytapSchedule>), id: newId(), title: asString(body.title) || 'Schedule', configuration_id: configId };
+      state.schedules.push(schedule);
+      return ok(schedule);
+    }],
+    ['GET', /^\/v2\/schedules\/([^/.]+)(?:\.json)?$/, ({ params }) => ok(findSchedule(params[0]))],
+    ['PUT', /^\/v2\/schedules\/([^/.]+)(?:\.json)?$/, ({ params, body }) => {
+      const schedule = findSchedule(params[0]);
+      Object.assign(schedule, body, { id: schedule.id });
+      return ok(schedule);
+    }],
+    ['DELETE', /^\/v2\/schedules\/([^/.]+)(?:\.json)?$/, ({ params }) => {
+      findSchedule(params[0]);
+      state.schedules = state.schedules.filter(s => s.id !== params[0]);
+      return { status: 204 };
+    }],
+
+    // Usage reports
+    ['POST', /^\/reports\.json$/, ({ body }) => {
+      const report: MockReport = {
+        id: newId(),
+        resourceType: asString(body.resource_type) || 'svms',
+        startDate: asString(body.start_date) || '',
+        endDate: asString(body.end_date) || '',
+        pollsRemaining: reportPolls,
+      };
+      state.reports.set(report.id, report);
+      return ok({ id: report.id });
+    }],
+    ['GET', /^\/reports\/([^/]+)\.json$/, ({ params }) => {
+      const report = state.reports.get(params[0]);
+      if (!report) throw new MockError(404, `Report ${params[0]} not found`);
+      return ok(buildReport(report));
+    }],
+
+    // Users
+    ['GET', /^\/v2\/users$/, ({ query }) => ok(paginate(state.users, query))],
+  ];
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<Record<string, unknown>>((resolve) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        try {
+          const parsed = raw ? JSON.parse(raw) : {};
+          resolve(parsed && typeof parsed === 'object' ? parsed : {});
+        } catch {
+          resolve({});
+        }
+      });
+    });
+
+  const send = (res: ServerResponse, { status, body, headers }: MockResponse) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(status === 204 ? undefined : JSON.stringify(body ?? {}));
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const body = await readBody(req);
+    state.requests.push({ method: req.method ?? 'GET', path: url.pathname, query: Object.fromEntries(url.searchParams), body });
+
+    if (latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, latencyMs * (1 + Math.random() * 0.5)));
+    }
+
+    if (requireAuth && !req.headers.authorization) {
+      send(res, { status: 401, body: { error: 'Authentication required' } });
+      return;
+    }
+
+    const match = routes
+      .filter(([method]) => method === req.method)
+      .map(([, pattern, handler]) => ({ result: pattern.exec(url.pathname), handler }))
+      .find(({ result }) => result);
+
+    if (!match) {
+      send(res, { status: 404, body: { error: `No mock for ${req.method} ${url.pathname}` } });
+      return;
+    }
+
+    try {
+      send(res, match.handler({ params: match.result!.slice(1), query: url.searchParams, body }));
+    } catch (err) {
+      if (err instanceof MockError) {
+        send(res, { status: err.status, body: { error: err.message }, headers: err.headers });
+      } else {
+        send(res, { status: 500, body: { error: err instanceof Error ? err.message : 'Mock failure' } });
+      }
+    }
+  };
+
+  return {
+    handle,
+    reset,
+    /** Live state, for tests that want to assert on or tweak the data directly */
+    get state() {
+      return state;
+    },
+    /** Every request received since the last reset, oldest first */
+    get requests(): readonly MockRequest[] {
+      return state.requests;
+    },
+  };
+}
+
+export type MockSkytap = ReturnType<typeof createMockSkytap>;
+
+/**
+ * Start the mock on its own HTTP server. Pass port 0 to pick a free port (useful in tests).
+ */
+export function startMockSkytapServer(options: MockSkytapOptions & { port?: number; host?: string } = {}) {
+  const { port = 8090, host = '127.0.0.1', ...mockOptions } = options;
+  const mock = createMockSkytap(mockOptions);
+  const server = http.createServer((req, res) => {
+    mock.handle(req, res).catch(err => {
+      console.error('Mock Skytap error:', err);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+
+  return new Promise<{ mock: MockSkytap; server: http.Server; url: string; close: () => Promise<void> }>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        mock,
+        server,
+        url: `http://${host}:${address.port}`,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+}
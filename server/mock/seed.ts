@@ -0,0 +1,228 @@
+// Mock Skytap Seed Data
+// A small, deterministic account used by the mock API server: a handful of projects (two empty),
+// environments in several regions, labelled templates, public IPs, portals and users
+
+import type {
+  SkytapConfiguration,
+  SkytapIPAddress,
+  SkytapLabel,
+  SkytapProject,
+  SkytapPublishSet,
+  SkytapSchedule,
+  SkytapTemplate,
+  SkytapUser,
+  SkytapVM,
+} from "../../src/lib/skytap-schemas";
+
+export const MOCK_ORIGIN = 'https://cloud.skytap.com';
+
+export interface MockSeed {
+  projects: SkytapProject[];
+  /** Configuration ids per project id */
+  projectConfigurations: Record<string, string[]>;
+  projectTemplates: Record<string, string[]>;
+  configurations: SkytapConfiguration[];
+  templates: SkytapTemplate[];
+  /** Labels keyed by "configurations/<id>" or "templates/<id>" */
+  labels: Record<string, SkytapLabel[]>;
+  ips: SkytapIPAddress[];
+  publishSets: Record<string, SkytapPublishSet[]>;
+  schedules: SkytapSchedule[];
+  users: SkytapUser[];
+}
+
+const REGIONS = ['US-West', 'US-Central', 'EMEA', 'APAC'];
+const BILLING_CATEGORIES = ['Training', 'Sales Demo', 'Engineering'];
+
+const hoursAgo = (hours: number) => new Date(Date.UTC(2024, 5, 1, 12) - hours * 3_600_000).toISOString();
+
+/**
+ * Build the VMs for an environment; each VM has one NIC so IPs can be attached
+ */
+export function makeVMs(ownerId: string, count: number, runstate: string): SkytapVM[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${ownerId}${index + 1}`,
+    name: `VM ${index + 1}`,
+    runstate,
+    hardware: { cpus: 2, ram: 4096, storage: 40960, svms: 2 },
+    interfaces: [{ id: `nic-${ownerId}${index + 1}`, ip: `10.0.0.${index + 10}`, hostname: `vm${index + 1}`, nic_type: 'vmxnet3', public_ips: [] }],
+  }));
+}
+
+const billingLabel = (id: string, text: string): SkytapLabel => ({
+  id,
+  text,
+  type: 'Billing Category',
+  created_at: hoursAgo(24 * 30),
+});
+
+export function createSeed(): MockSeed {
+  const projects: SkytapProject[] = [
+    { id: '1001', name: 'Spring Training Cohort', configuration_count: 0, template_count: 0, owner_name: 'Alex Admin', created_at: hoursAgo(24 * 90) },
+    { id: '1002', name: 'Partner Demos', configuration_count: 0, template_count: 0, owner_name: 'Alex Admin', created_at: hoursAgo(24 * 60) },
+    { id: '1003', name: 'Engineering Sandbox', configuration_count: 0, template_count: 0, owner_name: 'Sam Engineer', created_at: hoursAgo(24 * 45) },
+    { id: '1004', name: 'Old Workshop (empty)', configuration_count: 0, template_count: 0, owner_name: 'Alex Admin', created_at: hoursAgo(24 * 400) },
+    { id: '1005', name: 'Abandoned POC (empty)', configuration_count: 0, template_count: 0, owner_name: 'Sam Engineer', created_at: hoursAgo(24 * 300) },
+  ];
+
+  const configurations: SkytapConfiguration[] = [];
+  const projectConfigurations: Record<string, string[]> = { '1001': [], '1002': [], '1003': [], '1004': [], '1005': [] };
+  const labels: Record<string, SkytapLabel[]> = {};
+  const publishSets: Record<string, SkytapPublishSet[]> = {};
+
+  // The training master plus a class of student copies
+  const addConfiguration = (config: Omit<SkytapConfiguration, 'vms' | 'vm_count' | 'storage'>, vmCount: number, projectId: string) => {
+    const vms = makeVMs(config.id, vmCount, config.runstate);
+    configurations.push({
+      ...config,
+      vm_count: vms.length,
+      svms: vms.length * 2,
+      storage: vms.length * 40960,
+      url: `${MOCK_ORIGIN}/v2/configurations/${config.id}`,
+      vms,
+    });
+    projectConfigurations[projectId].push(config.id);
+  };
+
+  addConfiguration({
+    id: '2001', name: 'Training Master', runstate: 'stopped', region: 'US-West',
+    created_at: hoursAgo(24 * 80), owner_name: 'Alex Admin', suspend_type: 'shutdown',
+    suspend_on_idle: 3600, auto_suspend_description: 'Environment will shut down after 1 hour of inactivity',
+  }, 2, '1001');
+
+  for (let seat = 1; seat <= 4; seat++) {
+    const id = String(2001 + seat);
+    addConfiguration({
+      id, name: `Spring Training - ${String(seat).padStart(2, '0')}`,
+      runstate: seat % 2 === 0 ? 'running' : 'suspended', region: 'US-West',
+      created_at: hoursAgo(24 * 10), last_run: hoursAgo(seat * 3), owner_name: 'Alex Admin',
+      suspend_type: 'suspend', suspend_on_idle: 7200,
+      auto_suspend_description: 'Environment will suspend after 2 hours of inactivity',
+    }, 2, '1001');
+    labels[`configurations/${id}`] = [billingLabel(`l-${id}`, 'Training')];
+    publishSets[id] = [{
+      id: `ps-${id}`,
+      name: `Student ${seat}`,
+      configuration_name: `Spring Training - ${String(seat).padStart(2, '0')}`,
+      desktops_url: `${MOCK_ORIGIN}/vms/mock-desktops-${id}`,
+      url: `${MOCK_ORIGIN}/v2/configurations/${id}/publish_sets/ps-${id}`,
+      publish_set_type: 'single_url',
+      runtime_limit: 1200,
+      runtime_left_in_seconds: 72000 - seat * 3600,
+      created_at: hoursAgo(24 * 10),
+      expiration_date: null,
+      expiration_date_tz: null,
+      start_time: null,
+      end_time: null,
+      time_zone: null,
+      multiple_url: false,
+      password: null,
+      use_smart_client: false,
+    }];
+  }
+
+  ['EMEA', 'APAC'].forEach((region, index) => {
+    const id = String(2101 + index);
+    addConfiguration({
+      id, name: `Partner Demo - ${region}`, runstate: index === 0 ? 'running' : 'stopped', region,
+      created_at: hoursAgo(24 * 20), last_run: hoursAgo(30), owner_name: 'Pat Partner',
+    }, 3, '1002');
+    labels[`configurations/${id}`] = [billingLabel(`l-${id}`, 'Sales Demo')];
+  });
+
+  ['US-Central', 'US-Central', 'EMEA'].forEach((region, index) => {
+    const id = String(2201 + index);
+    addConfiguration({
+      id, name: `Dev Sandbox ${index + 1}`, runstate: index === 1 ? 'running' : 'stopped', region,
+      created_at: hoursAgo(24 * 5), last_run: hoursAgo(5 + index), owner_name: 'Sam Engineer',
+    }, 1, '1003');
+    // The last sandbox is deliberately unlabelled so the Usage page has something to flag
+    if (index < 2) labels[`configurations/${id}`] = [billingLabel(`l-${id}`, 'Engineering')];
+  });
+
+  const templates: SkytapTemplate[] = REGIONS.map((region, index) => {
+    const id = String(3001 + index);
+    const vms = makeVMs(id, 2, 'stopped');
+    labels[`templates/${id}`] = index < 3 ? [billingLabel(`lt-${id}`, BILLING_CATEGORIES[index % BILLING_CATEGORIES.length])] : [];
+    return {
+      id,
+      name: `Partner Template - ${region}`,
+      region,
+      vm_count: vms.length,
+      storage: vms.length * 40960,
+      svms: vms.length * 2,
+      created_at: hoursAgo(24 * 100),
+      owner_name: index === 3 ? undefined : 'Alex Admin',
+      vms,
+    };
+  });
+
+  const ips: SkytapIPAddress[] = REGIONS.flatMap((region, regionIndex) =>
+    Array.from({ length: 3 }, (_, index) => {
+      const attached = index === 0;
+      const id = `ip-${regionIndex + 1}${index + 1}`;
+      return {
+        id,
+        address: `203.0.${113 + regionIndex}.${10 + index}`,
+        region,
+        nic_count: attached ? 1 : 0,
+        connect_type: 'static',
+        dns_name: attached ? `demo-${regionIndex + 1}.skytap.example` : null,
+        nics: attached ? [{ id: `nic-2002${regionIndex + 1}`, deployed: true }] : [],
+      };
+    })
+  );
+
+  // Show attached IPs on the interfaces they are attached to, as Skytap's configuration responses do
+  ips.forEach(ip => ip.nics.forEach(({ id: nicId }) => {
+    const nic = configurations.flatMap(config => config.vms ?? []).flatMap(vm => vm.interfaces ?? []).find(i => i.id === nicId);
+    if (nic) nic.public_ips = [{ id: ip.id, address: ip.address }];
+  }));
+
+  const schedules: SkytapSchedule[] = [{
+    id: '4001',
+    title: 'Spring Training - 02',
+    configuration_id: '2003',
+    actions: [{ type: 'run', offset: 0 }, { type: 'suspend', offset: 8 * 3600 }],
+    start_at: '2024/06/03 08:00:00',
+    end_at: '2024/06/07 17:00:00',
+    time_zone: 'Pacific Time (US & Canada)',
+    recurring_days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    notify_user: true,
+    delete_at_end: false,
+  }];
+
+  const people = [
+    ['Alex', 'Admin', true], ['Sam', 'Engineer', true], ['Pat', 'Partner', true],
+    ['Jordan', 'Trainer', true], ['Casey', 'Newhire', false], ['Riley', 'Contractor', false],
+  ] as const;
+  const users: SkytapUser[] = people.map(([first, last, activated], index) => ({
+    id: String(5001 + index),
+    url: `${MOCK_ORIGIN}/v2/users/${5001 + index}`,
+    first_name: first,
+    last_name: last,
+    login_name: `${first.toLowerCase()}.${last.toLowerCase()}`,
+    email: `${first.toLowerCase()}.${last.toLowerCase()}@example.com`,
+    title: index === 0 ? 'Administrator' : 'User',
+    deleted: false,
+    default_region: REGIONS[index % REGIONS.length],
+    can_add_resources: index < 3,
+    activated,
+    last_login: activated ? hoursAgo(index * 20 + 2) : null,
+    created_at: hoursAgo(24 * (200 - index * 10)),
+    updated_at: hoursAgo(24 * index),
+  }));
+
+  return {
+    projects,
+    projectConfigurations,
+    projectTemplates: { '1002': ['3001', '3002', '3003', '3004'] },
+    configurations,
+    templates,
+    labels,
+    ips,
+    publishSets,
+    schedules,
+    users,
+  };
+}
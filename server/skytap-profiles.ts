@@ -0,0 +1,131 @@
+// Skytap Credential Profiles
+// Named Skytap accounts loaded from environment variables. The browser only ever sees profile
+// ids and labels; usernames and API tokens are turned into Basic auth here, on the proxy.
+
+import type { IncomingMessage, ServerResponse } from "http";
+
+/** Request header the UI uses to pick which account a call runs against */
+export const PROFILE_HEADER = 'x-skytap-profile';
+
+/** Path the UI fetches to list available profiles */
+export const PROFILES_PATH = '/__skytap/profiles';
+
+/** Profile id used for the plain SKYTAP_USER / SKYTAP_TOKEN pair */
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface SkytapProfile {
+  id: string;
+  label: string;
+  username: string;
+  token: string;
+}
+
+/**
+ * What the browser is allowed to know about a profile
+ */
+export interface PublicSkytapProfile {
+  id: string;
+  label: string;
+  username: string;
+}
+
+export interface SkytapProfileConfig {
+  profiles: SkytapProfile[];
+  defaultProfileId: string | null;
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Read profiles from the environment.
+ *
+ * SKYTAP_USER / SKYTAP_TOKEN become the "default" profile. Additional accounts are listed in
+ * SKYTAP_PROFILES (comma separated ids), each with SKYTAP_<ID>_USER, SKYTAP_<ID>_TOKEN and an
+ * optional SKYTAP_<ID>_LABEL. SKYTAP_DEFAULT_PROFILE picks the profile used when none is requested.
+ */
+export function loadSkytapProfiles(env: Env): SkytapProfileConfig {
+  const profiles: SkytapProfile[] = [];
+
+  if (env.SKYTAP_USER && env.SKYTAP_TOKEN) {
+    profiles.push({
+      id: DEFAULT_PROFILE_ID,
+      label: env.SKYTAP_LABEL || 'Default',
+      username: env.SKYTAP_USER,
+      token: env.SKYTAP_TOKEN,
+    });
+  }
+
+  const ids = (env.SKYTAP_PROFILES || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  for (const id of ids) {
+    const prefix = `SKYTAP_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const username = env[`${prefix}USER`];
+    const token = env[`${prefix}TOKEN`];
+    if (!username || !token) {
+      console.warn(`Skytap profile "${id}" is missing ${prefix}USER or ${prefix}TOKEN and was skipped`);
+      continue;
+    }
+    if (profiles.some(profile => profile.id === id)) {
+      console.warn(`Skytap profile "${id}" is defined more than once; keeping the first`);
+      continue;
+    }
+    profiles.push({ id, label: env[`${prefix}LABEL`] || id, username, token });
+  }
+
+  const requestedDefault = env.SKYTAP_DEFAULT_PROFILE?.trim().toLowerCase();
+  const defaultProfile = profiles.find(profile => profile.id === requestedDefault) ?? profiles[0];
+
+  return { profiles, defaultProfileId: defaultProfile?.id ?? null };
+}
+
+/**
+ * Find the profile for a request. No header means the default profile; an unknown id resolves to undefined.
+ */
+export function resolveProfile(config: SkytapProfileConfig, requestedId?: string | string[]): SkytapProfile | undefined {
+  const id = Array.isArray(requestedId) ? requestedId[0] : requestedId;
+  const wanted = id?.trim().toLowerCase() || config.defaultProfileId;
+  return config.profiles.find(profile => profile.id === wanted);
+}
+
+export function toPublicProfile({ id, label, username }: SkytapProfile): PublicSkytapProfile {
+  return { id, label, username };
+}
+
+export function basicAuthHeader(profile: SkytapProfile): string {
+  return `Basic ${Buffer.from(`${profile.username}:${profile.token}`).toString('base64')}`;
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Connect-style middleware that serves the profile list and rejects API calls
+ * naming a profile that doesn't exist, before they reach the proxy
+ */
+export function createProfilesMiddleware(config: SkytapProfileConfig, apiPrefix = '/api') {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const path = req.url?.split('?')[0];
+
+    if (path === PROFILES_PATH) {
+      sendJson(res, 200, {
+        defaultProfileId: config.defaultProfileId,
+        profiles: config.profiles.map(toPublicProfile),
+      });
+      return;
+    }
+
+    const requested = req.headers[PROFILE_HEADER];
+    if (path?.startsWith(`${apiPrefix}/`) && requested && !resolveProfile(config, requested)) {
+      sendJson(res, 400, { error: `Unknown Skytap profile "${requested}"` });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,118 @@
+// Skytap API Proxy
+// Forwards /api/* to the Skytap API with the active profile's credentials, for the production server
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import https from "https";
+import {
+  PROFILE_HEADER,
+  SkytapProfileConfig,
+  basicAuthHeader,
+  resolveProfile,
+} from "./skytap-profiles";
+
+export const DEFAULT_UPSTREAM = 'https://cloud.skytap.com';
+
+export interface SkytapProxyOptions {
+  /** Skytap API origin, e.g. https://cloud.skytap.com or a local mock */
+  upstream: string;
+  profiles: SkytapProfileConfig;
+  /** Path prefix the SPA calls; stripped before forwarding */
+  prefix?: string;
+  /** Give up on the upstream after this long (default 2 minutes) */
+  timeoutMs?: number;
+}
+
+// Hop-by-hop headers must not be forwarded by a proxy
+const HOP_BY_HOP = new Set([
+  'connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization',
+  'te', 'trailer', 'transfer-encoding', 'upgrade', 'host',
+]);
+
+/**
+ * Point upstream redirects back at the proxy so the browser never talks to Skytap directly
+ */
+export function rewriteLocation(location: string, upstream: string, prefix = '/api'): string {
+  const origin = new URL(upstream).origin;
+  return location.startsWith(origin) ? `${prefix}${location.slice(origin.length)}` : location;
+}
+
+/**
+ * Build a handler for requests under `prefix`. Returns false for requests it doesn't own
+ * so the caller can fall through to static files.
+ */
+export function createSkytapProxy({ upstream, profiles, prefix = '/api', timeoutMs = 120_000 }: SkytapProxyOptions) {
+  const upstreamUrl = new URL(upstream);
+  const transport = upstreamUrl.protocol === 'https:' ? https : http;
+  const basePath = upstreamUrl.pathname.replace(/\/$/, '');
+
+  return (req: IncomingMessage, res: ServerResponse): boolean => {
+    const url = req.url ?? '/';
+    if (url !== prefix && !url.startsWith(`${prefix}/`) && !url.startsWith(`${prefix}?`)) {
+      return false;
+    }
+
+    const headers: http.OutgoingHttpHeaders = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined && !HOP_BY_HOP.has(name) && name !== PROFILE_HEADER && name !== 'authorization') {
+        headers[name] = value;
+      }
+    }
+
+    const profile = resolveProfile(profiles, req.headers[PROFILE_HEADER]);
+    if (profile) {
+      headers.authorization = basicAuthHeader(profile);
+    }
+    headers['content-type'] = 'application/json';
+    headers.accept = 'application/json';
+    headers.host = upstreamUrl.host;
+
+    const upstreamReq = transport.request({
+      protocol: upstreamUrl.protocol,
+      hostname: upstreamUrl.hostname,
+      port: upstreamUrl.port || undefined,
+      method: req.method,
+      path: `${basePath}${url.slice(prefix.length) || '/'}`,
+      headers,
+      timeout: timeoutMs,
+    });
+
+    upstreamReq.on('response', (upstreamRes) => {
+      const responseHeaders: http.OutgoingHttpHeaders = {};
+      for (const [name, value] of Object.entries(upstreamRes.headers)) {
+        if (value !== undefined && !HOP_BY_HOP.has(name)) {
+          responseHeaders[name] = value;
+        }
+      }
+
+      const location = upstreamRes.headers.location;
+      if (location && upstreamRes.statusCode && upstreamRes.statusCode >= 300 && upstreamRes.statusCode < 400) {
+        responseHeaders.location = rewriteLocation(location, upstream, prefix);
+      }
+
+      res.writeHead(upstreamRes.statusCode ?? 502, upstreamRes.statusMessage, responseHeaders);
+      upstreamRes.pipe(res);
+    });
+
+    upstreamReq.on('timeout', () => {
+      upstreamReq.destroy(new Error(`Upstream did not respond within ${Math.round(timeoutMs / 1000)}s`));
+    });
+
+    upstreamReq.on('error', (err) => {
+      console.error('Proxy error:', err.message);
+      if (!res.headersSent) {
+        res.writeHead(502, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Skytap API unreachable: ${err.message}` }));
+      } else {
+        res.destroy(err);
+      }
+    });
+
+    // The browser gave up; stop waiting on Skytap as well
+    res.on('close', () => {
+      if (!res.writableFinished) upstreamReq.destroy();
+    });
+
+    req.pipe(upstreamReq);
+    return true;
+  };
+}
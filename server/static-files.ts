@@ -0,0 +1,85 @@
+// Static File Server
+// Serves the built SPA from dist/, falling back to index.html so client-side routes work on reload
+
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import path from "path";
+import { IncomingMessage, ServerResponse } from "http";
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.ico': 'image/x-icon',
+  '.webp': 'image/webp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+  '.map': 'application/json',
+};
+
+const isFile = async (filePath: string) => {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+export function createStaticHandler(rootDir: string) {
+  const root = path.resolve(rootDir);
+  const indexFile = path.join(root, 'index.html');
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400);
+      res.end();
+      return;
+    }
+
+    // Resolve inside the build directory only; anything escaping it is treated as a route
+    const requested = path.join(root, pathname);
+    const insideRoot = requested.startsWith(root + path.sep);
+    const filePath = insideRoot && await isFile(requested) ? requested : indexFile;
+
+    if (!await isFile(filePath)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('Build output not found. Run "npm run build" first.');
+      return;
+    }
+
+    const ext = path.extname(filePath).toLowerCase();
+    // Vite fingerprints everything under assets/, so those can be cached forever
+    const cacheControl = filePath.startsWith(path.join(root, 'assets') + path.sep)
+      ? 'public, max-age=31536000, immutable'
+      : 'no-cache';
+
+    res.writeHead(200, {
+      'Content-Type': CONTENT_TYPES[ext] ?? 'application/octet-stream',
+      'Cache-Control': cacheControl,
+      'X-Content-Type-Options': 'nosniff',
+    });
+
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+    createReadStream(filePath).pipe(res);
+  };
+}
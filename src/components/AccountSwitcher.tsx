@@ -0,0 +1,66 @@
+// AccountSwitcher Component
+// Shows which Skytap account the console is working against and lets the user switch profiles
+
+import { Building2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSkytapProfile } from "@/hooks/use-skytap-profile";
+import { cn } from "@/lib/utils";
+
+/**
+ * Props for the AccountSwitcher component
+ */
+interface AccountSwitcherProps {
+  /** Optional additional CSS classes */
+  className?: string;
+}
+
+/**
+ * AccountSwitcher Component
+ *
+ * Rendered in every page header. With a single profile it just names the account;
+ * with several it becomes a dropdown that switches the credentials the proxy uses.
+ */
+export function AccountSwitcher({ className }: AccountSwitcherProps) {
+  const { profiles, activeProfile, isLoading, error, selectProfile } = useSkytapProfile();
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (error || !activeProfile) {
+    return (
+      <div className={cn("flex items-center gap-2 text-sm text-muted-foreground", className)}>
+        <Building2 className="h-4 w-4" />
+        {error ? "Account unavailable" : "No Skytap credentials configured"}
+      </div>
+    );
+  }
+
+  if (profiles.length === 1) {
+    return (
+      <div className={cn("flex items-center gap-2 text-sm", className)} title={activeProfile.username}>
+        <Building2 className="h-4 w-4 text-muted-foreground" />
+        <span className="font-medium">{activeProfile.label}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Building2 className="h-4 w-4 text-muted-foreground" />
+      <Select value={activeProfile.id} onValueChange={selectProfile}>
+        <SelectTrigger className="h-8 w-[200px]" aria-label="Skytap account">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.label}
+              <span className="ml-2 text-xs text-muted-foreground">{profile.username}</span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+// ClassDefinitionPanel Component
+// Imports and exports class definition files, runs every wizard step from one, and reports how the run went
+
+import React, { useRef, useState } from "react";
+import { FileCode, Upload, Download, Play, Square, CheckCircle, XCircle, MinusCircle, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import {
+  ClassDefinition,
+  ClassDefinitionError,
+  ClassDefinitionFormat,
+  parseClassDefinition,
+  serializeClassDefinition,
+} from "@/lib/class-definition";
+
+/**
+ * How one step went during a run of all steps
+ */
+export interface RunAllEntry {
+  stepId: string;
+  title: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  detail: string;
+  durationMs: number;
+}
+
+/**
+ * A run of every step from a class definition
+ */
+export interface RunAllState {
+  status: 'running' | 'finished' | 'failed' | 'stopped';
+  /** Step the run is waiting on; null once it ends */
+  stepId: string | null;
+  stepStartedAt: number;
+  entries: RunAllEntry[];
+}
+
+/**
+ * Props for the ClassDefinitionPanel component
+ */
+interface ClassDefinitionPanelProps {
+  /** Definition imported last, if any */
+  definition: ClassDefinition | null;
+  /** Current or last run of all steps */
+  runAll: RunAllState | null;
+  /** Whether the definition's project has been validated, so its steps can run */
+  canRun: boolean;
+  /** Callback with a definition that passed validation */
+  onImport: (definition: ClassDefinition) => void;
+  /** Builds the definition to export from the steps run so far; throws ClassDefinitionError when incomplete */
+  buildDefinition: () => ClassDefinition;
+  onRunAll: () => void;
+  onStopRunAll: () => void;
+}
+
+const formatDuration = (ms: number) =>
+  ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+
+const fileNameFor = (definition: ClassDefinition, format: ClassDefinitionFormat) => {
+  const slug = (definition.name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || `class-${definition.projectId}`}.${format === 'yaml' ? 'yaml' : 'json'}`;
+};
+
+/**
+ * ClassDefinitionPanel Component
+ *
+ * Loads a class definition from a JSON or YAML file or pasted text, listing every problem when it
+ * doesn't validate. A loaded definition fills in each step's form and can run all of them in turn;
+ * the summary table shows each step's outcome once the run ends.
+ *
+ * @param props - ClassDefinitionPanelProps object
+ */
+export const ClassDefinitionPanel: React.FC<ClassDefinitionPanelProps> = ({
+  definition,
+  runAll,
+  canRun,
+  onImport,
+  buildDefinition,
+  onRunAll,
+  onStopRunAll
+}) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pastedText, setPastedText] = useState("");
+  const [issues, setIssues] = useState<string[]>([]);
+  const isRunning = runAll?.status === 'running';
+
+  const importText = (text: string, source: string) => {
+    try {
+      const imported = parseClassDefinition(text);
+      setIssues([]);
+      setPastedText("");
+      onImport(imported);
+      toast({
+        title: "Class Definition Imported",
+        description: `${imported.name ?? source} for project ${imported.projectId}`,
+      });
+    } catch (err) {
+      const found = err instanceof ClassDefinitionError ? err.issues : [err instanceof Error ? err.message : String(err)];
+      setIssues(found);
+      toast({
+        title: "Invalid Class Definition",
+        description: `${source} has ${found.length} problem(s)`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    importText(await file.text(), file.name);
+    e.target.value = '';
+  };
+
+  const handleExport = (format: ClassDefinitionFormat) => {
+    let exported: ClassDefinition;
+    try {
+      exported = buildDefinition();
+    } catch (err) {
+      toast({
+        title: "Nothing to Export",
+        description: err instanceof ClassDefinitionError ? err.issues.join('; ') : String(err),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const blob = new Blob([serializeClassDefinition(exported, format)], {
+      type: format === 'yaml' ? 'application/yaml;charset=utf-8;' : 'application/json;charset=utf-8;',
+    });
+    const link = document.createElement('a');
+    link.setAttribute('href', URL.createObjectURL(blob));
+    link.setAttribute('download', fileNameFor(exported, format));
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const statusBadge = (entry: RunAllEntry) => {
+    switch (entry.status) {
+      case 'succeeded':
+        return <Badge variant="secondary" className="gap-1"><CheckCircle className="h-3 w-3" />Succeeded</Badge>;
+      case 'failed':
+        return <Badge variant="destructive" className="gap-1"><XCircle className="h-3 w-3" />Failed</Badge>;
+      default:
+        return <Badge variant="outline" className="gap-1"><MinusCircle className="h-3 w-3" />Skipped</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileCode className="h-5 w-5" />
+          Class Definition
+        </CardTitle>
+        <CardDescription>
+          Import a JSON or YAML class definition to fill in every step, then run them all at once. Export the settings of a class you've set up to reuse it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={isRunning}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import File
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('json')} disabled={isRunning}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('yaml')} disabled={isRunning}>
+            <Download className="h-4 w-4 mr-2" />
+            Export YAML
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="classDefinitionText">Or paste a definition</Label>
+          <Textarea
+            id="classDefinitionText"
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={'version: 1\nprojectId: "12345"\ncopy:\n  masterEnvironmentId: "67890"\n  copies: 12\n  namePrefix: Spring Workshop'}
+            rows={5}
+            className="font-mono text-sm"
+            disabled={isRunning}
+          />
+          <Button variant="outline" size="sm" onClick={() => importText(pastedText, 'Pasted definition')} disabled={isRunning || !pastedText.trim()}>
+            Import Text
+          </Button>
+        </div>
+
+        {issues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>The class definition has {issues.length} problem(s)</AlertTitle>
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1">
+                {issues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {definition && (
+          <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border p-3">
+            <div className="text-sm">
+              <p className="font-medium">{definition.name ?? 'Unnamed class'}</p>
+              <p className="text-muted-foreground">
+                Project {definition.projectId}: {definition.copy.copies} cop{definition.copy.copies === 1 ? 'y' : 'ies'} of {definition.copy.masterEnvironmentId}
+                {definition.schedule ? `, scheduled ${definition.schedule.startDate} to ${definition.schedule.endDate}` : ', no schedule'}
+                {definition.portals ? ', with portals' : ', no portals'}
+              </p>
+            </div>
+            {isRunning ? (
+              <Button variant="destructive" onClick={onStopRunAll}>
+                <Square className="h-4 w-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button onClick={onRunAll} disabled={!canRun}>
+                <Play className="h-4 w-4 mr-2" />
+                Run All Steps
+              </Button>
+            )}
+          </div>
+        )}
+
+        {runAll && (
+          <div className="space-y-2">
+            <h4 className="font-semibold flex items-center gap-2">
+              {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+              Run Summary
+            </h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Details</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runAll.entries.map(entry => (
+                  <TableRow key={entry.stepId}>
+                    <TableCell className="font-medium">{entry.title}</TableCell>
+                    <TableCell>{statusBadge(entry)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.detail}</TableCell>
+                    <TableCell className="text-right text-sm">{entry.status === 'skipped' ? '' : formatDuration(entry.durationMs)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {runAll.status !== 'running' && (
+              <p className="text-sm text-muted-foreground">
+                {runAll.status === 'finished' ? 'All steps finished' : runAll.status === 'failed' ? 'Stopped at a failed step' : 'Stopped by request'}
+                {' '}in {formatDuration(runAll.entries.reduce((total, entry) => total + entry.durationMs, 0))}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,14 +1,16 @@
 import React from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { TrainingRun } from "@/lib/training-runs";
+import { STEP_OUTPUTS, StepInputs, TrainingStepSpec, missingInputs } from "@/lib/training-steps";
+import { StepScope, scopeInputs } from "@/lib/training-scope";
+import type { ClassDefinition } from "@/lib/class-definition";
 
-interface Step {
-  id: string;
-  title: string;
-  description: string;
+interface Step extends TrainingStepSpec {
   icon: React.ReactNode;
   component: React.ComponentType<any>;
-  completed: boolean;
 }
 
 interface StepContentProps {
@@ -16,7 +18,15 @@ interface StepContentProps {
   steps: Step[];
   projectId: string;
   projectValid: boolean;
-  stepResults: Record<string, any>;
+  /** Outputs of the completed steps, handed to the current one */
+  inputs: StepInputs;
+  /** Whether steps act on the copies just created or the whole project */
+  scope: StepScope;
+  onScopeChange: (scope: StepScope) => void;
+  resumeRun?: TrainingRun | null;
+  classDefinition?: ClassDefinition | null;
+  /** Start the current step's action by itself, while running all steps */
+  autoRun?: boolean;
   onStepComplete: (stepId: string, results: any) => void;
 }
 
@@ -25,7 +35,12 @@ export const StepContent: React.FC<StepContentProps> = ({
   steps,
   projectId,
   projectValid,
-  stepResults,
+  inputs,
+  scope,
+  onScopeChange,
+  resumeRun,
+  classDefinition,
+  autoRun,
   onStepComplete
 }) => {
   const currentStepComponent = steps[currentStep]?.component;
@@ -34,6 +49,9 @@ export const StepContent: React.FC<StepContentProps> = ({
     return null;
   }
 
+  const missing = missingInputs(steps[currentStep], inputs);
+  const readsCopies = [...(steps[currentStep].requires ?? []), ...(steps[currentStep].uses ?? [])].includes('copies');
+
   return (
     <Card>
       <CardHeader>
@@ -44,12 +62,40 @@ export const StepContent: React.FC<StepContentProps> = ({
         <CardDescription>{steps[currentStep]?.description}</CardDescription>
       </CardHeader>
       <CardContent>
-        {projectValid ? (
-          React.createElement(currentStepComponent, {
-            projectId: projectId,
-            onComplete: (results: any) => onStepComplete(steps[currentStep].id, results),
-            stepResults: stepResults,
-          })
+        {projectValid && missing.length > 0 ? (
+          <Alert>
+            <AlertDescription>
+              This step needs {missing.map(key => STEP_OUTPUTS[key].toLowerCase()).join(' and ')} from an earlier step first.
+            </AlertDescription>
+          </Alert>
+        ) : projectValid ? (
+          <div className="space-y-6">
+            {readsCopies && inputs.copies && (
+              <div className="flex items-start gap-3 rounded-md border p-3">
+                <Switch
+                  id="stepScope"
+                  checked={scope === 'copies'}
+                  onCheckedChange={(checked) => onScopeChange(checked ? 'copies' : 'project')}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="stepScope">Only the copies just created</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {scope === 'copies'
+                      ? `This step acts on the ${inputs.copies.ids.length} cop${inputs.copies.ids.length === 1 ? 'y' : 'ies'} the copy step made. Turn off to cover the whole project.`
+                      : 'This step acts on every environment in the project, including the master and earlier classes.'}
+                  </p>
+                </div>
+              </div>
+            )}
+            {React.createElement(currentStepComponent, {
+              projectId: projectId,
+              onComplete: (results: any) => onStepComplete(steps[currentStep].id, results),
+              inputs: scopeInputs(inputs, scope),
+              resumeRun: resumeRun,
+              classDefinition: classDefinition,
+              autoRun: autoRun,
+            })}
+          </div>
         ) : (
           <Alert variant="destructive">
             <AlertDescription>
@@ -2,18 +2,14 @@
 // A visual navigation component that displays training workflow steps with completion status
 
 import React from "react";
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, SkipForward } from "lucide-react";
+import { STEP_OUTPUTS, StepInputs, StepStatus, TrainingStepSpec, missingInputs } from "@/lib/training-steps";
 
 /**
  * Step interface defining the structure of each workflow step
  */
-interface Step {
-  id: string;
-  title: string;
-  description: string;
+interface Step extends TrainingStepSpec {
   icon: React.ReactNode;
-  component: React.ComponentType<any>;
-  completed: boolean;
 }
 
 /**
@@ -22,6 +18,10 @@ interface Step {
 interface StepNavigationProps {
   /** Array of step objects to display */
   steps: Step[];
+  /** Whether each step has completed or been skipped, by step id */
+  statuses: Record<string, StepStatus>;
+  /** Outputs of the completed steps, which decide the steps that can open */
+  inputs: StepInputs;
   /** Index of the currently active step */
   currentStep: number;
   /** Whether the project has been validated (affects step availability) */
@@ -34,26 +34,31 @@ interface StepNavigationProps {
  * StepNavigation Component
  * 
  * Renders a grid of step cards that show the training workflow progress.
- * Each step can be in one of three states:
+ * Each step can be in one of four states:
  * - Current: Highlighted as the active step
  * - Completed: Shows checkmark and green styling
- * - Pending: Disabled until previous steps are completed
+ * - Skipped: An optional step passed over, shown muted
+ * - Pending: Disabled until the steps producing its required inputs are completed
  * 
  * @param props - StepNavigationProps object
  */
 export const StepNavigation: React.FC<StepNavigationProps> = ({
   steps,
+  statuses,
+  inputs,
   currentStep,
   projectValid,
   onStepClick
 }) => {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
       {steps.map((step, index) => {
         // Determine step state and styling
         const isCurrent = index === currentStep;
-        const isCompleted = step.completed;
-        const isDisabled = !projectValid || (index > 0 && !steps[index - 1]?.completed && index !== currentStep);
+        const isCompleted = statuses[step.id] === 'completed';
+        const isSkipped = statuses[step.id] === 'skipped';
+        const missing = missingInputs(step, inputs);
+        const isDisabled = !projectValid || (missing.length > 0 && index !== currentStep);
         
         return (
           <div
@@ -73,6 +78,8 @@ export const StepNavigation: React.FC<StepNavigationProps> = ({
               {/* Step icon or completion checkmark */}
               {isCompleted ? (
                 <CheckCircle className="h-6 w-6 text-green-600" />
+              ) : isSkipped ? (
+                <SkipForward className="h-6 w-6 text-muted-foreground" />
               ) : (
                 <div className={`h-6 w-6 ${
                   isCurrent ? 'text-primary' : 'text-muted-foreground'
@@ -93,6 +100,17 @@ export const StepNavigation: React.FC<StepNavigationProps> = ({
             <p className="text-sm text-muted-foreground">
               {step.description}
             </p>
+
+            {/* Why the step can't open yet, or that it may be skipped */}
+            {missing.length > 0 ? (
+              <p className="text-xs text-muted-foreground mt-2">
+                Needs: {missing.map(key => STEP_OUTPUTS[key]).join(', ')}
+              </p>
+            ) : (step.optional || isSkipped) && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {isSkipped ? 'Skipped' : 'Optional'}
+              </p>
+            )}
           </div>
         );
       })}
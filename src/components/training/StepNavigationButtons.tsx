@@ -1,32 +1,33 @@
 import React from "react";
 import { useNavigate } from "react-router-dom";
-import { ChevronLeft, ChevronRight, CheckCircle } from "lucide-react";
+import { ChevronLeft, ChevronRight, CheckCircle, SkipForward } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
-
-interface Step {
-  id: string;
-  title: string;
-  description: string;
-  icon: React.ReactNode;
-  component: React.ComponentType<any>;
-  completed: boolean;
-}
+import { StepStatus, TrainingStepSpec } from "@/lib/training-steps";
 
 interface StepNavigationButtonsProps {
   currentStep: number;
-  steps: Step[];
+  steps: TrainingStepSpec[];
+  statuses: Record<string, StepStatus>;
+  /** Every step completed, or skipped where optional */
+  setupFinished: boolean;
   onPreviousStep: () => void;
   onNextStep: () => void;
+  onSkipStep: () => void;
 }
 
 export const StepNavigationButtons: React.FC<StepNavigationButtonsProps> = ({
   currentStep,
   steps,
+  statuses,
+  setupFinished,
   onPreviousStep,
-  onNextStep
+  onNextStep,
+  onSkipStep
 }) => {
   const navigate = useNavigate();
+  const status = statuses[steps[currentStep]?.id];
+  const canSkip = !!steps[currentStep]?.optional && status !== 'completed';
 
   const handleCompleteSetup = () => {
     toast({
@@ -45,23 +46,30 @@ export const StepNavigationButtons: React.FC<StepNavigationButtonsProps> = ({
       >
         <ChevronLeft className="h-4 w-4 mr-2" /> Previous
       </Button>
-      {currentStep < steps.length - 1 ? (
-        <Button
-          onClick={onNextStep}
-          disabled={!steps[currentStep]?.completed}
-        >
-          Next Step
-          <ChevronRight className="h-4 w-4 ml-2" />
-        </Button>
-      ) : (
-        <Button
-          onClick={handleCompleteSetup}
-          disabled={!steps[currentStep]?.completed}
-        >
-          <CheckCircle className="h-4 w-4 mr-2" />
-          Complete Setup
-        </Button>
-      )}
+      <div className="flex gap-2">
+        {canSkip && (
+          <Button onClick={onSkipStep} variant="ghost">
+            <SkipForward className="h-4 w-4 mr-2" /> Skip Step
+          </Button>
+        )}
+        {currentStep < steps.length - 1 ? (
+          <Button
+            onClick={onNextStep}
+            disabled={!status}
+          >
+            Next Step
+            <ChevronRight className="h-4 w-4 ml-2" />
+          </Button>
+        ) : (
+          <Button
+            onClick={handleCompleteSetup}
+            disabled={!setupFinished}
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Complete Setup
+          </Button>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,66 @@
+// TimeZoneSelect Component
+// Picker for IANA time zones: the familiar zones first, then every zone the browser knows
+
+import React, { useMemo } from "react";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COMMON_TIME_ZONES, formatOffset, getAllTimeZones, getTimeZoneOffset, timeZoneLabel } from "@/lib/time-zones";
+
+/**
+ * Props for the TimeZoneSelect component
+ */
+interface TimeZoneSelectProps {
+  /** id for the trigger, so a Label can point at it */
+  id: string;
+  /** Selected IANA zone, or '' for none */
+  value: string;
+  onValueChange: (timeZone: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * TimeZoneSelect Component
+ *
+ * Shows the selected zone's UTC offset today; schedules work out the offset for each date themselves.
+ *
+ * @param props - TimeZoneSelectProps object
+ */
+export const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({ id, value, onValueChange, disabled }) => {
+  const otherTimeZones = useMemo(
+    () => getAllTimeZones().filter(timeZone => !COMMON_TIME_ZONES.includes(timeZone)),
+    []
+  );
+
+  return (
+    <>
+      <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select timezone" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>Common</SelectLabel>
+            {COMMON_TIME_ZONES.map((timeZone) => (
+              <SelectItem key={timeZone} value={timeZone}>
+                {timeZoneLabel(timeZone)}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>All time zones</SelectLabel>
+            {otherTimeZones.map((timeZone) => (
+              <SelectItem key={timeZone} value={timeZone}>
+                {timeZone}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      {value && (
+        <p className="text-xs text-muted-foreground">
+          {value} is UTC{formatOffset(getTimeZoneOffset(new Date(), value))} today
+        </p>
+      )}
+    </>
+  );
+};
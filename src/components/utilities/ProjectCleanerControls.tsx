@@ -14,6 +14,7 @@ interface EmptyProject {
 
 interface ProjectCleanerControlsProps {
   projectCount: number;
+  scannedCount: number;
   emptyProjects: EmptyProject[];
   selectedProjects: Set<string>;
   isLoading: boolean;
@@ -31,6 +32,7 @@ interface ProjectCleanerControlsProps {
 
 export const ProjectCleanerControls: React.FC<ProjectCleanerControlsProps> = ({
   projectCount,
+  scannedCount,
   emptyProjects,
   selectedProjects,
   isLoading,
@@ -55,15 +57,14 @@ export const ProjectCleanerControls: React.FC<ProjectCleanerControlsProps> = ({
 
       <div className="flex gap-4 items-end">
         <div className="flex-1">
-          <Label htmlFor="projectCount">Count</Label>
+          <Label htmlFor="projectCount">Max Projects to Scan</Label>
           <Input
             id="projectCount"
             type="number"
-            min="1"
-            max="1000"
-            value={projectCount}
-            onChange={(e) => onProjectCountChange(parseInt(e.target.value) || 200)}
-            placeholder="Number of projects to fetch"
+            min="0"
+            value={projectCount || ''}
+            onChange={(e) => onProjectCountChange(parseInt(e.target.value) || 0)}
+            placeholder="All projects"
             disabled={isLoading || isDeleting}
           />
         </div>
@@ -71,7 +72,7 @@ export const ProjectCleanerControls: React.FC<ProjectCleanerControlsProps> = ({
           onClick={onFindEmptyProjects} 
           disabled={isLoading || isDeleting}
         >
-          {isLoading ? "Finding..." : "Find Empty Projects"}
+          {isLoading ? `Scanned ${scannedCount} projects...` : "Find Empty Projects"}
         </Button>
       </div>
 
@@ -0,0 +1,33 @@
+// Auto-Run Hook
+// Lets a wizard step start its main action by itself when the class definition runs every step.
+// The action runs on the render after the step is armed, so form state filled in from the
+// definition in the same effect pass is already applied when the action reads it.
+
+import * as React from "react";
+
+/**
+ * Call `run` once, after the first render where `enabled` is true; turning `enabled` off and
+ * on again, as a second run of all steps does on a step still on screen, calls it again
+ */
+export function useAutoRun(enabled: boolean, run: () => void) {
+  const [armed, setArmed] = React.useState(false);
+  const hasRun = React.useRef(false);
+  const runRef = React.useRef(run);
+  runRef.current = run;
+
+  React.useEffect(() => {
+    if (!enabled) {
+      hasRun.current = false;
+      return;
+    }
+    if (!hasRun.current) setArmed(true);
+  }, [enabled]);
+
+  React.useEffect(() => {
+    if (armed && !hasRun.current) {
+      hasRun.current = true;
+      setArmed(false);
+      runRef.current();
+    }
+  }, [armed]);
+}
@@ -0,0 +1,102 @@
+// Skytap Profile Hook
+// Tracks which credential profile (Skytap account) the app is talking to. The choice lives in
+// module state so skytapAPI and every mounted header agree, and is remembered in localStorage.
+
+import * as React from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { skytapAPI } from "@/lib/skytap-api";
+import { skytapKeys } from "@/hooks/use-skytap-queries";
+
+const STORAGE_KEY = "skytap.profile";
+const PROFILES_URL = "/__skytap/profiles";
+
+/**
+ * Profile as exposed by the proxy; credentials never leave the server
+ */
+export interface SkytapProfileSummary {
+  id: string;
+  label: string;
+  username: string;
+}
+
+interface ProfilesResponse {
+  defaultProfileId: string | null;
+  profiles: SkytapProfileSummary[];
+}
+
+const readStoredProfile = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+let activeProfileId: string | null = readStoredProfile();
+skytapAPI.setProfile(activeProfileId);
+
+const listeners = new Set<() => void>();
+
+function setActiveProfileId(profileId: string | null) {
+  activeProfileId = profileId;
+  skytapAPI.setProfile(profileId);
+  try {
+    if (profileId) {
+      localStorage.setItem(STORAGE_KEY, profileId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Private browsing can block storage; the choice still applies for this session
+  }
+  listeners.forEach(listener => listener());
+}
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const fetchProfiles = async (): Promise<ProfilesResponse> => {
+  const response = await fetch(PROFILES_URL, { headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`Failed to load Skytap profiles: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+function useSkytapProfile() {
+  const queryClient = useQueryClient();
+  const selectedId = React.useSyncExternalStore(subscribe, () => activeProfileId);
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["skytap-profiles"],
+    queryFn: fetchProfiles,
+    staleTime: Infinity,
+  });
+
+  const profiles = data?.profiles ?? [];
+  const activeProfile =
+    profiles.find(profile => profile.id === selectedId) ??
+    profiles.find(profile => profile.id === data?.defaultProfileId) ??
+    null;
+
+  // Forget a stored profile the proxy no longer knows about
+  React.useEffect(() => {
+    if (data && selectedId && !data.profiles.some(profile => profile.id === selectedId)) {
+      setActiveProfileId(null);
+    }
+  }, [data, selectedId]);
+
+  const selectProfile = React.useCallback((profileId: string) => {
+    if (profileId === activeProfileId) return;
+    setActiveProfileId(profileId);
+    // Cached responses belong to the previous account
+    queryClient.removeQueries({ queryKey: skytapKeys.all });
+  }, [queryClient]);
+
+  return { profiles, activeProfile, isLoading, error, selectProfile };
+}
+
+export { useSkytapProfile };
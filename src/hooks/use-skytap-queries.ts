@@ -0,0 +1,133 @@
+// Skytap Query Hooks
+// react-query wrappers around the SkytapAPI read methods. Pages share cache keys so looking up
+// the same project twice (or navigating back to a step) reuses the earlier response, and the
+// mutation hooks invalidate whatever they change.
+
+import { QueryClient, queryOptions, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BulkRunOptions } from "@/lib/bulk-runner";
+import { skytapAPI, SkytapConfiguration, SkytapPublishSetUpdate } from "@/lib/skytap-api";
+import { StepConfigurationLoaders } from "@/lib/training-scope";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * Hierarchical cache keys. Invalidating a prefix (e.g. a project) also
+ * invalidates everything nested under it (its configurations).
+ */
+export const skytapKeys = {
+  all: ['skytap'] as const,
+  projects: () => [...skytapKeys.all, 'projects'] as const,
+  project: (projectId: string) => [...skytapKeys.projects(), projectId] as const,
+  projectConfigurations: (projectId: string) => [...skytapKeys.project(projectId), 'configurations'] as const,
+  configurations: () => [...skytapKeys.all, 'configurations'] as const,
+  configuration: (configId: string) => [...skytapKeys.configurations(), configId] as const,
+  publishSets: (configId: string) => [...skytapKeys.configuration(configId), 'publish-sets'] as const,
+  schedules: () => [...skytapKeys.all, 'schedules'] as const,
+  ips: () => [...skytapKeys.all, 'ips'] as const,
+  ipsByRegion: (region: string) => [...skytapKeys.ips(), region] as const,
+  users: (count: number) => [...skytapKeys.all, 'users', count] as const,
+};
+
+/**
+ * Query definitions shared by the hooks below and by imperative
+ * `queryClient.fetchQuery` calls in click handlers
+ */
+export const skytapQueries = {
+  projectConfigurations: (projectId: string) => queryOptions({
+    queryKey: skytapKeys.projectConfigurations(projectId),
+    queryFn: ({ signal }) => skytapAPI.getProjectConfigurations(projectId, { signal }),
+    staleTime: 30 * SECOND,
+  }),
+  // Runstate and auto-suspend settings change often, so keep this short
+  configuration: (configId: string) => queryOptions({
+    queryKey: skytapKeys.configuration(configId),
+    queryFn: ({ signal }) => skytapAPI.getConfiguration(configId, { signal }),
+    staleTime: 10 * SECOND,
+  }),
+  publishSets: (configId: string) => queryOptions({
+    queryKey: skytapKeys.publishSets(configId),
+    queryFn: ({ signal }) => skytapAPI.getPublishSets(configId, { signal }),
+    staleTime: 30 * SECOND,
+  }),
+  // Skytap lists schedules account-wide; pages filter them by configuration
+  schedules: () => queryOptions({
+    queryKey: skytapKeys.schedules(),
+    queryFn: ({ signal }) => skytapAPI.getSchedules({ signal }),
+    staleTime: 30 * SECOND,
+  }),
+  ipAddresses: (region: string) => queryOptions({
+    queryKey: skytapKeys.ipsByRegion(region),
+    queryFn: ({ signal }) => skytapAPI.getIPAddressesByRegion(region, { signal }),
+    staleTime: 30 * SECOND,
+  }),
+  users: (count: number) => queryOptions({
+    queryKey: skytapKeys.users(count),
+    queryFn: ({ signal }) => skytapAPI.getAllUsers(count, { signal }),
+    staleTime: 5 * MINUTE,
+  }),
+};
+
+/**
+ * Loaders for loadStepConfigurations that read through the query cache
+ */
+export const cachedConfigurationLoaders = (queryClient: QueryClient, projectId: string): StepConfigurationLoaders<SkytapConfiguration> => ({
+  project: () => queryClient.fetchQuery(skytapQueries.projectConfigurations(projectId.trim())),
+  configuration: (configId) => queryClient.fetchQuery(skytapQueries.configuration(configId)),
+});
+
+export function useProjectConfigurations(projectId: string) {
+  return useQuery({ ...skytapQueries.projectConfigurations(projectId), enabled: !!projectId });
+}
+
+export function useConfiguration(configId: string) {
+  return useQuery({ ...skytapQueries.configuration(configId), enabled: !!configId });
+}
+
+export function usePublishSets(configId: string) {
+  return useQuery({ ...skytapQueries.publishSets(configId), enabled: !!configId });
+}
+
+export function useIPAddresses(region: string) {
+  return useQuery({ ...skytapQueries.ipAddresses(region), enabled: !!region });
+}
+
+export function useUsers(count: number) {
+  return useQuery(skytapQueries.users(count));
+}
+
+export function useDeleteProjects() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ projectIds, options }: { projectIds: string[]; options?: BulkRunOptions<string, void> }) =>
+      skytapAPI.deleteProjects(projectIds, options),
+    // Partial failures still delete some projects, so invalidate either way
+    onSettled: () => queryClient.invalidateQueries({ queryKey: skytapKeys.projects() }),
+  });
+}
+
+export function useReleaseIPAddresses() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ ipIds, options }: { ipIds: string[]; options?: BulkRunOptions<string, void> }) =>
+      skytapAPI.releaseIPAddresses(ipIds, options),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: skytapKeys.ips() }),
+  });
+}
+
+export function useReleaseIPAddress() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ipId: string) => skytapAPI.releaseIPAddress(ipId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: skytapKeys.ips() }),
+  });
+}
+
+export function useUpdatePublishSet() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ configId, publishSetId, payload }: { configId: string; publishSetId: string; payload: SkytapPublishSetUpdate }) =>
+      skytapAPI.updatePublishSet(configId, publishSetId, payload),
+    onSuccess: (_data, { configId }) => queryClient.invalidateQueries({ queryKey: skytapKeys.publishSets(configId) }),
+  });
+}
@@ -0,0 +1,134 @@
+// Bulk Runner Tests
+// Concurrency, failures, skips, timeouts, cancellation and pause/resume, driven by tasks the
+// tests settle by hand so nothing depends on timing beyond the timeout case
+
+import { describe, expect, it } from "vitest";
+import { BulkRunner, BulkTimeoutError, runBulk } from "./bulk-runner";
+
+interface Deferred {
+  promise: Promise<void>;
+  resolve: () => void;
+}
+
+const deferred = (): Deferred => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+// Let the runner's workers reach their next await
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("runBulk", () => {
+  it("never runs more items at once than the concurrency allows", async () => {
+    const gates = Array.from({ length: 5 }, deferred);
+    const started: number[] = [];
+    const run = runBulk([0, 1, 2, 3, 4], async (item) => {
+      started.push(item);
+      await gates[item].promise;
+      return item * 10;
+    }, { concurrency: 2 });
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+    gates[1].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+    gates.forEach(gate => gate.resolve());
+
+    const result = await run;
+    expect(result.succeeded.map(({ index, result }) => [index, result]).sort((a, b) => a[0] - b[0]))
+      .toEqual([[0, 0], [1, 10], [2, 20], [3, 30], [4, 40]]);
+    expect(result.cancelled).toBe(false);
+  });
+
+  it("reports failures and skips without stopping the other items", async () => {
+    const outcomes: string[] = [];
+    const progress: number[] = [];
+    const result = await runBulk(['a', 'b', 'c'], async (item) => {
+      if (item === 'b') throw new Error('b broke');
+      return item;
+    }, {
+      shouldSkip: item => (item === 'c' ? 'Already done' : null),
+      onItemComplete: outcome => outcomes.push(`${outcome.item}:${outcome.status}`),
+      onProgress: ({ percent }) => progress.push(Math.round(percent)),
+    });
+
+    expect(result.succeeded.map(({ item }) => item)).toEqual(['a']);
+    expect(result.failed.map(({ item, error }) => [item, error.message])).toEqual([['b', 'b broke']]);
+    expect(result.skipped).toEqual([{ item: 'c', index: 2, reason: 'Already done' }]);
+    expect(outcomes.sort()).toEqual(['a:succeeded', 'b:failed', 'c:skipped']);
+    expect(progress).toEqual([33, 67, 100]);
+  });
+
+  it("fails an item that runs past its timeout and aborts its signal", async () => {
+    let taskSignal: AbortSignal | undefined;
+    const result = await runBulk(['slow'], (_item, { signal }) => {
+      taskSignal = signal;
+      return new Promise<never>(() => {});
+    }, { itemTimeoutMs: 20 });
+
+    expect(result.failed[0].error).toBeInstanceOf(BulkTimeoutError);
+    expect(taskSignal?.aborted).toBe(true);
+  });
+
+  it("aborts items in flight and skips the ones not started when cancelled", async () => {
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+    const run = runBulk([1, 2, 3, 4], (_item, { signal }) => {
+      signals.push(signal);
+      return new Promise<void>((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+    }, { concurrency: 2, signal: controller.signal });
+
+    await flush();
+    controller.abort();
+    const result = await run;
+
+    expect(signals).toHaveLength(2);
+    expect(signals.every(signal => signal.aborted)).toBe(true);
+    expect(result.failed.map(({ item }) => item)).toEqual([1, 2]);
+    expect(result.skipped.map(({ item, reason }) => [item, reason])).toEqual([[3, 'Cancelled before start'], [4, 'Cancelled before start']]);
+    expect(result.cancelled).toBe(true);
+  });
+
+  it("reports a cancellation after every item has started, skipping the items it aborted", async () => {
+    const controller = new AbortController();
+    // Rejects the way fetch does when its signal aborts
+    const run = runBulk([1, 2, 3], (_item, { signal }) => new Promise<void>((_, reject) => {
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }), { concurrency: 3, signal: controller.signal });
+
+    await flush();
+    controller.abort();
+    const result = await run;
+
+    expect(result.cancelled).toBe(true);
+    expect(result.failed).toEqual([]);
+    expect(result.skipped.map(({ item, reason }) => [item, reason]))
+      .toEqual([[1, 'Cancelled while running'], [2, 'Cancelled while running'], [3, 'Cancelled while running']]);
+  });
+});
+
+describe("BulkRunner", () => {
+  it("holds back new items while paused and carries on after resume", async () => {
+    const gate = deferred();
+    const started: number[] = [];
+    const runner = new BulkRunner(async (item: number) => {
+      started.push(item);
+      if (item === 1) await gate.promise;
+    }, { concurrency: 1 });
+
+    const run = runner.run([1, 2, 3]);
+    await flush();
+    runner.pause();
+    gate.resolve();
+    await flush();
+    expect(runner.isPaused).toBe(true);
+    expect(started).toEqual([1]);
+
+    runner.resume();
+    const result = await run;
+    expect(started).toEqual([1, 2, 3]);
+    expect(result.succeeded).toHaveLength(3);
+  });
+});
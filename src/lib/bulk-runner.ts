@@ -0,0 +1,259 @@
+// Bulk Operation Runner
+// Runs an async task over many items with bounded concurrency, timeouts, cancellation and pause/resume
+
+/**
+ * Progress snapshot reported after every item settles
+ */
+export interface BulkProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  /** Completion percentage (0-100) */
+  percent: number;
+}
+
+/**
+ * Outcome of a single item, passed to onItemComplete
+ */
+export type BulkItemOutcome<T, R> =
+  | { status: 'succeeded'; item: T; index: number; result: R }
+  | { status: 'failed'; item: T; index: number; error: Error }
+  | { status: 'skipped'; item: T; index: number; reason: string };
+
+/**
+ * Uniform result returned by every bulk run
+ */
+export interface BulkRunResult<T, R> {
+  succeeded: { item: T; index: number; result: R }[];
+  failed: { item: T; index: number; error: Error }[];
+  skipped: { item: T; index: number; reason: string }[];
+  /** True when the run was aborted; items it stopped are reported as skipped */
+  cancelled: boolean;
+}
+
+/**
+ * Context handed to the worker for each item
+ */
+export interface BulkTaskContext {
+  /** Position of the item in the input array */
+  index: number;
+  /** Aborted when the run is cancelled or the item times out */
+  signal: AbortSignal;
+}
+
+export interface BulkRunOptions<T, R> {
+  /** Maximum number of items processed at the same time (default 4) */
+  concurrency?: number;
+  /** Fail an item if its task takes longer than this */
+  itemTimeoutMs?: number;
+  /** Minimum delay between starting two consecutive items, used to stagger load on a region */
+  startDelayMs?: number;
+  /** Cancels the run; items that have not started are reported as skipped */
+  signal?: AbortSignal;
+  /** Return a reason to skip an item without running the task */
+  shouldSkip?: (item: T, index: number) => string | null | undefined;
+  onProgress?: (progress: BulkProgress) => void;
+  onItemComplete?: (outcome: BulkItemOutcome<T, R>) => void;
+}
+
+export class BulkTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Operation timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'BulkTimeoutError';
+  }
+}
+
+export class BulkCancelledError extends Error {
+  constructor() {
+    super('Operation cancelled');
+    this.name = 'BulkCancelledError';
+  }
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const CANCELLED_REASON = 'Cancelled before start';
+const ABORTED_REASON = 'Cancelled while running';
+
+const toError = (error: unknown): Error =>
+  error instanceof Error ? error : new Error(String(error ?? 'Unknown error'));
+
+// fetch and most waits reject with a DOMException, which is not always an Error subclass
+const isAbortError = (error: unknown) =>
+  error instanceof BulkCancelledError || (error as { name?: string } | null)?.name === 'AbortError';
+
+/**
+ * Resolve after `ms`, or reject early when the signal aborts
+ */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new BulkCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new BulkCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Processes a list of items through an async task.
+ *
+ * A runner instance can be paused and resumed while `run` is in flight; pausing
+ * lets in-progress items finish but holds back new ones until `resume` is called.
+ */
+export class BulkRunner<T, R> {
+  private paused = false;
+  private resumeWaiters: (() => void)[] = [];
+
+  constructor(
+    private readonly task: (item: T, context: BulkTaskContext) => Promise<R>,
+    private readonly options: BulkRunOptions<T, R> = {}
+  ) {}
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  async run(items: T[]): Promise<BulkRunResult<T, R>> {
+    const { signal, itemTimeoutMs, startDelayMs = 0, shouldSkip, onProgress, onItemComplete } = this.options;
+    const concurrency = Math.max(1, this.options.concurrency ?? DEFAULT_CONCURRENCY);
+    const result: BulkRunResult<T, R> = { succeeded: [], failed: [], skipped: [], cancelled: false };
+    let nextIndex = 0;
+    let nextStartAt = 0;
+
+    const report = (outcome: BulkItemOutcome<T, R>) => {
+      if (outcome.status === 'succeeded') {
+        result.succeeded.push({ item: outcome.item, index: outcome.index, result: outcome.result });
+      } else if (outcome.status === 'failed') {
+        result.failed.push({ item: outcome.item, index: outcome.index, error: outcome.error });
+      } else {
+        result.skipped.push({ item: outcome.item, index: outcome.index, reason: outcome.reason });
+      }
+
+      onItemComplete?.(outcome);
+
+      const completed = result.succeeded.length + result.failed.length + result.skipped.length;
+      onProgress?.({
+        total: items.length,
+        completed,
+        succeeded: result.succeeded.length,
+        failed: result.failed.length,
+        skipped: result.skipped.length,
+        percent: items.length === 0 ? 100 : (completed / items.length) * 100,
+      });
+    };
+
+    const worker = async () => {
+      while (nextIndex < items.length) {
+        await this.waitWhilePaused(signal);
+        if (signal?.aborted) return;
+
+        // Claim the next item before any await so workers never share one
+        const index = nextIndex++;
+        const item = items[index];
+
+        const skipReason = shouldSkip?.(item, index);
+        if (skipReason) {
+          report({ status: 'skipped', item, index, reason: skipReason });
+          continue;
+        }
+
+        if (startDelayMs > 0) {
+          // Reserve a start slot so concurrent workers stay spaced out
+          const startAt = Math.max(Date.now(), nextStartAt);
+          nextStartAt = startAt + startDelayMs;
+          try {
+            await wait(startAt - Date.now(), signal);
+          } catch {
+            report({ status: 'skipped', item, index, reason: CANCELLED_REASON });
+            return;
+          }
+        }
+
+        try {
+          const value = await this.runItem(item, index, itemTimeoutMs, signal);
+          report({ status: 'succeeded', item, index, result: value });
+        } catch (error) {
+          if (signal?.aborted && isAbortError(error)) {
+            report({ status: 'skipped', item, index, reason: ABORTED_REASON });
+          } else {
+            report({ status: 'failed', item, index, error: toError(error) });
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+
+    // Anything never claimed was left behind by a cancellation
+    if (signal?.aborted) {
+      result.cancelled = true;
+      for (let index = nextIndex; index < items.length; index++) {
+        report({ status: 'skipped', item: items[index], index, reason: CANCELLED_REASON });
+      }
+    }
+
+    return result;
+  }
+
+  private async runItem(item: T, index: number, timeoutMs: number | undefined, signal?: AbortSignal): Promise<R> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = timeoutMs
+      ? new Promise<never>((_, reject) => {
+          timer = setTimeout(() => {
+            controller.abort();
+            reject(new BulkTimeoutError(timeoutMs));
+          }, timeoutMs);
+        })
+      : null;
+
+    try {
+      const task = this.task(item, { index, signal: controller.signal });
+      return await (timeout ? Promise.race([task, timeout]) : task);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+
+  private async waitWhilePaused(signal?: AbortSignal) {
+    while (this.paused && !signal?.aborted) {
+      await new Promise<void>(resolve => {
+        this.resumeWaiters.push(resolve);
+        signal?.addEventListener('abort', () => resolve(), { once: true });
+      });
+    }
+  }
+}
+
+/**
+ * Convenience wrapper for runs that never need pause/resume
+ */
+export const runBulk = <T, R>(
+  items: T[],
+  task: (item: T, context: BulkTaskContext) => Promise<R>,
+  options: BulkRunOptions<T, R> = {}
+): Promise<BulkRunResult<T, R>> => new BulkRunner(task, options).run(items);
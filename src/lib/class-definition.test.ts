@@ -0,0 +1,113 @@
+// Class Definition Tests
+// Reading class files as JSON or YAML, the problems reported for invalid ones, and converting the
+// schedule's day plans to and from the wizard's timeline
+
+import { describe, expect, it } from "vitest";
+import {
+  ClassDayPlan,
+  ClassDefinitionError,
+  fromDayPlans,
+  parseClassDefinition,
+  serializeClassDefinition,
+  toDayPlans,
+  validateClassDefinition,
+} from "./class-definition";
+
+const DEFINITION = {
+  version: 1,
+  name: 'Spring Workshop',
+  projectId: 1001,
+  copy: { masterEnvironmentId: '2001', copies: 2, namePrefix: 'Spring', roster: ['Ada Lovelace', 'Grace Hopper, grace@example.com'] },
+  schedule: {
+    title: 'Spring Workshop hours',
+    timeZone: 'Eastern Time (US & Canada)',
+    startDate: '2026-03-09',
+    endDate: '2026-03-13',
+    endTime: '17:00',
+    days: [
+      { days: ['monday', 'tuesday', 'wednesday', 'thursday'], actions: [{ type: 'run', time: '08:30' }, { type: 'suspend', time: '17:30' }] },
+      { days: ['friday'], actions: [{ type: 'run', time: '08:30' }, { type: 'shutdown', time: '12:00' }] },
+    ],
+  },
+  power: { idleAction: 'suspend', idleMinutes: 60 },
+  portals: { type: 'single_url', classHoursOnly: true },
+};
+
+const issuesFor = (data: unknown): string[] => {
+  try {
+    validateClassDefinition(data);
+  } catch (error) {
+    if (error instanceof ClassDefinitionError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe("validateClassDefinition", () => {
+  it("accepts a complete definition and turns ids into strings", () => {
+    const definition = validateClassDefinition(DEFINITION);
+    expect(definition.projectId).toBe('1001');
+    expect(definition.copy.masterEnvironmentId).toBe('2001');
+    expect(definition.schedule?.days).toHaveLength(2);
+  });
+
+  it("reports each problem with its path", () => {
+    expect(issuesFor({ ...DEFINITION, version: 2, copy: { ...DEFINITION.copy, copies: 3 }, extra: true })).toEqual([
+      expect.stringMatching(/^version: /),
+      'copy.copies: The roster has 2 attendee(s); copies must match',
+      expect.stringMatching(/^\(root\): Unrecognized key\(s\) in object: 'extra'/),
+    ]);
+  });
+
+  it("checks dates, times, zones and the day plans of the schedule", () => {
+    const schedule = {
+      ...DEFINITION.schedule,
+      timeZone: 'Atlantis/Capital',
+      startDate: '2026-03-13',
+      endDate: '2026-03-09',
+      endTime: '5pm',
+    };
+    expect(issuesFor({ ...DEFINITION, schedule })).toEqual([
+      'schedule.timeZone: Unknown time zone',
+      'schedule.endTime: Use a 24-hour "HH:mm" time',
+      'schedule.endDate: Must not be before startDate',
+    ]);
+
+    const overlapping = [DEFINITION.schedule.days[0], { ...DEFINITION.schedule.days[1], days: ['thursday', 'friday'] }];
+    expect(issuesFor({ ...DEFINITION, schedule: { ...DEFINITION.schedule, days: overlapping } }))
+      .toEqual(['schedule.days: Thursday is in more than one day plan']);
+  });
+
+  it("needs idle minutes unless idle suspend is off", () => {
+    expect(issuesFor({ ...DEFINITION, power: { idleAction: 'shutdown' } }))
+      .toEqual(['power.idleMinutes: Required when idleAction is "shutdown"']);
+    expect(issuesFor({ ...DEFINITION, power: { idleAction: 'off' } })).toEqual([]);
+  });
+
+  it("summarises the first three problems in the message", () => {
+    const error = new ClassDefinitionError(['a: 1', 'b: 2', 'c: 3', 'd: 4', 'e: 5']);
+    expect(error.message).toBe('Invalid class definition: a: 1; b: 2; c: 3 (+2 more)');
+  });
+});
+
+describe("parseClassDefinition", () => {
+  it.each(['json', 'yaml'] as const)("reads back a definition serialized as %s", (format) => {
+    const definition = validateClassDefinition(DEFINITION);
+    expect(parseClassDefinition(serializeClassDefinition(definition, format))).toEqual(definition);
+  });
+
+  it("reports text that is neither JSON nor YAML", () => {
+    expect(() => parseClassDefinition('version: 1\n  copy: [')).toThrow(ClassDefinitionError);
+    expect(() => parseClassDefinition('version: 1\n  copy: [')).toThrow(/\(root\): Not valid JSON or YAML/);
+  });
+});
+
+describe("day plans", () => {
+  it("converts to the wizard's timeline and back", () => {
+    const plans = toDayPlans(DEFINITION.schedule.days as ClassDayPlan[]);
+    expect(plans[1].days).toEqual({
+      monday: false, tuesday: false, wednesday: false, thursday: false, friday: true, saturday: false, sunday: false,
+    });
+    expect(fromDayPlans(plans)).toEqual(DEFINITION.schedule.days);
+  });
+});
@@ -0,0 +1,162 @@
+// Class Definitions
+// Everything the training wizard asks for, in one JSON or YAML file that can be kept in git:
+// the project, how to copy the master, the class schedule, the power policy and the portals.
+// Files are validated with zod so a typo fails on import instead of halfway through a class.
+
+import { z } from "zod";
+import { parse, stringify } from "yaml";
+import { DayPlan, SCHEDULE_ACTION_TYPES, WEEK_DAYS, noDays, selectedDays, validateDayPlans } from "./schedule-timeline";
+import { IDLE_ACTIONS, MAX_IDLE_MINUTES, MIN_IDLE_MINUTES } from "./suspend-policy";
+import { isKnownTimeZone } from "./time-zones";
+
+export const CLASS_DEFINITION_VERSION = 1;
+
+export type ClassDefinitionFormat = 'json' | 'yaml';
+
+/**
+ * A class definition file that could not be read, with one entry per problem
+ */
+export class ClassDefinitionError extends Error {
+  /** Formatted as "path: problem" */
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid class definition: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (+${issues.length - 3} more)` : ''}`);
+    this.name = 'ClassDefinitionError';
+    this.issues = issues;
+  }
+}
+
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use a "yyyy-MM-dd" date');
+const time = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use a 24-hour "HH:mm" time');
+const timeZone = z.string().min(1).refine(isKnownTimeZone, 'Unknown time zone');
+const keysOf = <T extends Record<string, unknown>>(record: T) => Object.keys(record) as [keyof T & string, ...(keyof T & string)[]];
+
+// The schemas are the source of truth for the file format; the types below are inferred from them
+
+/** Days that share a timeline, e.g. Monday to Thursday, then a shorter Friday */
+const dayPlanSchema = z.object({
+  days: z.array(z.enum(WEEK_DAYS)).min(1),
+  actions: z.array(z.object({ type: z.enum(keysOf(SCHEDULE_ACTION_TYPES)), time }).strict()).min(1),
+}).strict();
+
+const copySchema = z.object({
+  masterEnvironmentId: z.union([z.string().min(1), z.number()]).transform(String),
+  copies: z.number().int().min(1),
+  namePrefix: z.string(),
+  namingTemplate: z.string().min(1).optional(),
+  /** Seat number of the first copy */
+  startIndex: z.number().int().min(0).optional(),
+  /** One attendee per copy, in seat order, as roster lines: "Jane Doe" or "Jane Doe, jane@example.com" */
+  roster: z.array(z.string().min(1)).min(1).optional(),
+  /** Continue numbering after the seats already in the project */
+  addSeats: z.boolean().optional(),
+  concurrency: z.number().int().min(1).max(10).optional(),
+}).strict().superRefine((copy, ctx) => {
+  if (copy.roster && copy.roster.length !== copy.copies) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['copies'], message: `The roster has ${copy.roster.length} attendee(s); copies must match` });
+  }
+});
+
+const scheduleSchema = z.object({
+  title: z.string().min(1),
+  /** IANA zone, or one of the Rails names Skytap uses */
+  timeZone,
+  /** "yyyy-MM-dd" */
+  startDate: date,
+  endDate: date,
+  /** "HH:mm" the schedules end on the last day */
+  endTime: time,
+  staggerMinutes: z.number().int().min(1).optional(),
+  days: z.array(dayPlanSchema).min(1),
+  deleteAtEnd: z.boolean().optional(),
+  notifyUser: z.boolean().optional(),
+}).strict().superRefine((schedule, ctx) => {
+  if (schedule.endDate < schedule.startDate) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['endDate'], message: 'Must not be before startDate' });
+  }
+  const timelineError = validateDayPlans(toDayPlans(schedule.days));
+  if (timelineError) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['days'], message: timelineError });
+  }
+});
+
+const powerSchema = z.object({
+  idleAction: z.enum(keysOf(IDLE_ACTIONS)),
+  idleMinutes: z.number().int().min(MIN_IDLE_MINUTES).max(MAX_IDLE_MINUTES).optional(),
+  /** Shut every environment down at this time, regardless of activity */
+  shutdownAt: z.object({ date, time, timeZone }).strict().optional(),
+}).strict().superRefine((power, ctx) => {
+  if (power.idleAction !== 'off' && power.idleMinutes === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['idleMinutes'], message: `Required when idleAction is "${power.idleAction}"` });
+  }
+});
+
+const portalsSchema = z.object({
+  type: z.enum(['single_url', 'multiple_url']).optional(),
+  vmAccess: z.enum(['use', 'run_and_use', 'view_only']).optional(),
+  runtimeLimitHours: z.number().positive().optional(),
+  password: z.string().optional(),
+  /** Only allow access during the scheduled class hours */
+  classHoursOnly: z.boolean().optional(),
+  skipExisting: z.boolean().optional(),
+}).strict();
+
+/**
+ * A class setup. Steps without a section keep the wizard's defaults; a run of all steps skips
+ * the schedule and portal steps when their sections are missing.
+ */
+export const classDefinitionSchema = z.object({
+  version: z.literal(CLASS_DEFINITION_VERSION),
+  name: z.string().optional(),
+  projectId: z.union([z.string().min(1), z.number()]).transform(String),
+  copy: copySchema,
+  schedule: scheduleSchema.optional(),
+  power: powerSchema.optional(),
+  portals: portalsSchema.optional(),
+}).strict();
+
+export type ClassDefinition = z.infer<typeof classDefinitionSchema>;
+export type ClassCopySettings = z.infer<typeof copySchema>;
+export type ClassScheduleSettings = z.infer<typeof scheduleSchema>;
+export type ClassDayPlan = z.infer<typeof dayPlanSchema>;
+export type ClassPowerSettings = z.infer<typeof powerSchema>;
+export type ClassPortalSettings = z.infer<typeof portalsSchema>;
+
+/**
+ * Check a parsed file, or a definition built from the wizard, against the schema
+ */
+export const validateClassDefinition = (data: unknown): ClassDefinition => {
+  const result = classDefinitionSchema.safeParse(data);
+  if (!result.success) {
+    throw new ClassDefinitionError(result.error.issues.map(issue =>
+      `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    ));
+  }
+  return result.data;
+};
+
+/**
+ * Read a class definition from JSON or YAML text (JSON is valid YAML, so one parser reads both)
+ */
+export const parseClassDefinition = (text: string): ClassDefinition => {
+  let data: unknown;
+  try {
+    data = parse(text);
+  } catch (error) {
+    throw new ClassDefinitionError([`(root): Not valid JSON or YAML (${error instanceof Error ? error.message.split('\n')[0] : error})`]);
+  }
+  return validateClassDefinition(data);
+};
+
+export const serializeClassDefinition = (definition: ClassDefinition, format: ClassDefinitionFormat): string =>
+  format === 'yaml' ? stringify(definition) : `${JSON.stringify(definition, null, 2)}\n`;
+
+export const toDayPlans = (days: ClassDayPlan[]): DayPlan[] =>
+  days.map(plan => ({
+    days: { ...noDays(), ...Object.fromEntries(plan.days.map(day => [day, true])) },
+    actions: plan.actions.map(({ type, time }) => ({ type, time })),
+  }));
+
+export const fromDayPlans = (plans: DayPlan[]): ClassDayPlan[] =>
+  plans.map(plan => ({ days: selectedDays(plan), actions: plan.actions.map(action => ({ ...action })) }));
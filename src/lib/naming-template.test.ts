@@ -0,0 +1,57 @@
+// Naming Template Tests
+// Rendering copy names, validating templates before any copies are made, and finding the last seat
+// number among existing copies
+
+import { describe, expect, it } from "vitest";
+import { DEFAULT_NAMING_TEMPLATE, findHighestIndex, renderName, validateNamingTemplate } from "./naming-template";
+
+const context = { prefix: 'Spring Workshop', index: 7, date: new Date(2026, 2, 9), student: 'Ada Lovelace', region: 'US-West' };
+
+describe("renderName", () => {
+  it("fills in every token, padding the index and formatting the date as asked", () => {
+    expect(renderName(DEFAULT_NAMING_TEMPLATE, context)).toBe('Spring Workshop - 07');
+    expect(renderName('{prefix} {index} {index:03}', context)).toBe('Spring Workshop 7 007');
+    expect(renderName('{student} ({date:MMM d}) {region}', context)).toBe('Ada Lovelace (Mar 9) US-West');
+    expect(renderName('{prefix}-{date}', context)).toBe('Spring Workshop-2026-03-09');
+  });
+
+  it("leaves unknown tokens as written and trims the result", () => {
+    expect(renderName('  {prefix} {seat} ', context)).toBe('Spring Workshop {seat}');
+    expect(renderName('{student} - {index}', { ...context, student: undefined })).toBe('- 7');
+  });
+});
+
+describe("validateNamingTemplate", () => {
+  it("accepts templates that give every copy a unique name", () => {
+    expect(validateNamingTemplate(DEFAULT_NAMING_TEMPLATE, { hasRoster: false })).toBeNull();
+    expect(validateNamingTemplate('{student} ({date:yyyyMMdd})', { hasRoster: true })).toBeNull();
+  });
+
+  it.each([
+    { template: '  ', hasRoster: false, message: 'Name template is required' },
+    { template: '{prefix} {seat}', hasRoster: false, message: 'Unknown token {seat}. Available tokens: {prefix}, {index}, {date}, {student}, {region}' },
+    { template: '{index:x}', hasRoster: false, message: '{index:x} needs a digit count, e.g. {index:03}' },
+    { template: '{index} {date:fff}', hasRoster: false, message: '{date:fff} is not a valid date format' },
+    { template: '{student}', hasRoster: false, message: '{student} needs a student roster' },
+    { template: '{prefix} {date}', hasRoster: true, message: 'Name template must include {index} or {student} so every copy gets a unique name' },
+  ])("returns $message for $template", ({ template, hasRoster, message }) => {
+    expect(validateNamingTemplate(template, { hasRoster })).toBe(message);
+  });
+});
+
+describe("findHighestIndex", () => {
+  it("reads the seat number from names that follow the template and ignores the rest", () => {
+    const names = ['Spring Workshop - 01', 'Spring Workshop - 12', 'Spring Workshop - 03', 'Autumn Workshop - 40', 'Training Master'];
+    expect(findHighestIndex(DEFAULT_NAMING_TEMPLATE, 'Spring Workshop', names)).toBe(12);
+  });
+
+  it("lets the other tokens match anything and escapes the prefix", () => {
+    const names = ['Lab (v2) 5 - Ada Lovelace', 'Lab (v2) 9 - Grace Hopper', 'Lab v2 30 - Alan Turing'];
+    expect(findHighestIndex('{prefix} {index} - {student}', 'Lab (v2)', names)).toBe(9);
+  });
+
+  it("returns 0 when nothing matches or the template has no index", () => {
+    expect(findHighestIndex(DEFAULT_NAMING_TEMPLATE, 'Spring Workshop', [])).toBe(0);
+    expect(findHighestIndex('{student}', 'Spring Workshop', ['Ada Lovelace'])).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+// Copy Naming Templates
+// Renders environment names such as "{prefix} - {index:02}" or "{student} ({date:MMM d})" for
+// each copy in a training class
+
+import { format } from "date-fns";
+
+export const DEFAULT_NAMING_TEMPLATE = '{prefix} - {index:02}';
+
+/**
+ * Tokens a template may use, with the help text shown next to the template field
+ */
+export const NAMING_TOKENS = {
+  prefix: 'Name prefix',
+  index: 'Seat number; {index:03} pads to 3 digits',
+  date: 'Start date; {date:yyyyMMdd} sets the format (default yyyy-MM-dd)',
+  student: 'Attendee from the roster',
+  region: 'Region of the master environment',
+} as const;
+
+export type NamingToken = keyof typeof NAMING_TOKENS;
+
+export interface NamingContext {
+  prefix: string;
+  /** Seat number as shown to people, i.e. already offset by the start index */
+  index: number;
+  date: Date;
+  student?: string;
+  region?: string;
+}
+
+const TOKEN_PATTERN = /\{(\w+)(?::([^}]*))?\}/g;
+const DEFAULT_DATE_FORMAT = 'yyyy-MM-dd';
+
+const isNamingToken = (token: string): token is NamingToken =>
+  Object.prototype.hasOwnProperty.call(NAMING_TOKENS, token);
+
+export const templateUsesToken = (template: string, token: NamingToken) =>
+  Array.from(template.matchAll(TOKEN_PATTERN)).some(([, name]) => name === token);
+
+/**
+ * Fill in a template for one copy. Unknown tokens are left as written; call
+ * validateNamingTemplate first to reject them.
+ */
+export function renderName(template: string, context: NamingContext): string {
+  return template
+    .replace(TOKEN_PATTERN, (match, token: string, arg: string | undefined) => {
+      switch (token) {
+        case 'prefix':
+          return context.prefix;
+        case 'index':
+          return arg ? String(context.index).padStart(Number(arg), '0') : String(context.index);
+        case 'date':
+          return format(context.date, arg || DEFAULT_DATE_FORMAT);
+        case 'student':
+          return context.student ?? '';
+        case 'region':
+          return context.region ?? '';
+        default:
+          return match;
+      }
+    })
+    .trim();
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Highest seat number among existing environment names that follow the template, or 0 when none
+ * do. {date}, {student} and {region} match anything, so {prefix} and the literal text are what tie
+ * a name to the class.
+ */
+export function findHighestIndex(template: string, prefix: string, names: string[]): number {
+  if (!templateUsesToken(template, 'index')) return 0;
+
+  let pattern = '';
+  let lastEnd = 0;
+  let indexCaptured = false;
+  const trimmed = template.trim();
+  for (const match of trimmed.matchAll(TOKEN_PATTERN)) {
+    pattern += escapeRegExp(trimmed.slice(lastEnd, match.index));
+    lastEnd = match.index + match[0].length;
+    switch (match[1]) {
+      case 'prefix':
+        pattern += escapeRegExp(prefix);
+        break;
+      case 'index':
+        pattern += indexCaptured ? '\\d+' : '(\\d+)';
+        indexCaptured = true;
+        break;
+      default:
+        pattern += '.*?';
+    }
+  }
+  pattern += escapeRegExp(trimmed.slice(lastEnd));
+
+  const matcher = new RegExp(`^${pattern}$`);
+  return names.reduce((highest, name) => {
+    const seat = matcher.exec(name.trim())?.[1];
+    return seat ? Math.max(highest, Number(seat)) : highest;
+  }, 0);
+}
+
+/**
+ * Check a template before any copies are made. Returns a message describing the first problem, or null.
+ */
+export function validateNamingTemplate(template: string, options: { hasRoster: boolean }): string | null {
+  if (!template.trim()) return 'Name template is required';
+
+  const tokens = Array.from(template.matchAll(TOKEN_PATTERN));
+  for (const [match, token, arg] of tokens) {
+    if (!isNamingToken(token)) {
+      return `Unknown token ${match}. Available tokens: ${Object.keys(NAMING_TOKENS).map(name => `{${name}}`).join(', ')}`;
+    }
+    if (token === 'index' && arg !== undefined && !/^\d{1,2}$/.test(arg)) {
+      return `${match} needs a digit count, e.g. {index:03}`;
+    }
+    if (token === 'date' && arg !== undefined) {
+      try {
+        format(new Date(), arg);
+      } catch {
+        return `${match} is not a valid date format`;
+      }
+    }
+    if (token === 'student' && !options.hasRoster) {
+      return '{student} needs a student roster';
+    }
+  }
+
+  // Without a seat number or student every copy would get the same name
+  if (!templateUsesToken(template, 'index') && !templateUsesToken(template, 'student')) {
+    return 'Name template must include {index} or {student} so every copy gets a unique name';
+  }
+  return null;
+}
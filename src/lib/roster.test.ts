@@ -0,0 +1,53 @@
+// Roster Tests
+// Parsing pasted rosters with and without a header row, and writing entries back as roster lines
+
+import { describe, expect, it } from "vitest";
+import { formatRosterLine, parseRoster } from "./roster";
+
+describe("parseRoster", () => {
+  it("reads plain lines, picking the email from whichever cell has an @", () => {
+    expect(parseRoster('Ada Lovelace\n\n  Grace Hopper, Navy, grace@example.com \r\nAlan Turing\tturing@example.com')).toEqual([
+      { name: 'Ada Lovelace', email: undefined },
+      { name: 'Grace Hopper', email: 'grace@example.com' },
+      { name: 'Alan Turing', email: 'turing@example.com' },
+    ]);
+  });
+
+  it("uses a header row to find the name and email columns", () => {
+    expect(parseRoster('Email,Student Name\nada@example.com,Ada Lovelace\n,Grace Hopper')).toEqual([
+      { name: 'Ada Lovelace', email: 'ada@example.com' },
+      { name: 'Grace Hopper', email: undefined },
+    ]);
+  });
+
+  it("joins first and last name columns and drops rows without a name", () => {
+    expect(parseRoster('First Name,Last Name\nAda,Lovelace\nGrace,\n,')).toEqual([
+      { name: 'Ada Lovelace', email: undefined },
+      { name: 'Grace', email: undefined },
+    ]);
+  });
+
+  it("keeps commas and quotes inside quoted fields", () => {
+    expect(parseRoster('"Lovelace, Ada",ada@example.com\n"The ""Admiral"" Hopper"')).toEqual([
+      { name: 'Lovelace, Ada', email: 'ada@example.com' },
+      { name: 'The "Admiral" Hopper', email: undefined },
+    ]);
+  });
+
+  it("returns no entries for blank text", () => {
+    expect(parseRoster(' \n\n ')).toEqual([]);
+  });
+});
+
+describe("formatRosterLine", () => {
+  it("writes lines that parseRoster reads back", () => {
+    const entries = [
+      { name: 'Lovelace, Ada', email: 'ada@example.com' },
+      { name: 'The "Admiral" Hopper' },
+      { name: 'Alan Turing', email: 'turing@example.com' },
+    ];
+    const lines = entries.map(formatRosterLine);
+    expect(lines[1]).toBe('"The ""Admiral"" Hopper"');
+    expect(parseRoster(lines.join('\n'))).toEqual(entries.map(({ name, email }) => ({ name, email })));
+  });
+});
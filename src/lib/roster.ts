@@ -0,0 +1,87 @@
+// Student Roster
+// Parses a class roster pasted as plain lines or CSV (optionally with a header row) into attendees
+
+export interface RosterEntry {
+  name: string;
+  email?: string;
+}
+
+const NAME_HEADERS = ['name', 'student', 'student name', 'attendee', 'full name'];
+const FIRST_NAME_HEADERS = ['first name', 'firstname', 'first', 'given name'];
+const LAST_NAME_HEADERS = ['last name', 'lastname', 'last', 'surname', 'family name'];
+const EMAIL_HEADERS = ['email', 'e-mail', 'email address'];
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("Doe, Jane")
+ */
+const splitCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === '\t') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const findColumn = (header: string[], names: string[]) =>
+  header.findIndex(cell => names.includes(cell.toLowerCase()));
+
+/**
+ * Parse a roster. Without a header the first column is the name and any cell containing "@"
+ * is the email. A header row may name the columns (name/student, first/last name, email).
+ */
+export function parseRoster(text: string): RosterEntry[] {
+  const rows = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(splitCsvLine);
+  if (rows.length === 0) return [];
+
+  const header = rows[0];
+  const nameColumn = findColumn(header, NAME_HEADERS);
+  const firstColumn = findColumn(header, FIRST_NAME_HEADERS);
+  const lastColumn = findColumn(header, LAST_NAME_HEADERS);
+  const emailColumn = findColumn(header, EMAIL_HEADERS);
+  const hasHeader = [nameColumn, firstColumn, lastColumn, emailColumn].some(column => column >= 0);
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((row): RosterEntry => {
+      if (!hasHeader) {
+        return { name: row[0], email: row.slice(1).find(cell => cell.includes('@')) };
+      }
+      const name = nameColumn >= 0
+        ? row[nameColumn]
+        : [row[firstColumn], row[lastColumn]].filter(Boolean).join(' ');
+      return { name: name ?? '', email: emailColumn >= 0 ? row[emailColumn] || undefined : undefined };
+    })
+    .filter(entry => entry.name);
+}
+
+/**
+ * One attendee as a roster line that parseRoster reads back, quoting names with commas
+ */
+export const formatRosterLine = (entry: RosterEntry): string => {
+  const name = /[",\t]/.test(entry.name) ? `"${entry.name.replace(/"/g, '""')}"` : entry.name;
+  return entry.email ? `${name}, ${entry.email}` : name;
+};
@@ -0,0 +1,122 @@
+// Schedule Timeline Tests
+// Day plans turned into Skytap actions and per-environment schedules: offsets, validation,
+// first class dates, staggering, and first runs on either side of a DST change
+
+import { describe, expect, it } from "vitest";
+import {
+  DayPlan,
+  ScheduleSettings,
+  WeekDay,
+  firstClassDate,
+  planSchedules,
+  simpleDayPlan,
+  timelineToActions,
+  validateDayPlans,
+} from "./schedule-timeline";
+
+const SEATS = [
+  { id: '2002', name: 'Seat 1' },
+  { id: '2003', name: 'Seat 2' },
+];
+
+const settings = (overrides: Partial<ScheduleSettings> = {}): ScheduleSettings => ({
+  timeZone: 'America/New_York',
+  startDate: '2026-03-06',
+  endDate: '2026-03-13',
+  endTime: '17:00',
+  staggerMinutes: 0,
+  title: 'Class',
+  dayPlans: [simpleDayPlan('09:00', 8, { monday: true })],
+  ...overrides,
+});
+
+describe("timelineToActions", () => {
+  it("gives each action as seconds after the first", () => {
+    expect(timelineToActions([
+      { type: 'run', time: '09:00' },
+      { type: 'suspend', time: '12:00' },
+      { type: 'run', time: '13:00' },
+      { type: 'shutdown', time: '17:30' },
+    ])).toEqual([
+      { type: 'run', offset: 0 },
+      { type: 'suspend', offset: 3 * 3600 },
+      { type: 'run', offset: 4 * 3600 },
+      { type: 'shutdown', offset: 8.5 * 3600 },
+    ]);
+  });
+});
+
+describe("validateDayPlans", () => {
+  const plan = (days: Partial<Record<WeekDay, boolean>>, actions: DayPlan['actions']): DayPlan =>
+    ({ ...simpleDayPlan('09:00', 8, days), actions });
+
+  it.each([
+    { case: 'no days', plans: [plan({}, [{ type: 'run', time: '09:00' }])], message: 'The timeline needs at least one recurring day' },
+    { case: 'no actions', plans: [plan({ monday: true }, [])], message: 'The timeline needs at least one action' },
+    { case: 'not starting with run', plans: [plan({ monday: true }, [{ type: 'suspend', time: '09:00' }])], message: 'The timeline must start with a Run action' },
+    { case: 'a missing time', plans: [plan({ monday: true }, [{ type: 'run', time: '09:00' }, { type: 'suspend', time: '' }])], message: 'The timeline has an action without a time' },
+    { case: 'out of order times', plans: [plan({ monday: true }, [{ type: 'run', time: '09:00' }, { type: 'suspend', time: '09:00' }])], message: 'The timeline: each action must be later in the day than the one before' },
+    {
+      case: 'a day in two plans',
+      plans: [simpleDayPlan('09:00', 8, { monday: true }), simpleDayPlan('10:00', 6, { monday: true })],
+      message: 'Monday is in more than one day plan',
+    },
+    { case: 'a second plan without days', plans: [simpleDayPlan('09:00', 8, { monday: true }), simpleDayPlan()], message: 'Day plan 2 needs at least one recurring day' },
+  ])("rejects $case", ({ plans, message }) => {
+    expect(validateDayPlans(plans)).toBe(message);
+  });
+
+  it("accepts plans on separate days", () => {
+    expect(validateDayPlans([simpleDayPlan('09:00', 8, { monday: true }), simpleDayPlan('10:00', 6, { friday: true })])).toBeNull();
+  });
+});
+
+describe("firstClassDate", () => {
+  it("finds the first date in the range on one of the plan's days", () => {
+    // 2026-03-06 is a Friday
+    expect(firstClassDate(simpleDayPlan('09:00', 8, { friday: true }), '2026-03-06', '2026-03-13')).toBe('2026-03-06');
+    expect(firstClassDate(simpleDayPlan('09:00', 8, { monday: true, wednesday: true }), '2026-03-06', '2026-03-13')).toBe('2026-03-09');
+    expect(firstClassDate(simpleDayPlan('09:00', 8, { sunday: true }), '2026-03-06', '2026-03-08')).toBe('2026-03-08');
+  });
+
+  it("returns null when none of the plan's days fall in the range", () => {
+    expect(firstClassDate(simpleDayPlan('09:00', 8, { monday: true }), '2026-03-10', '2026-03-15')).toBeNull();
+  });
+});
+
+describe("planSchedules", () => {
+  it("staggers each environment's start after the seats scheduled earlier", () => {
+    const plan = planSchedules(SEATS, settings({ staggerMinutes: 15 }), 2);
+
+    expect(plan.map(({ configurationId, title, days, recurringDays }) => ({ configurationId, title, days, recurringDays }))).toEqual([
+      { configurationId: '2002', title: 'Class - Seat 1', days: 'Mon', recurringDays: ['MONDAY'] },
+      { configurationId: '2003', title: 'Class - Seat 2', days: 'Mon', recurringDays: ['MONDAY'] },
+    ]);
+    expect(plan.map(({ timeline }) => timeline)).toEqual([['Run 09:30', 'Suspend 17:30'], ['Run 09:45', 'Suspend 17:45']]);
+    expect(plan.map(({ firstRun }) => firstRun.toISOString())).toEqual(['2026-03-09T13:30:00.000Z', '2026-03-09T13:45:00.000Z']);
+    // Offsets stay relative to the first action, so the stagger only moves the start
+    expect(plan[1].actions).toEqual([{ type: 'run', offset: 0 }, { type: 'suspend', offset: 8 * 3600 }]);
+  });
+
+  it("makes one schedule per day plan, named by its days", () => {
+    const plan = planSchedules(SEATS.slice(0, 1), settings({
+      dayPlans: [simpleDayPlan('09:00', 8, { monday: true, wednesday: true }), simpleDayPlan('10:00', 4, { friday: true })],
+    }), 0);
+
+    expect(plan.map(({ title, recurringDays }) => [title, recurringDays])).toEqual([
+      ['Class - Seat 1 (Mon, Wed)', ['MONDAY', 'WEDNESDAY']],
+      ['Class - Seat 1 (Fri)', ['FRIDAY']],
+    ]);
+  });
+
+  it("places first runs and the end in the class time zone across a DST change", () => {
+    // New York springs forward on 2026-03-08: Friday the 6th is on EST, Monday the 9th on EDT
+    const [monday, friday] = planSchedules(SEATS.slice(0, 1), settings({
+      dayPlans: [simpleDayPlan('09:00', 8, { monday: true }), simpleDayPlan('09:00', 8, { friday: true })],
+    }), 0);
+
+    expect(monday.firstRun.toISOString()).toBe('2026-03-09T13:00:00.000Z');
+    expect(friday.firstRun.toISOString()).toBe('2026-03-06T14:00:00.000Z');
+    expect(monday.endAt.toISOString()).toBe('2026-03-13T21:00:00.000Z');
+  });
+});
@@ -0,0 +1,181 @@
+// Schedule Timelines
+// A class day as a list of actions at wall-clock times (run 09:00, suspend 12:00, run 13:00,
+// shutdown 17:00), grouped into day plans so some days can keep different hours. Each day plan
+// becomes one Skytap schedule whose actions are offsets in seconds from its first action, and
+// planSchedules works out every environment's schedules for a class before any are created.
+
+import { SkytapScheduleAction } from "./skytap-schemas";
+import { zonedTimeToInstant } from "./time-zones";
+
+export const SCHEDULE_ACTION_TYPES = {
+  run: 'Run',
+  suspend: 'Suspend',
+  shutdown: 'Shut down',
+  poweroff: 'Power off',
+} as const;
+
+export type ScheduleActionType = keyof typeof SCHEDULE_ACTION_TYPES;
+
+export const WEEK_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export type WeekDay = typeof WEEK_DAYS[number];
+
+export interface TimelineAction {
+  type: ScheduleActionType;
+  /** "HH:mm" in the class time zone */
+  time: string;
+}
+
+/**
+ * Days that share one timeline
+ */
+export interface DayPlan {
+  days: Record<WeekDay, boolean>;
+  actions: TimelineAction[];
+}
+
+export const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (totalMinutes: number) =>
+  `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`;
+
+export const noDays = (): Record<WeekDay, boolean> =>
+  Object.fromEntries(WEEK_DAYS.map(day => [day, false])) as Record<WeekDay, boolean>;
+
+/**
+ * The single run-then-suspend day every scheduler used to get
+ */
+export const simpleDayPlan = (startTime = '09:00', hoursPerDay = 8, days: Partial<Record<WeekDay, boolean>> = {}): DayPlan => {
+  const start = toMinutes(startTime);
+  return {
+    days: { ...noDays(), ...days },
+    actions: [
+      { type: 'run', time: startTime },
+      { type: 'suspend', time: fromMinutes(Math.min(start + hoursPerDay * 60, 24 * 60 - 1)) },
+    ],
+  };
+};
+
+export const selectedDays = (plan: DayPlan): WeekDay[] => WEEK_DAYS.filter(day => plan.days[day]);
+
+/**
+ * Short label such as "Mon, Wed"
+ */
+export const dayPlanLabel = (plan: DayPlan) =>
+  selectedDays(plan).map(day => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(', ');
+
+/**
+ * Why the plans can't be scheduled, or null when they can
+ */
+export const validateDayPlans = (plans: DayPlan[]): string | null => {
+  const claimed = new Set<WeekDay>();
+  for (const [index, plan] of plans.entries()) {
+    const name = plans.length > 1 ? `Day plan ${index + 1}` : 'The timeline';
+    const days = selectedDays(plan);
+    if (days.length === 0) return `${name} needs at least one recurring day`;
+    const repeated = days.find(day => claimed.has(day));
+    if (repeated) return `${repeated.charAt(0).toUpperCase() + repeated.slice(1)} is in more than one day plan`;
+    days.forEach(day => claimed.add(day));
+
+    if (plan.actions.length === 0) return `${name} needs at least one action`;
+    if (plan.actions[0].type !== 'run') return `${name} must start with a Run action`;
+    if (plan.actions.some(action => !action.time)) return `${name} has an action without a time`;
+    for (let i = 1; i < plan.actions.length; i++) {
+      if (toMinutes(plan.actions[i].time) <= toMinutes(plan.actions[i - 1].time)) {
+        return `${name}: each action must be later in the day than the one before`;
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Skytap actions for a timeline, as seconds after its first action
+ */
+export const timelineToActions = (actions: TimelineAction[]): SkytapScheduleAction[] => {
+  const start = toMinutes(actions[0].time);
+  return actions.map(action => ({ type: action.type, offset: (toMinutes(action.time) - start) * 60 }));
+};
+
+/**
+ * Class settings a schedule plan is worked out from. Dates are "yyyy-MM-dd" and times "HH:mm",
+ * both in the class time zone.
+ */
+export interface ScheduleSettings {
+  timeZone: string;
+  startDate: string;
+  endDate: string;
+  endTime: string;
+  staggerMinutes: number;
+  title: string;
+  dayPlans: DayPlan[];
+}
+
+/**
+ * One Skytap schedule for one environment and day plan, worked out before anything is created
+ */
+export interface PlannedSchedule {
+  configurationId: string;
+  configurationName: string;
+  title: string;
+  days: string;
+  recurringDays: string[];
+  actions: SkytapScheduleAction[];
+  /** Each action's local time once staggered, e.g. "Run 09:15" */
+  timeline: string[];
+  firstRun: Date;
+  endAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * First class date ("yyyy-MM-dd") from startDate through endDate that falls on one of the plan's days
+ */
+export const firstClassDate = (plan: DayPlan, startDate: string, endDate: string): string | null => {
+  const days = selectedDays(plan);
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  for (let date = Date.parse(`${startDate}T00:00:00Z`); date <= end; date += DAY_MS) {
+    // getUTCDay counts from Sunday; WEEK_DAYS starts on Monday
+    if (days.includes(WEEK_DAYS[(new Date(date).getUTCDay() + 6) % 7])) {
+      return new Date(date).toISOString().slice(0, 10);
+    }
+  }
+  return null;
+};
+
+/**
+ * Work out every environment's schedules in the class time zone, one per day plan. Starts are
+ * staggered in project order; staggerOffset skips seats scheduled earlier.
+ */
+export const planSchedules = (
+  configurations: { id: string; name: string }[],
+  settings: ScheduleSettings,
+  staggerOffset: number
+): PlannedSchedule[] => {
+  const { timeZone, startDate, endDate, endTime, staggerMinutes, title, dayPlans } = settings;
+  const endAt = zonedTimeToInstant(endDate, endTime, timeZone);
+  return configurations.flatMap((config, i) => {
+    const stagger = (staggerOffset + i) * staggerMinutes;
+    return dayPlans.map((plan) => {
+      const firstDate = firstClassDate(plan, startDate, endDate);
+      const firstRun = new Date(zonedTimeToInstant(firstDate, plan.actions[0].time, timeZone).getTime() + stagger * 60000);
+      return {
+        configurationId: config.id,
+        configurationName: config.name,
+        // Day plans beyond the first are told apart by their days
+        title: dayPlans.length > 1 ? `${title} - ${config.name} (${dayPlanLabel(plan)})` : `${title} - ${config.name}`,
+        days: dayPlanLabel(plan),
+        recurringDays: selectedDays(plan).map(day => day.toUpperCase()),
+        actions: timelineToActions(plan.actions),
+        timeline: plan.actions.map(action =>
+          `${SCHEDULE_ACTION_TYPES[action.type]} ${fromMinutes((toMinutes(action.time) + stagger) % (24 * 60))}`),
+        firstRun,
+        endAt,
+      };
+    });
+  });
+};
@@ -0,0 +1,80 @@
+// Scheduler Presets
+// Named scheduler settings saved to localStorage so a recurring class format (day timelines, zone,
+// stagger) can be reapplied without retyping. Dates are left out; every class picks its own.
+
+import { DayPlan, simpleDayPlan } from "./schedule-timeline";
+
+const STORAGE_KEY = 'training.schedulerPresets';
+
+export interface SchedulerPresetSettings {
+  staggerMinutes: number;
+  /** IANA zone */
+  timeZone: string;
+  endTime: string;
+  title: string;
+  dayPlans: DayPlan[];
+  deleteAtEnd: boolean;
+  notifyUser: boolean;
+}
+
+/** Presets saved before day plans, with one run/suspend day */
+interface LegacyPresetSettings {
+  startTime?: string;
+  hoursPerDay?: string;
+  recurringDays?: Record<string, boolean>;
+}
+
+export interface SchedulerPreset {
+  name: string;
+  settings: SchedulerPresetSettings;
+  savedAt: string;
+}
+
+const upgradePreset = (preset: SchedulerPreset): SchedulerPreset => {
+  if (Array.isArray(preset.settings.dayPlans)) return preset;
+  const { startTime, hoursPerDay, recurringDays, ...settings } = preset.settings as Partial<SchedulerPresetSettings> & LegacyPresetSettings;
+  return {
+    ...preset,
+    settings: {
+      deleteAtEnd: false,
+      notifyUser: true,
+      ...settings,
+      dayPlans: [simpleDayPlan(startTime || undefined, Number(hoursPerDay) || undefined, recurringDays)],
+    } as SchedulerPresetSettings,
+  };
+};
+
+export const listSchedulerPresets = (): SchedulerPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.map(upgradePreset) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writePresets = (presets: SchedulerPreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage full or disabled; presets are a convenience
+  }
+};
+
+/**
+ * Save settings under a name, replacing any preset with the same name
+ */
+export const saveSchedulerPreset = (name: string, settings: SchedulerPresetSettings): SchedulerPreset[] => {
+  const preset: SchedulerPreset = { name: name.trim(), settings, savedAt: new Date().toISOString() };
+  const presets = [...listSchedulerPresets().filter(existing => existing.name !== preset.name), preset]
+    .sort((a, b) => a.name.localeCompare(b.name));
+  writePresets(presets);
+  return presets;
+};
+
+export const deleteSchedulerPreset = (name: string): SchedulerPreset[] => {
+  const presets = listSchedulerPresets().filter(preset => preset.name !== name);
+  writePresets(presets);
+  return presets;
+};
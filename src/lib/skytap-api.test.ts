@@ -0,0 +1,154 @@
+// Skytap API Tests
+// makeRequest's handling of busy and rate-limited responses: exponential backoff, the server's
+// Retry-After hint, the per-call cap, and giving up with the typed error. Also the count/offset
+// paging every list method goes through.
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { skytapAPI } from "./skytap-api";
+import { SkytapLockedError, SkytapNotFoundError } from "./skytap-errors";
+import { skytapProjectSchema } from "./skytap-schemas";
+
+const PROJECT = { id: '1', name: 'Spring Workshop', configuration_count: 0, template_count: 0 };
+
+const respond = (status: number, body: unknown = {}, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("SkytapAPI retries", () => {
+  it("backs off exponentially, or as long as Retry-After asks, before trying again", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(423, { error: 'Busy' }))
+      .mockResolvedValueOnce(respond(429, { error: 'Slow down' }, { 'Retry-After': '5' }))
+      .mockResolvedValueOnce(respond(423, { error: 'Busy' }))
+      .mockResolvedValueOnce(respond(200, PROJECT));
+    const onRetry = vi.fn();
+
+    const request = skytapAPI.getProject('1', { retry: { onRetry } });
+    await vi.runAllTimersAsync();
+
+    await expect(request).resolves.toMatchObject({ id: '1', name: 'Spring Workshop' });
+    expect(onRetry.mock.calls.map(([info]) => [info.status, info.attempt, info.delayMs])).toEqual([
+      [423, 1, 1000],
+      [429, 2, 5000],
+      [423, 3, 4000],
+    ]);
+  });
+
+  it("caps each wait at maxDelayMs, even when Retry-After asks for longer", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503, {}, { 'Retry-After': '600' }))
+      .mockResolvedValueOnce(respond(200, PROJECT));
+    const onRetry = vi.fn();
+
+    const request = skytapAPI.getProject('1', { retry: { maxDelayMs: 2000, onRetry } });
+    await vi.runAllTimersAsync();
+
+    await expect(request).resolves.toMatchObject({ id: '1' });
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ delayMs: 2000 }));
+  });
+
+  it("throws the typed error once the retries run out, and never retries other failures", async () => {
+    fetchMock.mockImplementation(async () => respond(423, { error: 'Configuration is busy' }));
+    const busy = skytapAPI.getProject('1', { retry: { retries: 2 } });
+    const assertion = expect(busy).rejects.toBeInstanceOf(SkytapLockedError);
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(respond(404, { error: 'Not found' }));
+    await expect(skytapAPI.getProject('1')).rejects.toBeInstanceOf(SkytapNotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting for a retry when the call is aborted", async () => {
+    fetchMock.mockResolvedValue(respond(423, { error: 'Busy' }));
+    const controller = new AbortController();
+
+    const request = skytapAPI.getProject('1', { signal: controller.signal });
+    const assertion = expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("SkytapAPI pagination", () => {
+  const projects = (count: number, from = 1) =>
+    Array.from({ length: count }, (_, i) => ({ ...PROJECT, id: String(from + i), name: `Project ${from + i}` }));
+  const requestedPages = () => fetchMock.mock.calls.map(([url]) => String(url).replace(/^.*\?/, ''));
+
+  it("follows count and offset across pages until a short page", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(200, projects(2, 1)))
+      .mockResolvedValueOnce(respond(200, projects(2, 3)))
+      .mockResolvedValueOnce(respond(200, projects(1, 5)));
+    const onProgress = vi.fn();
+
+    const all = await skytapAPI.getAllProjects({ pageSize: 2, onProgress });
+
+    expect(all.map(project => project.id)).toEqual(['1', '2', '3', '4', '5']);
+    expect(requestedPages()).toEqual(['count=2&offset=0', 'count=2&offset=2', 'count=2&offset=4']);
+    expect(onProgress.mock.calls.map(([fetched]) => fetched)).toEqual([2, 4, 5]);
+  });
+
+  it("asks for one more page when the last page is full, and stops at the empty one", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(200, projects(2, 1)))
+      .mockResolvedValueOnce(respond(200, projects(2, 3)))
+      .mockResolvedValueOnce(respond(200, []));
+
+    const all = await skytapAPI.getAllProjects({ pageSize: 2 });
+
+    expect(all).toHaveLength(4);
+    expect(requestedPages()).toEqual(['count=2&offset=0', 'count=2&offset=2', 'count=2&offset=4']);
+  });
+
+  it("returns nothing for an empty first page", async () => {
+    fetchMock.mockResolvedValueOnce(respond(200, []));
+
+    await expect(skytapAPI.getAllProjects()).resolves.toEqual([]);
+    expect(requestedPages()).toEqual(['count=100&offset=0']);
+  });
+
+  it("stops at the limit, asking only for the items still needed", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(200, projects(2, 1)))
+      .mockResolvedValueOnce(respond(200, projects(1, 3)));
+
+    const all = await skytapAPI.getAllProjects({ pageSize: 2, limit: 3 });
+
+    expect(all.map(project => project.id)).toEqual(['1', '2', '3']);
+    expect(requestedPages()).toEqual(['count=2&offset=0', 'count=1&offset=2']);
+  });
+
+  it("yields the pages read so far, then throws the error from a later page", async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(200, projects(2, 1)))
+      .mockResolvedValueOnce(respond(404, { error: 'Not found' }));
+
+    const seen: string[] = [];
+    const walk = async () => {
+      for await (const project of skytapAPI.paginate('/v2/projects', skytapProjectSchema, { pageSize: 2 })) {
+        seen.push(project.id);
+      }
+    };
+
+    await expect(walk()).rejects.toBeInstanceOf(SkytapNotFoundError);
+    expect(seen).toEqual(['1', '2']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
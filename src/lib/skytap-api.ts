@@ -1,128 +1,283 @@
 // Skytap API Service
 // This module provides a centralized interface for all Skytap API interactions
 
-export interface SkytapProject {
-  id: string;
-  name: string;
-  configuration_count: number;
-  template_count: number;
-  url?: string;
-  summary?: string;
-  auto_add_role_name?: string;
-  show_project_members?: boolean;
-  created_at?: string;
-  owner_name?: string;
-  owner_url?: string;
-  user_role?: string;
-  user_count?: number;
-  can_edit?: boolean;
-  asset_count?: number;
+import { z } from "zod";
+import { SkytapAPIError, SkytapBusyTimeoutError, SkytapSchemaError, createSkytapError } from "./skytap-errors";
+import { BulkRunOptions, BulkRunResult, runBulk } from "./bulk-runner";
+import {
+  SkytapConfiguration,
+  SkytapIPAddress,
+  SkytapLabel,
+  SkytapLabelAssignment,
+  SkytapProject,
+  SkytapPublishSet,
+  SkytapPublishSetPayload,
+  SkytapPublishSetUpdate,
+  SkytapReport,
+  SkytapSchedule,
+  SkytapSchedulePayload,
+  SkytapScheduleUpdate,
+  SkytapSchema,
+  SkytapSuspendPolicyUpdate,
+  SkytapTemplate,
+  SkytapUser,
+  skytapConfigurationSchema,
+  skytapIPAddressSchema,
+  skytapLabelSchema,
+  skytapProjectSchema,
+  skytapPublishSetSchema,
+  skytapReportRequestSchema,
+  skytapReportSchema,
+  skytapScheduleSchema,
+  skytapTemplateSchema,
+  skytapUserSchema,
+} from "./skytap-schemas";
+
+export type {
+  SkytapProject,
+  SkytapIPAddress,
+  SkytapPublicIP,
+  SkytapNetworkInterface,
+  SkytapVM,
+  SkytapVMHardware,
+  SkytapConfiguration,
+  SkytapTemplate,
+  SkytapLabel,
+  SkytapLabelAssignment,
+  SkytapUser,
+  SkytapPublishSet,
+  SkytapPublishSetPayload,
+  SkytapPublishSetUpdate,
+  SkytapSchedule,
+  SkytapScheduleAction,
+  SkytapSchedulePayload,
+  SkytapScheduleUpdate,
+  SkytapSuspendPolicyUpdate,
+  SkytapReport,
+  SkytapReportGrouping,
+  SkytapReportPeriod,
+} from "./skytap-schemas";
+
+/**
+ * Options accepted by every list method that walks Skytap's count/offset pages
+ */
+export interface PaginationOptions extends CallOptions {
+  /** Maximum number of items to return across all pages (defaults to everything) */
+  limit?: number;
+  /** Number of items requested per page (Skytap caps this at 100) */
+  pageSize?: number;
+  /** Called after each page with the running number of items fetched */
+  onProgress?: (fetched: number) => void;
 }
 
-export interface SkytapIPAddress {
-  id: string;
-  address: string;
-  region: string;
-  nic_count: number;
-  connect_type: string;
-  dns_name: string;
-  nics: {
-    id: string;
-    deployed: boolean;
-  }[];
+/**
+ * Outcome of a bulk delete/release call
+ */
+export interface BulkResult {
+  success: string[];
+  failed: { id: string; error: string; retryable: boolean }[];
+  /** Items that were never attempted, e.g. because the run was cancelled */
+  skipped: string[];
 }
 
-export interface SkytapConfiguration {
-  id: string;
-  name: string;
-  description?: string;
-  runstate: string;
-  vm_count: number;
-  storage: number;
-  region: string;
-  created_at: string;
-  vms?: Array<{
-    id: string;
-    name: string;
-    runstate: string;
-    hardware: {
-      cpus: number;
-      ram: number;
-      storage: number;
-    };
-  }>;
+// Largest page size the Skytap list endpoints accept
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Controls how makeRequest retries responses that Skytap marks as temporary
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries after the first attempt */
+  retries: number;
+  /** HTTP status codes worth retrying (423 busy/locked, 429 rate limited, ...) */
+  statuses: number[];
+  /** Delay before the first retry; doubled for each following attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single wait, including waits requested via Retry-After */
+  maxDelayMs: number;
+  /** Called before each wait so callers can surface retries in their logs */
+  onRetry?: (info: { endpoint: string; status: number; attempt: number; delayMs: number }) => void;
 }
 
-export interface SkytapTemplate {
-  id: string;
-  name: string;
-  description?: string;
-  vm_count: number;
-  storage: number;
-  region: string;
-  created_at: string;
-  vms?: Array<{
-    id: string;
-    name: string;
-    runstate: string;
-    hardware: {
-      cpus: number;
-      ram: number;
-      storage: number;
-      guestOS?: string;
-      architecture?: string;
-    };
-  }>;
+/** Per-call retry override: a partial policy merged over the default, or false to disable retries */
+export type RetryOptions = Partial<RetryPolicy> | false;
+
+/**
+ * Per-call options accepted by every SkytapAPI method
+ */
+export interface CallOptions {
+  /** Aborts the request, including any pending retry wait */
+  signal?: AbortSignal;
+  /** Overrides the default retry policy for this call */
+  retry?: RetryOptions;
 }
 
-export interface SkytapLabel {
-  id: string;
-  text: string;
-  type: string;
-  created_at?: string;
-  updated_at?: string;
+/**
+ * Options for waiting on a configuration to finish a long-running operation
+ */
+export interface WaitForReadyOptions {
+  /** Aborts the wait, including the request in flight */
+  signal?: AbortSignal;
+  /** Time between status checks (default 5s) */
+  intervalMs?: number;
+  /** Give up with SkytapBusyTimeoutError after this long (default 15 minutes) */
+  timeoutMs?: number;
+  /** Called after each check that found the configuration not ready yet */
+  onPoll?: (info: { attempt: number; runstate: string; elapsedMs: number }) => void;
 }
 
-export interface SkytapUser {
-  id: string;
-  url: string;
-  first_name: string;
-  last_name: string;
-  login_name: string;
-  email: string;
-  title: string;
-  deleted: boolean;
-  default_region: string;
-  can_add_resources: boolean;
-  activated: boolean;
-  last_login: string | null;
-  created_at: string;
-  updated_at: string;
+/**
+ * Runstates a configuration can be asked to move to. "stopped" shuts the guests down cleanly;
+ * "halted" powers the VMs off, and the configuration then reports "stopped" too.
+ */
+export type SkytapRunstateChange = 'running' | 'suspended' | 'stopped' | 'halted';
+
+/**
+ * Runstate a configuration reports once a change has finished
+ */
+export const settledRunstate = (runstate: SkytapRunstateChange): string =>
+  runstate === 'halted' ? 'stopped' : runstate;
+
+/**
+ * fetch options plus the per-call retry override
+ */
+export interface RequestOptions extends RequestInit {
+  retry?: RetryOptions;
 }
 
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  statuses: [423, 429, 503],
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Mutations on busy environments (copies, renames, IP attaches) can stay locked for minutes
+export const BUSY_RETRY_POLICY: Partial<RetryPolicy> = {
+  retries: 10,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+/**
+ * Wait for `ms`, rejecting with an AbortError as soon as the signal fires
+ */
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Whether an error was caused by an AbortController rather than the API
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Parse a Retry-After header (either delta-seconds or an HTTP date) into milliseconds
+ */
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Header the proxy reads to choose which Skytap account's credentials to use
+ */
+export const SKYTAP_PROFILE_HEADER = 'X-Skytap-Profile';
+
 class SkytapAPI {
   private baseURL = '/api';
+  private profileId: string | null = null;
+
+  /**
+   * Run subsequent requests against a named credential profile; null uses the proxy's default
+   */
+  setProfile(profileId: string | null) {
+    this.profileId = profileId;
+  }
+
+  get profile(): string | null {
+    return this.profileId;
+  }
 
   private async makeRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestOptions = {},
+    schema?: SkytapSchema<T>
   ): Promise<T> {
+    const { retry, ...init } = options;
+    const policy = retry === false
+      ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+      : { ...DEFAULT_RETRY_POLICY, ...retry };
     const url = `${this.baseURL}${endpoint}`;
-    
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-        ...options.headers,
-      },
-    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
+    for (let attempt = 0; ; attempt++) {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          ...(this.profileId ? { [SKYTAP_PROFILE_HEADER]: this.profileId } : {}),
+          ...init.headers,
+        },
+      });
+
+      if (!response.ok) {
+        // Busy and rate-limited responses are retried with exponential backoff,
+        // preferring the server's Retry-After hint when one is provided
+        if (attempt < policy.retries && policy.statuses.includes(response.status)) {
+          const backoff = policy.baseDelayMs * 2 ** attempt;
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          const delayMs = Math.min(retryAfter ?? backoff, policy.maxDelayMs);
+
+          policy.onRetry?.({ endpoint, status: response.status, attempt: attempt + 1, delayMs });
+          await sleep(delayMs, init.signal ?? undefined);
+          continue;
+        }
+
+        throw await createSkytapError(response, endpoint);
+      }
+
+      const data = await this.parseResponse<T>(response);
+      return schema ? this.validate(schema, data, endpoint) : data;
     }
+  }
 
+  /**
+   * Check a response body against its model so API drift fails with a clear error
+   */
+  private validate<T>(schema: SkytapSchema<T>, data: unknown, endpoint: string): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue =>
+        `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`
+      );
+      throw new SkytapSchemaError(endpoint, issues);
+    }
+    return result.data;
+  }
+
+  private async parseResponse<T>(response: Response): Promise<T> {
     // Handle 204 No Content responses (typical for DELETE operations)
     if (response.status === 204) {
       return {} as T;
@@ -142,68 +297,196 @@ class SkytapAPI {
     return response.json();
   }
 
+  /**
+   * Default mutating calls on training environments to the busy retry policy
+   */
+  private withBusyRetry(options: CallOptions): CallOptions {
+    return { signal: options.signal, retry: options.retry ?? BUSY_RETRY_POLICY };
+  }
+
+  /**
+   * Walk a Skytap list endpoint page by page using count/offset parameters.
+   * Stops when a short or empty page comes back or when `limit` items have been yielded.
+   */
+  async *paginate<T>(endpoint: string, schema: SkytapSchema<T>, options: PaginationOptions = {}): AsyncGenerator<T> {
+    const { limit = Infinity, onProgress } = options;
+    const pageSize = Math.min(options.pageSize ?? MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    const separator = endpoint.includes('?') ? '&' : '?';
+    let offset = 0;
+    let fetched = 0;
+
+    while (fetched < limit) {
+      const count = Math.min(pageSize, limit - fetched);
+      const page = await this.makeRequest<T[]>(`${endpoint}${separator}count=${count}&offset=${offset}`, {
+        signal: options.signal,
+        retry: options.retry,
+      }, z.array(schema));
+
+      if (!Array.isArray(page) || page.length === 0) {
+        break;
+      }
+
+      for (const item of page) {
+        if (fetched >= limit) break;
+        fetched++;
+        yield item;
+      }
+
+      onProgress?.(fetched);
+      offset += page.length;
+
+      // A short page means there is nothing left to fetch
+      if (page.length < count) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Collect every item from a paginated list endpoint into a single array
+   */
+  async fetchAll<T>(endpoint: string, schema: SkytapSchema<T>, options: PaginationOptions = {}): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this.paginate(endpoint, schema, options)) {
+      items.push(item);
+    }
+    return items;
+  }
+
   // Project Management
-  async getAllProjects(count: number = 200, offset: number = 0): Promise<SkytapProject[]> {
-    return this.makeRequest<SkytapProject[]>(`/v2/projects?count=${count}&offset=${offset}`);
+  async getAllProjects(options: PaginationOptions = {}): Promise<SkytapProject[]> {
+    return this.fetchAll('/v2/projects', skytapProjectSchema, options);
   }
 
-  async getProject(projectId: string): Promise<SkytapProject> {
-    return this.makeRequest<SkytapProject>(`/v2/projects/${projectId}.json`);
+  async getProject(projectId: string, options: CallOptions = {}): Promise<SkytapProject> {
+    return this.makeRequest(`/v2/projects/${projectId}.json`, options, skytapProjectSchema);
   }
 
-  async deleteProject(projectId: string): Promise<void> {
+  async deleteProject(projectId: string, options: CallOptions = {}): Promise<void> {
     return this.makeRequest<void>(`/projects/${projectId}`, {
+      ...options,
       method: 'DELETE',
     });
   }
 
-  async getProjectConfigurations(projectId: string): Promise<SkytapConfiguration[]> {
-    return this.makeRequest<SkytapConfiguration[]>(`/v2/projects/${projectId}/configurations.json`);
+  /**
+   * Rename a project or change its summary, e.g. to mark it archived after a class
+   */
+  async updateProject(projectId: string, payload: { name?: string; summary?: string }, options: CallOptions = {}): Promise<SkytapProject> {
+    return this.makeRequest(`/projects/${projectId}.json`, {
+      ...options,
+      method: 'PUT',
+      body: JSON.stringify(payload),
+    }, skytapProjectSchema);
   }
 
-  async getProjectTemplates(projectId: string): Promise<SkytapTemplate[]> {
+  async getProjectConfigurations(projectId: string, options: PaginationOptions = {}): Promise<SkytapConfiguration[]> {
+    return this.fetchAll(`/v2/projects/${projectId}/configurations.json`, skytapConfigurationSchema, options);
+  }
+
+  async getProjectTemplates(projectId: string, options: PaginationOptions = {}): Promise<SkytapTemplate[]> {
     // Note: Skytap API doesn't have a direct endpoint for project templates
     // This would need to be implemented based on available endpoints
-    return this.makeRequest<SkytapTemplate[]>(`/v2/projects/${projectId}/templates.json`);
+    return this.fetchAll(`/v2/projects/${projectId}/templates.json`, skytapTemplateSchema, options);
   }
 
   // Configuration Management
-  async getAllConfigurations(count: number = 200, offset: number = 0): Promise<SkytapConfiguration[]> {
-    return this.makeRequest<SkytapConfiguration[]>(`/v2/configurations?count=${count}&offset=${offset}`);
+  async getAllConfigurations(options: PaginationOptions = {}): Promise<SkytapConfiguration[]> {
+    return this.fetchAll('/v2/configurations', skytapConfigurationSchema, options);
+  }
+
+  async getConfiguration(configId: string, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest(`/v2/configurations/${configId}`, options, skytapConfigurationSchema);
+  }
+
+  /**
+   * Poll a configuration until it leaves the "busy" runstate, e.g. after a copy, and return its final state
+   */
+  async waitForConfigurationReady(configId: string, options: WaitForReadyOptions = {}): Promise<SkytapConfiguration> {
+    return this.pollConfiguration(configId, configuration => configuration.runstate !== 'busy', options);
   }
 
-  async getConfiguration(configId: string): Promise<SkytapConfiguration> {
-    return this.makeRequest<SkytapConfiguration>(`/v2/configurations/${configId}`);
+  /**
+   * Poll a configuration until it reports the given runstate, e.g. after asking it to start
+   */
+  async waitForRunstate(configId: string, runstate: string, options: WaitForReadyOptions = {}): Promise<SkytapConfiguration> {
+    return this.pollConfiguration(configId, configuration => configuration.runstate === runstate, options);
+  }
+
+  private async pollConfiguration(
+    configId: string,
+    isDone: (configuration: SkytapConfiguration) => boolean,
+    options: WaitForReadyOptions
+  ): Promise<SkytapConfiguration> {
+    const { signal, intervalMs = 5000, timeoutMs = 15 * 60_000, onPoll } = options;
+    const startedAt = Date.now();
+
+    for (let attempt = 1; ; attempt++) {
+      const configuration = await this.getConfiguration(configId, { signal });
+      if (isDone(configuration)) {
+        return configuration;
+      }
+
+      const elapsedMs = Date.now() - startedAt;
+      if (elapsedMs + intervalMs > timeoutMs) {
+        throw new SkytapBusyTimeoutError(configId, timeoutMs);
+      }
+      onPoll?.({ attempt, runstate: configuration.runstate, elapsedMs });
+      await sleep(intervalMs, signal);
+    }
   }
 
-  async deleteConfiguration(configId: string): Promise<void> {
+  async deleteConfiguration(configId: string, options: CallOptions = {}): Promise<void> {
     return this.makeRequest<void>(`/configurations/${configId}.json`, {
+      ...options,
       method: 'DELETE',
     });
   }
 
   // Template Management
-  async getAllTemplates(count: number = 200, offset: number = 0): Promise<SkytapTemplate[]> {
-    return this.makeRequest<SkytapTemplate[]>(`/v2/templates?count=${count}&offset=${offset}`);
+  async getAllTemplates(options: PaginationOptions = {}): Promise<SkytapTemplate[]> {
+    return this.fetchAll('/v2/templates', skytapTemplateSchema, options);
   }
 
-  async getTemplate(templateId: string): Promise<SkytapTemplate> {
-    return this.makeRequest<SkytapTemplate>(`/v2/templates/${templateId}`);
+  async getTemplate(templateId: string, options: CallOptions = {}): Promise<SkytapTemplate> {
+    return this.makeRequest(`/v2/templates/${templateId}`, options, skytapTemplateSchema);
+  }
+
+  /**
+   * Save a configuration as a new template. The configuration is busy until Skytap finishes.
+   */
+  async createTemplateFromConfiguration(configId: string, options: CallOptions = {}): Promise<SkytapTemplate> {
+    return this.makeRequest('/templates.json', {
+      method: 'POST',
+      body: JSON.stringify({ configuration_id: configId }),
+      ...this.withBusyRetry(options),
+    }, skytapTemplateSchema);
   }
 
   // Label Management
-  async getConfigurationLabels(configId: string): Promise<SkytapLabel[]> {
-    return this.makeRequest<SkytapLabel[]>(`/v2/configurations/${configId}/labels.json`);
+  async getConfigurationLabels(configId: string, options: CallOptions = {}): Promise<SkytapLabel[]> {
+    return this.makeRequest(`/v2/configurations/${configId}/labels.json`, options, z.array(skytapLabelSchema));
   }
 
-  async getTemplateLabels(templateId: string): Promise<SkytapLabel[]> {
-    return this.makeRequest<SkytapLabel[]>(`/v2/templates/${templateId}/labels.json`);
+  /**
+   * Add labels to a configuration; a label replaces the one already in its category
+   */
+  async addConfigurationLabels(configId: string, labels: SkytapLabelAssignment[], options: CallOptions = {}): Promise<SkytapLabel[]> {
+    return this.makeRequest(`/v2/configurations/${configId}/labels.json`, {
+      method: 'PUT',
+      body: JSON.stringify(labels),
+      ...this.withBusyRetry(options),
+    }, z.array(skytapLabelSchema));
+  }
+
+  async getTemplateLabels(templateId: string, options: CallOptions = {}): Promise<SkytapLabel[]> {
+    return this.makeRequest(`/v2/templates/${templateId}/labels.json`, options, z.array(skytapLabelSchema));
   }
 
   // Utility methods for Project Cleaner
-  async findEmptyProjects(count: number = 200): Promise<SkytapProject[]> {
+  async findEmptyProjects(options: PaginationOptions = {}): Promise<SkytapProject[]> {
     try {
-      const projects = await this.getAllProjects(count);
+      const projects = await this.getAllProjects(options);
       
       // Filter projects that have 0 configurations
       // The configuration_count is already available in the API response
@@ -216,68 +499,62 @@ class SkytapAPI {
     }
   }
 
-  async deleteProjects(projectIds: string[]): Promise<{success: string[], failed: {id: string, error: string}[]}> {
-    const results = { success: [] as string[], failed: [] as {id: string, error: string}[] };
-    
-    for (const projectId of projectIds) {
-      try {
-        await this.deleteProject(projectId);
-        results.success.push(projectId);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        results.failed.push({ id: projectId, error: errorMessage });
-        console.error(`Failed to delete project ${projectId}:`, error);
-      }
-    }
-    
-    return results;
+  async deleteProjects(projectIds: string[], options: BulkRunOptions<string, void> = {}): Promise<BulkResult> {
+    const run = await runBulk(projectIds, (projectId, { signal }) => this.deleteProject(projectId, { signal }), options);
+    run.failed.forEach(({ item, error }) => console.error(`Failed to delete project ${item}:`, error));
+    return this.toBulkResult(run);
   }
 
   // IP Address Management
-  async getIPAddressesByRegion(region: string, count: number = 100, offset: number = 0): Promise<SkytapIPAddress[]> {
-    return this.makeRequest<SkytapIPAddress[]>(`/v2/ips.json?count=${count}&offset=${offset}&query=region:${region}`);
+  async getIPAddressesByRegion(region: string, options: PaginationOptions = {}): Promise<SkytapIPAddress[]> {
+    return this.fetchAll(`/v2/ips.json?query=region:${region}`, skytapIPAddressSchema, options);
   }
 
-  async acquirePublicIP(region: string): Promise<SkytapIPAddress> {
-    return this.makeRequest<SkytapIPAddress>('/v2/ips/acquire.json', {
+  async acquirePublicIP(region: string, options: CallOptions = {}): Promise<SkytapIPAddress> {
+    return this.makeRequest('/v2/ips/acquire.json', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({ region }),
-    });
+    }, skytapIPAddressSchema);
   }
 
-  async attachIPToInterface(configId: string, vmId: string, interfaceId: string, ip: string): Promise<void> {
+  async attachIPToInterface(configId: string, vmId: string, interfaceId: string, ip: string, options: CallOptions = {}): Promise<void> {
     return this.makeRequest<void>(`/v2/configurations/${configId}/vms/${vmId}/interfaces/${interfaceId}/ips.json`, {
       method: 'POST',
       body: JSON.stringify({ ip }),
+      ...this.withBusyRetry(options),
     });
   }
 
-  async releaseIPAddress(ipId: string): Promise<void> {
+  async releaseIPAddress(ipId: string, options: CallOptions = {}): Promise<void> {
     return this.makeRequest<void>(`/v2/ips/${ipId}/release.json`, {
+      ...options,
       method: 'POST',
     });
   }
 
-  async releaseIPAddresses(ipIds: string[]): Promise<{success: string[], failed: {id: string, error: string}[]}> {
-    const results = { success: [] as string[], failed: [] as {id: string, error: string}[] };
-    
-    for (const ipId of ipIds) {
-      try {
-        await this.releaseIPAddress(ipId);
-        results.success.push(ipId);
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        results.failed.push({ id: ipId, error: errorMessage });
-        console.error(`Failed to release IP ${ipId}:`, error);
-      }
-    }
-    
-    return results;
+  async releaseIPAddresses(ipIds: string[], options: BulkRunOptions<string, void> = {}): Promise<BulkResult> {
+    const run = await runBulk(ipIds, (ipId, { signal }) => this.releaseIPAddress(ipId, { signal }), options);
+    run.failed.forEach(({ item, error }) => console.error(`Failed to release IP ${item}:`, error));
+    return this.toBulkResult(run);
+  }
+
+  private toBulkResult(run: BulkRunResult<string, void>): BulkResult {
+    return {
+      success: run.succeeded.map(({ item }) => item),
+      failed: run.failed.map(({ item, error }) => ({
+        id: item,
+        error: error.message,
+        retryable: error instanceof SkytapAPIError && error.retryable,
+      })),
+      skipped: run.skipped.map(({ item }) => item),
+    };
   }
 
   // Billing and Reporting
-  async createX86Report(startDate: string, endDate: string, customerId: string): Promise<{id: string}> {
-    return this.makeRequest<{id: string}>('/reports.json', {
+  async createX86Report(startDate: string, endDate: string, customerId: string, options: CallOptions = {}): Promise<{id: string}> {
+    return this.makeRequest('/reports.json', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         aggregate_by: "month",
@@ -292,11 +569,12 @@ class SkytapAPI {
         utc: true,
         resource_type: "svms"
       }),
-    });
+    }, skytapReportRequestSchema);
   }
 
-  async createStorageReport(startDate: string, endDate: string, customerId: string): Promise<{id: string}> {
-    return this.makeRequest<{id: string}>('/reports.json', {
+  async createStorageReport(startDate: string, endDate: string, customerId: string, options: CallOptions = {}): Promise<{id: string}> {
+    return this.makeRequest('/reports.json', {
+      ...options,
       method: 'POST',
       body: JSON.stringify({
         aggregate_by: "month",
@@ -311,142 +589,181 @@ class SkytapAPI {
         utc: true,
         resource_type: "storage_size"
       }),
-    });
+    }, skytapReportRequestSchema);
   }
 
-  async getReportResults(reportId: string): Promise<any> {
-    return this.makeRequest<any>(`/reports/${reportId}.json`);
+  async getReportResults(reportId: string, options: CallOptions = {}): Promise<SkytapReport> {
+    return this.makeRequest(`/reports/${reportId}.json`, options, skytapReportSchema);
   }
 
   // Environment Management
-  async deployFromTemplate(templateId: string, environmentName: string): Promise<any> {
-    return this.makeRequest<any>('/configurations.json', {
+  async deployFromTemplate(templateId: string, environmentName: string, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest('/configurations.json', {
       method: 'POST',
       body: JSON.stringify({
         template_id: templateId,
         name: environmentName
       }),
-    });
+      ...options,
+    }, skytapConfigurationSchema);
   }
 
-  async addConfigurationToProject(configId: string, projectId: string): Promise<void> {
+  async addConfigurationToProject(configId: string, projectId: string, options: CallOptions = {}): Promise<void> {
     return this.makeRequest<void>(`/v2/projects/${projectId}/configurations/${configId}`, {
       method: 'POST',
+      ...this.withBusyRetry(options),
     });
   }
 
   // Note: These methods are duplicates of acquirePublicIP and attachIPToInterface above
   // Keeping for backward compatibility but consider removing in future cleanup
-  async acquirePublicIp(region: string): Promise<SkytapIPAddress> {
-    return this.acquirePublicIP(region);
+  async acquirePublicIp(region: string, options: CallOptions = {}): Promise<SkytapIPAddress> {
+    return this.acquirePublicIP(region, options);
   }
 
-  async attachIpToInterface(configId: string, vmId: string, interfaceId: string, ip: string): Promise<void> {
-    return this.attachIPToInterface(configId, vmId, interfaceId, ip);
+  async attachIpToInterface(configId: string, vmId: string, interfaceId: string, ip: string, options: CallOptions = {}): Promise<void> {
+    return this.attachIPToInterface(configId, vmId, interfaceId, ip, options);
   }
 
-  async createPublishSet(configId: string, payload: any): Promise<any> {
-    return this.makeRequest<any>(`/v2/configurations/${configId}/publish_sets.json`, {
+  async createPublishSet(configId: string, payload: SkytapPublishSetPayload, options: CallOptions = {}): Promise<SkytapPublishSet> {
+    return this.makeRequest(`/v2/configurations/${configId}/publish_sets.json`, {
       method: 'POST',
       body: JSON.stringify(payload),
-    });
+      ...this.withBusyRetry(options),
+    }, skytapPublishSetSchema);
   }
 
-  async getPublishSet(configId: string, publishSetId: string): Promise<any> {
-    return this.makeRequest<any>(`/v2/configurations/${configId}/publish_sets/${publishSetId}.json`);
+  async getPublishSet(configId: string, publishSetId: string, options: CallOptions = {}): Promise<SkytapPublishSet> {
+    return this.makeRequest(`/v2/configurations/${configId}/publish_sets/${publishSetId}.json`, options, skytapPublishSetSchema);
   }
 
   // Note: getProjectConfigurations is already defined above - this is a duplicate
   // Keeping for backward compatibility but consider removing in future cleanup
 
-  async getPublishSets(configId: string): Promise<any> {
-    return this.makeRequest<any>(`/v2/configurations/${configId}/publish_sets.json?count=20&offset=0`);
+  async getPublishSets(configId: string, options: PaginationOptions = {}): Promise<SkytapPublishSet[]> {
+    return this.fetchAll(`/v2/configurations/${configId}/publish_sets.json`, skytapPublishSetSchema, options);
   }
 
-  async updatePublishSet(configId: string, publishSetId: string, payload: any): Promise<any> {
-    return this.makeRequest<any>(`/v2/configurations/${configId}/publish_sets/${publishSetId}.json`, {
+  async updatePublishSet(configId: string, publishSetId: string, payload: SkytapPublishSetUpdate, options: CallOptions = {}): Promise<SkytapPublishSet> {
+    return this.makeRequest(`/v2/configurations/${configId}/publish_sets/${publishSetId}.json`, {
+      ...options,
       method: 'PUT',
       body: JSON.stringify(payload),
+    }, skytapPublishSetSchema);
+  }
+
+  async deletePublishSet(configId: string, publishSetId: string, options: CallOptions = {}): Promise<void> {
+    return this.makeRequest<void>(`/v2/configurations/${configId}/publish_sets/${publishSetId}.json`, {
+      ...options,
+      method: 'DELETE',
     });
   }
 
   // Training Environment Management
-  async copyEnvironment(masterEnvironmentId: string): Promise<any> {
-    return this.makeRequest<any>('/configurations.json', {
+  async copyEnvironment(masterEnvironmentId: string, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest('/configurations.json', {
       method: 'POST',
       body: JSON.stringify({
         configuration_id: masterEnvironmentId
       }),
-    });
+      ...this.withBusyRetry(options),
+    }, skytapConfigurationSchema);
   }
 
-  async updateEnvironmentName(configId: string, name: string): Promise<any> {
-    return this.makeRequest<any>(`/configurations/${configId}.json`, {
+  async updateEnvironmentName(configId: string, name: string, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest(`/configurations/${configId}.json`, {
       method: 'PUT',
       body: JSON.stringify({ name }),
-    });
+      ...this.withBusyRetry(options),
+    }, skytapConfigurationSchema);
   }
 
-  async addEnvironmentToProject(configId: string, projectId: string): Promise<void> {
+  async addEnvironmentToProject(configId: string, projectId: string, options: CallOptions = {}): Promise<void> {
     return this.makeRequest<void>(`/projects/${projectId}/configurations/${configId}.json`, {
       method: 'POST',
+      ...this.withBusyRetry(options),
     });
   }
 
-  async createScheduler(payload: any): Promise<any> {
-    return this.makeRequest<any>('/v2/schedules.json', {
+  async createScheduler(payload: SkytapSchedulePayload, options: CallOptions = {}): Promise<SkytapSchedule> {
+    return this.makeRequest('/v2/schedules.json', {
       method: 'POST',
       body: JSON.stringify(payload),
-    });
+      ...this.withBusyRetry(options),
+    }, skytapScheduleSchema);
+  }
+
+  async getSchedules(options: PaginationOptions = {}): Promise<SkytapSchedule[]> {
+    return this.fetchAll('/v2/schedules', skytapScheduleSchema, options);
   }
 
-  async getConfigurationStatus(configId: string): Promise<any> {
-    return this.makeRequest<any>(`/v2/configurations/${configId}`);
+  async getSchedule(scheduleId: string, options: CallOptions = {}): Promise<SkytapSchedule> {
+    return this.makeRequest(`/v2/schedules/${scheduleId}.json`, options, skytapScheduleSchema);
   }
 
-  async disableConfigurationAutoshutdown(configId: string): Promise<any> {
-    return this.makeRequest<any>(`/v2/configurations/${configId}.json`, {
+  async updateSchedule(scheduleId: string, update: SkytapScheduleUpdate, options: CallOptions = {}): Promise<SkytapSchedule> {
+    return this.makeRequest(`/v2/schedules/${scheduleId}.json`, {
+      ...options,
       method: 'PUT',
-      body: JSON.stringify({ suspend_type: "" }),
+      body: JSON.stringify(update),
+    }, skytapScheduleSchema);
+  }
+
+  async deleteSchedule(scheduleId: string, options: CallOptions = {}): Promise<void> {
+    return this.makeRequest<void>(`/v2/schedules/${scheduleId}.json`, {
+      ...options,
+      method: 'DELETE',
     });
   }
 
-  // User Management Methods
-  async getAllUsers(count: number = 50): Promise<SkytapUser[]> {
-    let allUsers: SkytapUser[] = [];
-    let offset = 0;
-    const batchSize = Math.min(count, 100); // Max 100 per request
-    let hasMore = true;
+  async getConfigurationStatus(configId: string, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest(`/v2/configurations/${configId}`, options, skytapConfigurationSchema);
+  }
 
-    while (hasMore && allUsers.length < count) {
-      const endpoint = `/v2/users?count=${batchSize}&offset=${offset}`;
-      
-      
-      const batch = await this.makeRequest<SkytapUser[]>(endpoint);
-      
-      if (!batch || batch.length === 0) {
-        
-        hasMore = false;
-        break;
-      }
-      
-      
-      allUsers = allUsers.concat(batch);
-      offset += batchSize;
-      
-      // Stop if we got fewer users than requested (end of data)
-      if (batch.length < batchSize) {
-        hasMore = false;
-      }
+  async disableConfigurationAutoshutdown(configId: string, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.updateConfigurationSuspendPolicy(configId, { suspend_type: "" }, options);
+  }
+
+  async updateConfigurationSuspendPolicy(configId: string, policy: SkytapSuspendPolicyUpdate, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest(`/v2/configurations/${configId}.json`, {
+      method: 'PUT',
+      body: JSON.stringify(policy),
+      ...this.withBusyRetry(options),
+    }, skytapConfigurationSchema);
+  }
+
+  async setConfigurationRunstate(configId: string, runstate: SkytapRunstateChange, options: CallOptions = {}): Promise<SkytapConfiguration> {
+    return this.makeRequest(`/v2/configurations/${configId}.json`, {
+      method: 'PUT',
+      body: JSON.stringify({ runstate }),
+      ...this.withBusyRetry(options),
+    }, skytapConfigurationSchema);
+  }
+
+  /**
+   * Start, suspend, shut down or power off a configuration and wait until it has settled in the new runstate
+   */
+  async changeConfigurationRunstate(
+    configId: string,
+    runstate: SkytapRunstateChange,
+    options: WaitForReadyOptions & { retry?: RetryOptions } = {}
+  ): Promise<SkytapConfiguration> {
+    const { retry, ...waitOptions } = options;
+    const updated = await this.setConfigurationRunstate(configId, runstate, { signal: options.signal, retry });
+    if (updated.runstate === settledRunstate(runstate)) {
+      return updated;
     }
+    return this.waitForRunstate(configId, settledRunstate(runstate), waitOptions);
+  }
 
-    
-    return allUsers.slice(0, count); // Ensure we don't exceed requested count
+  // User Management Methods
+  async getAllUsers(count: number = 50, options: PaginationOptions = {}): Promise<SkytapUser[]> {
+    return this.fetchAll('/v2/users', skytapUserSchema, { ...options, limit: count });
   }
 
   // Running Environments Dashboard
-  async getRunningConfigurations(): Promise<SkytapConfiguration[]> {
-    return this.makeRequest<SkytapConfiguration[]>('/v2/configurations?query=status%3Arunning');
+  async getRunningConfigurations(options: PaginationOptions = {}): Promise<SkytapConfiguration[]> {
+    return this.fetchAll('/v2/configurations?query=status%3Arunning', skytapConfigurationSchema, options);
   }
 }
 
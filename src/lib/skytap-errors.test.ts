@@ -0,0 +1,60 @@
+// Skytap Error Tests
+// createSkytapError's mapping from status codes and error bodies to typed errors
+
+import { describe, expect, it } from "vitest";
+import {
+  SkytapAPIError,
+  SkytapLockedError,
+  SkytapNotFoundError,
+  SkytapQuotaExceededError,
+  SkytapRateLimitedError,
+  SkytapUnauthorizedError,
+  SkytapValidationError,
+  createSkytapError,
+  describeSkytapError,
+} from "./skytap-errors";
+
+const errorFor = (status: number, body: string, headers: Record<string, string> = {}) =>
+  createSkytapError(new Response(body, { status, statusText: 'Failed', headers }), '/v2/configurations/1');
+
+describe("createSkytapError", () => {
+  it.each([
+    { status: 400, errorClass: SkytapValidationError },
+    { status: 422, errorClass: SkytapValidationError },
+    { status: 401, errorClass: SkytapUnauthorizedError },
+    { status: 403, errorClass: SkytapUnauthorizedError },
+    { status: 404, errorClass: SkytapNotFoundError },
+    { status: 409, errorClass: SkytapLockedError },
+    { status: 423, errorClass: SkytapLockedError },
+    { status: 429, errorClass: SkytapRateLimitedError },
+    { status: 500, errorClass: SkytapAPIError },
+  ])("maps $status to $errorClass.name", async ({ status, errorClass }) => {
+    const error = await errorFor(status, JSON.stringify({ error: 'Something happened' }));
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error.status).toBe(status);
+    expect(error.endpoint).toBe('/v2/configurations/1');
+  });
+
+  it("treats quota messages as quota errors whatever the status", async () => {
+    const error = await errorFor(422, JSON.stringify({ errors: ['You have exceeded your RAM quota'] }));
+    expect(error).toBeInstanceOf(SkytapQuotaExceededError);
+    expect(describeSkytapError(error)).toBe('Account quota exceeded: You have exceeded your RAM quota');
+  });
+
+  it("reads the message from any of Skytap's error body shapes, or the raw body", async () => {
+    expect((await errorFor(422, JSON.stringify({ message: 'Bad name' }))).detail).toBe('Bad name');
+    expect((await errorFor(422, JSON.stringify({ errors: { name: ['is too long', 'is taken'] } }))).detail)
+      .toBe('name: is too long, is taken');
+    const html = await errorFor(502, '<html>Bad Gateway</html>');
+    expect(html.body).toBeNull();
+    expect(html.message).toBe('API request failed: 502 Failed - <html>Bad Gateway</html>');
+  });
+
+  it("keeps Skytap's request id and marks busy and rate-limited errors retryable", async () => {
+    const locked = await errorFor(423, '{}', { 'X-Request-Id': 'req-42' });
+    expect(locked.requestId).toBe('req-42');
+    expect(locked.retryable).toBe(true);
+    expect((await errorFor(429, '{}')).retryable).toBe(true);
+    expect((await errorFor(404, '{}')).retryable).toBe(false);
+  });
+});
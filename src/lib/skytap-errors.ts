@@ -0,0 +1,235 @@
+// Skytap API Errors
+// Typed errors thrown by SkytapAPI so callers can react to specific failure modes
+
+/**
+ * Shape of the error bodies Skytap returns. Depending on the endpoint the
+ * message arrives as `error`, `errors` or `message`.
+ */
+export interface SkytapErrorBody {
+  error?: string;
+  errors?: string[] | Record<string, string[]>;
+  message?: string;
+  [key: string]: unknown;
+}
+
+interface SkytapAPIErrorDetails {
+  status: number;
+  statusText: string;
+  endpoint: string;
+  requestId: string | null;
+  body: SkytapErrorBody | null;
+  rawBody: string;
+}
+
+/**
+ * Base class for every non-2xx response from the Skytap API
+ */
+export class SkytapAPIError extends Error {
+  /** HTTP status code of the failed response */
+  readonly status: number;
+  readonly statusText: string;
+  /** API endpoint (relative to the proxy base URL) that failed */
+  readonly endpoint: string;
+  /** Request id reported by Skytap, useful when opening support tickets */
+  readonly requestId: string | null;
+  /** Parsed Skytap error JSON, or null when the body was not JSON */
+  readonly body: SkytapErrorBody | null;
+  readonly rawBody: string;
+
+  constructor(details: SkytapAPIErrorDetails) {
+    const detail = extractErrorMessage(details.body) || details.rawBody;
+    super(`API request failed: ${details.status} ${details.statusText}${detail ? ` - ${detail}` : ''}`);
+    this.name = 'SkytapAPIError';
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.endpoint = details.endpoint;
+    this.requestId = details.requestId;
+    this.body = details.body;
+    this.rawBody = details.rawBody;
+  }
+
+  /** Whether repeating the same request later could succeed */
+  get retryable(): boolean {
+    return this.status >= 500;
+  }
+
+  /** The human readable message Skytap sent, without the status prefix */
+  get detail(): string {
+    return extractErrorMessage(this.body) || this.rawBody || this.statusText;
+  }
+}
+
+/** 400/422 - the request payload was rejected */
+export class SkytapValidationError extends SkytapAPIError {
+  constructor(details: SkytapAPIErrorDetails) {
+    super(details);
+    this.name = 'SkytapValidationError';
+  }
+}
+
+/** 401/403 - credentials are missing, invalid or lack permission */
+export class SkytapUnauthorizedError extends SkytapAPIError {
+  constructor(details: SkytapAPIErrorDetails) {
+    super(details);
+    this.name = 'SkytapUnauthorizedError';
+  }
+}
+
+/** 404 - the resource does not exist or is not visible to this account */
+export class SkytapNotFoundError extends SkytapAPIError {
+  constructor(details: SkytapAPIErrorDetails) {
+    super(details);
+    this.name = 'SkytapNotFoundError';
+  }
+}
+
+/** 409/423 - the resource is busy (e.g. a copy or runstate change is in progress) */
+export class SkytapLockedError extends SkytapAPIError {
+  constructor(details: SkytapAPIErrorDetails) {
+    super(details);
+    this.name = 'SkytapLockedError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** 429 - too many requests */
+export class SkytapRateLimitedError extends SkytapAPIError {
+  constructor(details: SkytapAPIErrorDetails) {
+    super(details);
+    this.name = 'SkytapRateLimitedError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/** The account has hit a resource quota (RAM, storage, IPs, concurrent VMs...) */
+export class SkytapQuotaExceededError extends SkytapAPIError {
+  constructor(details: SkytapAPIErrorDetails) {
+    super(details);
+    this.name = 'SkytapQuotaExceededError';
+  }
+}
+
+/**
+ * A 2xx response whose body did not match the expected model, usually a sign
+ * that the Skytap API changed shape
+ */
+export class SkytapSchemaError extends Error {
+  readonly endpoint: string;
+  /** One entry per mismatched field, formatted as "path: problem" */
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    const shown = issues.slice(0, 3).join('; ');
+    const more = issues.length > 3 ? ` (+${issues.length - 3} more)` : '';
+    super(`Unexpected response from ${endpoint}: ${shown}${more}`);
+    this.name = 'SkytapSchemaError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A configuration that was still busy (copying, changing runstate, ...) when we stopped waiting for it
+ */
+export class SkytapBusyTimeoutError extends Error {
+  readonly configurationId: string;
+  readonly timeoutMs: number;
+
+  constructor(configurationId: string, timeoutMs: number) {
+    super(`Configuration ${configurationId} was still busy after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'SkytapBusyTimeoutError';
+    this.configurationId = configurationId;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Pull the most useful message out of a Skytap error body
+ */
+const extractErrorMessage = (body: SkytapErrorBody | null): string => {
+  if (!body) return '';
+  if (typeof body.error === 'string') return body.error;
+  if (typeof body.message === 'string') return body.message;
+  if (Array.isArray(body.errors)) return body.errors.join('; ');
+  if (body.errors && typeof body.errors === 'object') {
+    return Object.entries(body.errors)
+      .map(([field, messages]) => `${field}: ${Array.isArray(messages) ? messages.join(', ') : String(messages)}`)
+      .join('; ');
+  }
+  return '';
+};
+
+/**
+ * Build the typed error matching a failed Skytap response
+ */
+export const createSkytapError = async (response: Response, endpoint: string): Promise<SkytapAPIError> => {
+  const rawBody = await response.text().catch(() => '');
+  let body: SkytapErrorBody | null = null;
+  try {
+    const parsed = rawBody ? JSON.parse(rawBody) : null;
+    body = parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    body = null;
+  }
+
+  const details: SkytapAPIErrorDetails = {
+    status: response.status,
+    statusText: response.statusText,
+    endpoint,
+    requestId: response.headers.get('X-Request-Id') || response.headers.get('X-Skytap-Request-Id'),
+    body,
+    rawBody,
+  };
+
+  // Skytap reports quota violations with several status codes, so check the message first
+  if (/quota/i.test(extractErrorMessage(body) || rawBody)) {
+    return new SkytapQuotaExceededError(details);
+  }
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new SkytapValidationError(details);
+    case 401:
+    case 403:
+      return new SkytapUnauthorizedError(details);
+    case 404:
+      return new SkytapNotFoundError(details);
+    case 409:
+    case 423:
+      return new SkytapLockedError(details);
+    case 429:
+      return new SkytapRateLimitedError(details);
+    default:
+      return new SkytapAPIError(details);
+  }
+};
+
+/**
+ * Turn any thrown value into a message suitable for toasts and logs,
+ * with friendlier wording for the common Skytap failure modes
+ */
+export const describeSkytapError = (error: unknown, fallback = 'Unknown error'): string => {
+  if (error instanceof SkytapUnauthorizedError) {
+    return 'Skytap rejected the API credentials for the active account. Check its user and token on the proxy.';
+  }
+  if (error instanceof SkytapQuotaExceededError) {
+    return `Account quota exceeded: ${error.detail}`;
+  }
+  if (error instanceof SkytapLockedError) {
+    return `Resource is busy: ${error.detail}`;
+  }
+  if (error instanceof SkytapRateLimitedError) {
+    return 'Skytap rate limit reached. Wait a moment and try again.';
+  }
+  if (error instanceof SkytapSchemaError) {
+    return `Skytap returned data in an unexpected format. ${error.message}`;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
@@ -0,0 +1,486 @@
+// Skytap API Models
+// Shared TypeScript models for Skytap resources, each paired with a zod schema that
+// SkytapAPI uses to validate responses so API drift fails loudly instead of leaking undefined fields
+
+import { z } from "zod";
+
+/**
+ * Schema that validates a raw response body and produces T
+ */
+export type SkytapSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+/**
+ * Bind a schema to the interface it validates.
+ * The app builds without strictNullChecks, which makes z.infer mark every key optional,
+ * so the interfaces below are the source of truth and the schemas follow them.
+ */
+const model = <T>(schema: z.ZodTypeAny): SkytapSchema<T> => schema as SkytapSchema<T>;
+
+/** Skytap ids are strings in the v2 API, but some v1 endpoints return numbers */
+const id = z.union([z.string(), z.number()]).transform(String);
+
+// Unknown keys are kept on every object so pages can still read fields that aren't modelled yet
+
+export interface SkytapProject {
+  id: string;
+  name: string;
+  configuration_count: number;
+  template_count: number;
+  url?: string;
+  summary?: string;
+  auto_add_role_name?: string;
+  show_project_members?: boolean;
+  created_at?: string;
+  owner_name?: string;
+  owner_url?: string;
+  user_role?: string;
+  user_count?: number;
+  can_edit?: boolean;
+  asset_count?: number;
+}
+
+export const skytapProjectSchema = model<SkytapProject>(z.object({
+  id,
+  name: z.string(),
+  configuration_count: z.number(),
+  template_count: z.number(),
+  url: z.string().nullish(),
+  summary: z.string().nullish(),
+  auto_add_role_name: z.string().nullish(),
+  show_project_members: z.boolean().nullish(),
+  created_at: z.string().nullish(),
+  owner_name: z.string().nullish(),
+  owner_url: z.string().nullish(),
+  user_role: z.string().nullish(),
+  user_count: z.number().nullish(),
+  can_edit: z.boolean().nullish(),
+  asset_count: z.number().nullish(),
+}).passthrough());
+
+export interface SkytapIPAddress {
+  id: string;
+  address: string;
+  region: string;
+  nic_count: number;
+  connect_type: string;
+  dns_name: string | null;
+  nics: {
+    id: string;
+    deployed: boolean;
+  }[];
+}
+
+export const skytapIPAddressSchema = model<SkytapIPAddress>(z.object({
+  id,
+  address: z.string(),
+  region: z.string(),
+  nic_count: z.number(),
+  connect_type: z.string(),
+  dns_name: z.string().nullish(),
+  nics: z.array(z.object({
+    id,
+    deployed: z.boolean(),
+  }).passthrough()),
+}).passthrough());
+
+/**
+ * Public IP attached to a network interface
+ */
+export interface SkytapPublicIP {
+  id?: string;
+  address: string;
+}
+
+/**
+ * Network interface on a VM
+ */
+export interface SkytapNetworkInterface {
+  id: string;
+  ip?: string;
+  hostname?: string;
+  mac?: string;
+  nic_type?: string;
+  network_id?: string;
+  status?: string;
+  public_ips?: SkytapPublicIP[];
+}
+
+const networkInterfaceSchema = z.object({
+  id,
+  ip: z.string().nullish(),
+  hostname: z.string().nullish(),
+  mac: z.string().nullish(),
+  nic_type: z.string().nullish(),
+  network_id: id.nullish(),
+  status: z.string().nullish(),
+  public_ips: z.array(z.object({
+    id: id.nullish(),
+    address: z.string(),
+  }).passthrough()).nullish(),
+}).passthrough();
+
+export interface SkytapVMHardware {
+  cpus?: number;
+  ram?: number;
+  storage?: number;
+  /** Metered RAM in SVMs */
+  svms?: number;
+  guestOS?: string;
+  architecture?: string;
+}
+
+/**
+ * Virtual machine inside a configuration or template
+ */
+export interface SkytapVM {
+  id: string;
+  name: string;
+  runstate: string;
+  hardware?: SkytapVMHardware;
+  interfaces?: SkytapNetworkInterface[];
+  error?: string | boolean;
+}
+
+const vmSchema = z.object({
+  id,
+  name: z.string(),
+  runstate: z.string(),
+  hardware: z.object({
+    cpus: z.number().nullish(),
+    ram: z.number().nullish(),
+    storage: z.number().nullish(),
+    svms: z.number().nullish(),
+    guestOS: z.string().nullish(),
+    architecture: z.string().nullish(),
+  }).passthrough().nullish(),
+  interfaces: z.array(networkInterfaceSchema).nullish(),
+  error: z.union([z.string(), z.boolean()]).nullish(),
+}).passthrough();
+
+/**
+ * Skytap environment (called a configuration in the API)
+ */
+export interface SkytapConfiguration {
+  id: string;
+  name: string;
+  description?: string;
+  runstate: string;
+  vm_count: number;
+  storage: number;
+  /** Metered RAM in SVMs */
+  svms?: number;
+  region: string;
+  created_at?: string;
+  last_run?: string;
+  owner_name?: string;
+  owner_url?: string;
+  /** Idle timeout in seconds before the environment is suspended */
+  suspend_on_idle?: number;
+  suspend_type?: string;
+  /** When the environment is shut down regardless of activity, "yyyy/MM/dd HH:mm:ss" */
+  shutdown_at_time?: string;
+  auto_suspend_description?: string;
+  url?: string;
+  vms?: SkytapVM[];
+}
+
+export const skytapConfigurationSchema = model<SkytapConfiguration>(z.object({
+  id,
+  name: z.string(),
+  description: z.string().nullish(),
+  runstate: z.string(),
+  vm_count: z.number(),
+  storage: z.number(),
+  svms: z.number().nullish(),
+  region: z.string(),
+  created_at: z.string().nullish(),
+  last_run: z.string().nullish(),
+  owner_name: z.string().nullish(),
+  owner_url: z.string().nullish(),
+  suspend_on_idle: z.number().nullish(),
+  suspend_type: z.string().nullish(),
+  shutdown_at_time: z.string().nullish(),
+  auto_suspend_description: z.string().nullish(),
+  url: z.string().nullish(),
+  vms: z.array(vmSchema).nullish(),
+}).passthrough());
+
+/**
+ * Auto-suspend settings on a configuration. An empty suspend_type turns idle suspend off and
+ * null clears the other fields.
+ */
+export interface SkytapSuspendPolicyUpdate {
+  suspend_type?: string;
+  suspend_on_idle?: number | null;
+  shutdown_at_time?: string | null;
+}
+
+export interface SkytapTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  vm_count: number;
+  storage: number;
+  svms?: number;
+  region: string;
+  created_at?: string;
+  owner_name?: string;
+  owner_url?: string;
+  vms?: SkytapVM[];
+}
+
+export const skytapTemplateSchema = model<SkytapTemplate>(z.object({
+  id,
+  name: z.string(),
+  description: z.string().nullish(),
+  vm_count: z.number(),
+  storage: z.number(),
+  svms: z.number().nullish(),
+  region: z.string(),
+  created_at: z.string().nullish(),
+  owner_name: z.string().nullish(),
+  owner_url: z.string().nullish(),
+  vms: z.array(vmSchema).nullish(),
+}).passthrough());
+
+export interface SkytapLabel {
+  id: string;
+  text: string;
+  type: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export const skytapLabelSchema = model<SkytapLabel>(z.object({
+  id,
+  text: z.string(),
+  type: z.string(),
+  created_at: z.string().nullish(),
+  updated_at: z.string().nullish(),
+}).passthrough());
+
+/** A label to add: the category's name and the value within it, e.g. "Billing Category" / "Training" */
+export interface SkytapLabelAssignment {
+  label_category: string;
+  value: string;
+}
+
+export interface SkytapUser {
+  id: string;
+  url: string;
+  first_name: string;
+  last_name: string;
+  login_name: string;
+  email: string;
+  title: string;
+  deleted: boolean;
+  default_region: string;
+  can_add_resources: boolean;
+  activated: boolean;
+  last_login: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const skytapUserSchema = model<SkytapUser>(z.object({
+  id,
+  url: z.string(),
+  first_name: z.string(),
+  last_name: z.string(),
+  login_name: z.string(),
+  email: z.string(),
+  title: z.string().nullish(),
+  deleted: z.boolean(),
+  default_region: z.string(),
+  can_add_resources: z.boolean(),
+  activated: z.boolean(),
+  last_login: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+}).passthrough());
+
+/**
+ * Sharing portal attached to a configuration
+ */
+export interface SkytapPublishSet {
+  id: string;
+  name: string;
+  configuration_name: string;
+  desktops_url: string;
+  url: string;
+  publish_set_type: string;
+  /** Runtime limit in minutes, null when the portal never expires */
+  runtime_limit: number | null;
+  runtime_left_in_seconds: number | null;
+  auto_suspend_description?: string;
+  created_at?: string;
+  expiration_date: string | null;
+  expiration_date_tz: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  time_zone: string | null;
+  multiple_url: boolean;
+  password: string | null;
+  use_smart_client: boolean;
+  vms?: { vm_ref: string; access?: string; desktop_url?: string }[];
+}
+
+export const skytapPublishSetSchema = model<SkytapPublishSet>(z.object({
+  id,
+  name: z.string(),
+  configuration_name: z.string(),
+  desktops_url: z.string(),
+  url: z.string(),
+  publish_set_type: z.string(),
+  runtime_limit: z.number().nullish(),
+  runtime_left_in_seconds: z.number().nullish(),
+  auto_suspend_description: z.string().nullish(),
+  created_at: z.string().nullish(),
+  expiration_date: z.string().nullish(),
+  expiration_date_tz: z.string().nullish(),
+  start_time: z.string().nullish(),
+  end_time: z.string().nullish(),
+  time_zone: z.string().nullish(),
+  multiple_url: z.boolean().nullish(),
+  password: z.string().nullish(),
+  use_smart_client: z.boolean().nullish(),
+  vms: z.array(z.object({
+    vm_ref: z.string(),
+    access: z.string().nullish(),
+    desktop_url: z.string().nullish(),
+  }).passthrough()).nullish(),
+}).passthrough());
+
+/**
+ * Body accepted by POST /v2/configurations/{id}/publish_sets.json
+ */
+export interface SkytapPublishSetPayload {
+  name: string;
+  publish_set_type: 'single_url' | 'multiple_url';
+  runtime_limit?: number | null;
+  vms: { vm_ref: string; access: 'use' | 'run_and_use' | 'view_only' }[];
+  password?: string;
+  /** Daily window the portal can be used in, as "HH:mm:ss" in time_zone */
+  start_time?: string;
+  end_time?: string;
+  time_zone?: string;
+  /** "yyyy/MM/dd HH:mm:ss ±hh:mm" after which the portal stops working */
+  expiration_date?: string;
+}
+
+/**
+ * Fields that can be changed on an existing publish set
+ */
+export type SkytapPublishSetUpdate = Partial<Pick<SkytapPublishSet,
+  'name' | 'runtime_limit' | 'runtime_left_in_seconds' | 'expiration_date' | 'password'
+>>;
+
+export interface SkytapScheduleAction {
+  type: string;
+  /** Seconds after the schedule's start time */
+  offset: number;
+}
+
+/**
+ * Recurring run/suspend schedule for a configuration
+ */
+export interface SkytapSchedule {
+  id: string;
+  title: string;
+  configuration_id?: string;
+  actions?: SkytapScheduleAction[];
+  next_action_name?: string;
+  next_action_time?: string;
+  start_at?: string;
+  end_at?: string;
+  time_zone?: string;
+  recurring_days?: string[];
+  notify_user?: boolean;
+  delete_at_end?: boolean;
+}
+
+export const skytapScheduleSchema = model<SkytapSchedule>(z.object({
+  id,
+  title: z.string(),
+  configuration_id: id.nullish(),
+  actions: z.array(z.object({
+    type: z.string(),
+    offset: z.number(),
+  }).passthrough()).nullish(),
+  next_action_name: z.string().nullish(),
+  next_action_time: z.string().nullish(),
+  start_at: z.string().nullish(),
+  end_at: z.string().nullish(),
+  time_zone: z.string().nullish(),
+  recurring_days: z.array(z.string()).nullish(),
+  notify_user: z.boolean().nullish(),
+  delete_at_end: z.boolean().nullish(),
+}).passthrough());
+
+/**
+ * Body accepted by POST /v2/schedules.json
+ */
+export interface SkytapSchedulePayload {
+  title: string;
+  configuration_id: string;
+  actions: SkytapScheduleAction[];
+  next_action_name?: string;
+  next_action_time?: string;
+  start_at: string;
+  end_at?: string;
+  notify_user?: boolean;
+  delete_at_end?: boolean;
+  executions?: unknown[];
+  recurring_days?: string[];
+  time_zone: string;
+}
+
+/**
+ * Fields that can be changed on an existing schedule
+ */
+export type SkytapScheduleUpdate = Partial<Pick<SkytapSchedulePayload,
+  'title' | 'actions' | 'next_action_time' | 'start_at' | 'end_at' | 'recurring_days' | 'time_zone' | 'notify_user' | 'delete_at_end'
+>>;
+
+export interface SkytapReportPeriod {
+  period?: string;
+  start_date?: string;
+  end_date?: string;
+  total_usage?: number;
+}
+
+export interface SkytapReportGrouping {
+  key?: string;
+  name?: string;
+  periods?: SkytapReportPeriod[];
+}
+
+/**
+ * Usage report, polled until `ready` is true
+ */
+export interface SkytapReport {
+  id?: string;
+  ready: boolean;
+  results?: {
+    groupings?: SkytapReportGrouping[];
+  };
+}
+
+export const skytapReportSchema = model<SkytapReport>(z.object({
+  id: id.nullish(),
+  ready: z.boolean(),
+  results: z.object({
+    groupings: z.array(z.object({
+      key: z.string().nullish(),
+      name: z.string().nullish(),
+      periods: z.array(z.object({
+        period: z.string().nullish(),
+        start_date: z.string().nullish(),
+        end_date: z.string().nullish(),
+        total_usage: z.number().nullish(),
+      }).passthrough()).nullish(),
+    }).passthrough()).nullish(),
+  }).passthrough().nullish(),
+}).passthrough());
+
+export const skytapReportRequestSchema = model<{ id: string }>(z.object({ id }).passthrough());
@@ -0,0 +1,89 @@
+// Suspend Policy Tests
+// Reading policies off configurations, the update body that applies one, the diff shown before a
+// bulk change, and the per-project backups used to restore the previous settings
+
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  SuspendPolicy,
+  clearSuspendPolicyBackup,
+  describePolicy,
+  diffPolicies,
+  getSuspendPolicyBackup,
+  policyOf,
+  policyToUpdate,
+  saveSuspendPolicyBackup,
+} from "./suspend-policy";
+import { SkytapConfiguration } from "./skytap-schemas";
+
+const OFF: SuspendPolicy = { idleAction: 'off', idleMinutes: null, shutdownAt: null };
+const SUSPEND_HOURLY: SuspendPolicy = { idleAction: 'suspend', idleMinutes: 60, shutdownAt: null };
+
+describe("diffPolicies", () => {
+  it("returns no changes for equivalent policies", () => {
+    expect(diffPolicies(SUSPEND_HOURLY, { ...SUSPEND_HOURLY })).toEqual([]);
+    // Idle minutes left over from an earlier policy don't matter once idle suspend is off
+    expect(diffPolicies(OFF, { ...OFF, idleMinutes: 30 })).toEqual([]);
+  });
+
+  it("describes the idle and shutdown changes separately", () => {
+    expect(diffPolicies(OFF, { idleAction: 'shutdown', idleMinutes: 30, shutdownAt: '2026/03/13 18:00:00 -04:00' })).toEqual([
+      { setting: 'When idle', before: 'No idle suspend', after: 'Shut down after 30 min idle' },
+      { setting: 'Set shutdown', before: 'No set shutdown', after: 'Shut down at 2026/03/13 18:00:00 -04:00' },
+    ]);
+    expect(diffPolicies(SUSPEND_HOURLY, { ...SUSPEND_HOURLY, idleMinutes: 90 })).toEqual([
+      { setting: 'When idle', before: 'Suspend after 60 min idle', after: 'Suspend after 90 min idle' },
+    ]);
+  });
+});
+
+describe("policyOf and policyToUpdate", () => {
+  it("reads the policy off a configuration, in minutes", () => {
+    const configuration = { suspend_type: 'suspend', suspend_on_idle: 3600, shutdown_at_time: null } as unknown as SkytapConfiguration;
+    expect(policyOf(configuration)).toEqual(SUSPEND_HOURLY);
+    expect(describePolicy(policyOf(configuration))).toBe('Suspend after 60 min idle; No set shutdown');
+    expect(policyOf({ suspend_on_idle: 3600 } as unknown as SkytapConfiguration)).toEqual(OFF);
+  });
+
+  it("clears the idle action when turning idle suspend off", () => {
+    expect(policyToUpdate(OFF)).toEqual({ suspend_type: '', shutdown_at_time: null });
+    expect(policyToUpdate(SUSPEND_HOURLY)).toEqual({ suspend_type: 'suspend', suspend_on_idle: 3600, shutdown_at_time: null });
+  });
+});
+
+describe("suspend policy backups", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("keeps the first backup through later changes until it is cleared", () => {
+    // Apply, apply again: the second save sees the first change's policy, which isn't worth keeping
+    saveSuspendPolicyBackup('1001', [{ id: '2002', name: 'Seat 1', policy: OFF }]);
+    saveSuspendPolicyBackup('1001', [{ id: '2002', name: 'Seat 1', policy: SUSPEND_HOURLY }]);
+    saveSuspendPolicyBackup('1004', []);
+
+    expect(getSuspendPolicyBackup('1001')?.environments).toEqual([{ id: '2002', name: 'Seat 1', policy: OFF }]);
+    clearSuspendPolicyBackup('1001');
+    expect(getSuspendPolicyBackup('1001')).toBeNull();
+    expect(getSuspendPolicyBackup('1004')).not.toBeNull();
+
+    saveSuspendPolicyBackup('1001', [{ id: '2002', name: 'Seat 1', policy: SUSPEND_HOURLY }]);
+    expect(getSuspendPolicyBackup('1001')?.environments).toEqual([{ id: '2002', name: 'Seat 1', policy: SUSPEND_HOURLY }]);
+  });
+
+  it("adds environments the backup doesn't cover yet", () => {
+    const first = saveSuspendPolicyBackup('1001', [{ id: '2002', name: 'Seat 1', policy: OFF }]);
+    const second = saveSuspendPolicyBackup('1001', [
+      { id: '2002', name: 'Seat 1', policy: SUSPEND_HOURLY },
+      { id: '2003', name: 'Seat 2', policy: SUSPEND_HOURLY },
+    ]);
+
+    expect(second.savedAt).toBe(first.savedAt);
+    expect(second.environments).toEqual([
+      { id: '2002', name: 'Seat 1', policy: OFF },
+      { id: '2003', name: 'Seat 2', policy: SUSPEND_HOURLY },
+    ]);
+  });
+
+  it("ignores unreadable storage", () => {
+    localStorage.setItem('training.suspendPolicyBackups', '{not json');
+    expect(getSuspendPolicyBackup('1001')).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+// Suspend Policies
+// The idle and shutdown settings that stop an environment on its own, read off a configuration,
+// compared before and after a bulk change, and saved to localStorage so the previous settings of
+// a project's environments can be put back.
+
+import { SkytapConfiguration, SkytapSuspendPolicyUpdate } from "./skytap-schemas";
+
+const STORAGE_KEY = 'training.suspendPolicyBackups';
+
+export const IDLE_ACTIONS = {
+  off: 'Never suspend',
+  suspend: 'Suspend',
+  shutdown: 'Shut down',
+} as const;
+
+export type IdleAction = keyof typeof IDLE_ACTIONS;
+
+/**
+ * Skytap accepts idle timeouts from 5 minutes to a day
+ */
+export const MIN_IDLE_MINUTES = 5;
+export const MAX_IDLE_MINUTES = 24 * 60;
+
+export interface SuspendPolicy {
+  idleAction: IdleAction;
+  /** Minutes idle before the idle action; null when idle suspend is off */
+  idleMinutes: number | null;
+  /** "yyyy/MM/dd HH:mm:ss" with or without an offset, or null for no set shutdown */
+  shutdownAt: string | null;
+}
+
+export const policyOf = (configuration: SkytapConfiguration): SuspendPolicy => {
+  const idleAction: IdleAction = configuration.suspend_type === 'shutdown' ? 'shutdown'
+    : configuration.suspend_type === 'suspend' ? 'suspend' : 'off';
+  return {
+    idleAction,
+    idleMinutes: idleAction !== 'off' && configuration.suspend_on_idle ? Math.round(configuration.suspend_on_idle / 60) : null,
+    shutdownAt: configuration.shutdown_at_time || null,
+  };
+};
+
+/**
+ * Body that sets every field of the policy, clearing the ones it leaves out
+ */
+export const policyToUpdate = (policy: SuspendPolicy): SkytapSuspendPolicyUpdate =>
+  policy.idleAction === 'off'
+    ? { suspend_type: '', shutdown_at_time: policy.shutdownAt }
+    : { suspend_type: policy.idleAction, suspend_on_idle: (policy.idleMinutes ?? MIN_IDLE_MINUTES) * 60, shutdown_at_time: policy.shutdownAt };
+
+const describeIdle = (policy: SuspendPolicy) =>
+  policy.idleAction === 'off' ? 'No idle suspend' : `${IDLE_ACTIONS[policy.idleAction]} after ${policy.idleMinutes} min idle`;
+
+const describeShutdown = (policy: SuspendPolicy) =>
+  policy.shutdownAt ? `Shut down at ${policy.shutdownAt}` : 'No set shutdown';
+
+/**
+ * One line such as "Suspend after 120 min idle; No set shutdown"
+ */
+export const describePolicy = (policy: SuspendPolicy) => `${describeIdle(policy)}; ${describeShutdown(policy)}`;
+
+export interface PolicyChange {
+  setting: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * The settings that differ between two policies, worded for people
+ */
+export const diffPolicies = (before: SuspendPolicy, after: SuspendPolicy): PolicyChange[] => {
+  const changes: PolicyChange[] = [];
+  if (describeIdle(before) !== describeIdle(after)) {
+    changes.push({ setting: 'When idle', before: describeIdle(before), after: describeIdle(after) });
+  }
+  if (describeShutdown(before) !== describeShutdown(after)) {
+    changes.push({ setting: 'Set shutdown', before: describeShutdown(before), after: describeShutdown(after) });
+  }
+  return changes;
+};
+
+export interface SuspendPolicyBackup {
+  projectId: string;
+  savedAt: string;
+  environments: { id: string; name: string; policy: SuspendPolicy }[];
+}
+
+const readBackups = (): Record<string, SuspendPolicyBackup> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeBackups = (backups: Record<string, SuspendPolicyBackup>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(backups));
+  } catch {
+    // Storage full or disabled; the change still goes ahead without a restore point
+  }
+};
+
+export const getSuspendPolicyBackup = (projectId: string): SuspendPolicyBackup | null =>
+  readBackups()[projectId] ?? null;
+
+/**
+ * Remember the policies a project's environments had before a change. A backup not yet restored or
+ * cleared is kept, so repeated changes still restore the settings from before the first one; only
+ * environments it doesn't cover yet, such as seats added since, are added to it.
+ */
+export const saveSuspendPolicyBackup = (projectId: string, environments: SuspendPolicyBackup['environments']): SuspendPolicyBackup => {
+  const backups = readBackups();
+  const existing = backups[projectId];
+  const backup: SuspendPolicyBackup = existing
+    ? { ...existing, environments: [...existing.environments, ...environments.filter(env => !existing.environments.some(saved => saved.id === env.id))] }
+    : { projectId, savedAt: new Date().toISOString(), environments };
+  writeBackups({ ...backups, [projectId]: backup });
+  return backup;
+};
+
+export const clearSuspendPolicyBackup = (projectId: string) => {
+  const { [projectId]: _removed, ...rest } = readBackups();
+  writeBackups(rest);
+};
@@ -0,0 +1,86 @@
+// Time Zone Tests
+// Offsets across DST changes, wall-clock times around the gaps and repeats, Skytap timestamps, and
+// the mapping between IANA zones and the Rails names Skytap uses
+
+import { describe, expect, it } from "vitest";
+import {
+  formatInTimeZone,
+  formatOffset,
+  getTimeZoneOffset,
+  isKnownTimeZone,
+  resolveTimeZone,
+  shiftSkytapTime,
+  toSkytapTimeZone,
+  zonedTimeToInstant,
+} from "./time-zones";
+
+describe("getTimeZoneOffset", () => {
+  it("follows each zone's DST rules for the date", () => {
+    expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'Europe/London')).toBe(60);
+    expect(getTimeZoneOffset(new Date('2026-07-15T12:00:00Z'), 'Asia/Kolkata')).toBe(330);
+  });
+
+  it("accepts Rails names", () => {
+    expect(getTimeZoneOffset(new Date('2026-01-15T12:00:00Z'), 'Pacific Time (US & Canada)')).toBe(-480);
+  });
+});
+
+describe("zonedTimeToInstant", () => {
+  it("uses the offset in effect on that date", () => {
+    expect(zonedTimeToInstant('2026-03-06', '09:00', 'America/New_York').toISOString()).toBe('2026-03-06T14:00:00.000Z');
+    expect(zonedTimeToInstant('2026-03-09', '09:00', 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it("moves times skipped by spring-forward past the gap", () => {
+    // 02:30 doesn't exist in New York on 8 March 2026
+    expect(zonedTimeToInstant('2026-03-08', '02:30', 'America/New_York').toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(formatInTimeZone(zonedTimeToInstant('2026-03-08', '02:30', 'America/New_York'), 'America/New_York'))
+      .toBe('2026/03/08 03:30:00 -04:00');
+  });
+
+  it("resolves times repeated by fall-back to the first occurrence", () => {
+    expect(zonedTimeToInstant('2026-11-01', '01:30', 'America/New_York').toISOString()).toBe('2026-11-01T05:30:00.000Z');
+  });
+});
+
+describe("formatInTimeZone", () => {
+  it("writes the zone's wall-clock time with the offset in effect then", () => {
+    expect(formatInTimeZone(new Date('2026-10-24T08:00:00Z'), 'Europe/London')).toBe('2026/10/24 09:00:00 +01:00');
+    expect(formatInTimeZone(new Date('2026-10-26T08:00:00Z'), 'Europe/London')).toBe('2026/10/26 08:00:00 +00:00');
+    expect(formatOffset(-570)).toBe('-09:30');
+  });
+});
+
+describe("Rails zone names", () => {
+  it("maps IANA zones to the Rails names Skytap expects and back", () => {
+    expect(toSkytapTimeZone('America/Los_Angeles')).toBe('Pacific Time (US & Canada)');
+    expect(toSkytapTimeZone('Pacific Time (US & Canada)')).toBe('Pacific Time (US & Canada)');
+    expect(resolveTimeZone('Eastern Time (US & Canada)')).toBe('America/New_York');
+    expect(resolveTimeZone('Mumbai')).toBe('Asia/Kolkata');
+  });
+
+  it("passes other zones through unchanged", () => {
+    expect(toSkytapTimeZone('Asia/Tokyo')).toBe('Asia/Tokyo');
+    expect(resolveTimeZone('Tokyo')).toBe('Tokyo');
+    expect(isKnownTimeZone('Asia/Tokyo')).toBe(true);
+    expect(isKnownTimeZone('Tokyo')).toBe(false);
+  });
+});
+
+describe("shiftSkytapTime", () => {
+  it("works the offset out again when a shift crosses a DST change", () => {
+    expect(shiftSkytapTime('2026/03/06 09:00:00 -05:00', { days: 3 }, 'America/New_York')).toBe('2026/03/09 09:00:00 -04:00');
+    expect(shiftSkytapTime('2026/03/06 09:00 -05:00', { minutes: -30 }, 'Eastern Time (US & Canada)')).toBe('2026/03/06 08:30:00 -05:00');
+  });
+
+  it("keeps the original offset when the zone is unknown", () => {
+    expect(shiftSkytapTime('2026/03/06 23:30:00 +09:00', { minutes: 45 }, 'Tokyo')).toBe('2026/03/07 00:15:00 +09:00');
+    expect(shiftSkytapTime('2026/03/06 23:30', { days: 1 })).toBe('2026/03/07 23:30:00');
+  });
+
+  it("rejects timestamps it can't read", () => {
+    expect(() => shiftSkytapTime('March 6, 9am', { days: 1 })).toThrow('Unrecognized schedule time "March 6, 9am"');
+  });
+});
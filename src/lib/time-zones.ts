@@ -0,0 +1,148 @@
+// Skytap Time Zones
+// Zones are IANA identifiers ("America/New_York") so offsets follow each zone's DST rules for the
+// date in question. Skytap names zones the way Rails does ("Eastern Time (US & Canada)") and expects
+// timestamps as "yyyy/MM/dd HH:mm:ss ±hh:mm" in that zone
+
+/**
+ * Rails zone names the app has always offered, with the IANA zone each one stands for
+ */
+export const SKYTAP_TIME_ZONE_NAMES: Record<string, string> = {
+  'America/Chicago': 'Central Time (US & Canada)',
+  'America/New_York': 'Eastern Time (US & Canada)',
+  'Europe/London': 'London',
+  'America/Denver': 'Mountain Time (US & Canada)',
+  'Asia/Kolkata': 'Mumbai',
+  'America/Los_Angeles': 'Pacific Time (US & Canada)',
+  'Europe/Rome': 'Rome',
+  'Europe/Stockholm': 'Stockholm'
+};
+
+/** Zones listed first in pickers, by their familiar names */
+export const COMMON_TIME_ZONES = Object.keys(SKYTAP_TIME_ZONE_NAMES);
+
+/**
+ * Every IANA zone the browser knows, falling back to the common zones on older browsers
+ */
+export const getAllTimeZones = (): string[] => {
+  const supportedValuesOf = (Intl as { supportedValuesOf?: (key: 'timeZone') => string[] }).supportedValuesOf;
+  return supportedValuesOf ? supportedValuesOf('timeZone') : [...COMMON_TIME_ZONES];
+};
+
+/**
+ * Accept either an IANA zone or one of the Rails names older runs and presets were saved with
+ */
+export const resolveTimeZone = (timeZone: string): string =>
+  Object.entries(SKYTAP_TIME_ZONE_NAMES).find(([, name]) => name === timeZone)?.[0] ?? timeZone;
+
+/**
+ * Name to send Skytap in time_zone: the Rails name when there is one, otherwise the IANA zone
+ */
+export const toSkytapTimeZone = (timeZone: string): string =>
+  SKYTAP_TIME_ZONE_NAMES[resolveTimeZone(timeZone)] ?? timeZone;
+
+/**
+ * Label for pickers: the familiar name for common zones, the IANA zone otherwise
+ */
+export const timeZoneLabel = (timeZone: string): string =>
+  SKYTAP_TIME_ZONE_NAMES[timeZone] ?? timeZone;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const HALF_DAY_MS = 12 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock fields of an instant in a zone
+const getZonedParts = (instant: Date, timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(instant).map(({ type, value }) => [type, Number(value)]));
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+/**
+ * Minutes the zone is ahead of UTC at the given instant
+ */
+export const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, resolveTimeZone(timeZone));
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+};
+
+/**
+ * Offset as "±hh:mm"
+ */
+export const formatOffset = (offsetMinutes: number): string => {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+/**
+ * The instant a wall-clock date ("yyyy-MM-dd") and time ("HH:mm") occur in the zone. Times skipped by a
+ * spring-forward move past the gap; repeated fall-back times resolve to the first occurrence.
+ */
+export const zonedTimeToInstant = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  // Try the offsets in effect half a day either side; a candidate is right if its own offset matches
+  const candidates = [-HALF_DAY_MS, HALF_DAY_MS].map(shift => {
+    const offset = getTimeZoneOffset(new Date(wallClockAsUtc + shift), timeZone);
+    const instant = wallClockAsUtc - offset * 60000;
+    return { instant, valid: getTimeZoneOffset(new Date(instant), timeZone) === offset };
+  });
+  return new Date((candidates.find(candidate => candidate.valid) ?? candidates[0]).instant);
+};
+
+/**
+ * Format an instant for Skytap as the zone's wall-clock time, tagged with the offset in effect then
+ */
+export const formatInTimeZone = (instant: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, resolveTimeZone(timeZone));
+  return `${year}/${pad(month)}/${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)} ${formatOffset(getTimeZoneOffset(instant, timeZone))}`;
+};
+
+/**
+ * Whether the browser can work out offsets for a zone (Rails-only names such as "Tokyo" can't be)
+ */
+export const isKnownTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: resolveTimeZone(timeZone) });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const SKYTAP_TIME_PATTERN = /^(\d{4})\/(\d{2})\/(\d{2}) (\d{2}):(\d{2})(?::(\d{2}))?(?:\s*([+-]\d{2}:?\d{2}))?$/;
+
+/**
+ * Move a Skytap timestamp by wall-clock minutes and days. The offset is worked out again for the new
+ * date when the zone is known; otherwise the timestamp keeps the offset it had (or none).
+ */
+export const shiftSkytapTime = (value: string, shift: { minutes?: number; days?: number }, timeZone?: string): string => {
+  const match = SKYTAP_TIME_PATTERN.exec(value.trim());
+  if (!match) throw new Error(`Unrecognized schedule time "${value}"`);
+  const [, year, month, day, hour, minute, second = '00', offset] = match;
+  const shifted = new Date(
+    Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))
+    + ((shift.days ?? 0) * 24 * 60 + (shift.minutes ?? 0)) * 60000
+  );
+  const date = shifted.toISOString().slice(0, 10);
+  const time = shifted.toISOString().slice(11, 16);
+
+  if (timeZone && isKnownTimeZone(timeZone)) {
+    return formatInTimeZone(zonedTimeToInstant(date, time, timeZone), timeZone);
+  }
+  const wallClock = `${date.replace(/-/g, '/')} ${time}:${pad(shifted.getUTCSeconds())}`;
+  return offset ? `${wallClock} ${offset}` : wallClock;
+};
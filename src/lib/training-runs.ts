@@ -0,0 +1,167 @@
+// Training Run Records
+// Persists each training deployment run (copy -> rename -> add to project) to localStorage with a
+// per-copy status for every step, so a run interrupted by a refresh can be resumed where it stopped
+
+const STORAGE_KEY = 'training.runs';
+const MAX_STORED_RUNS = 20;
+
+/**
+ * Status of one step for one copy. "in_progress" left behind after a reload means the request
+ * was sent but its outcome is unknown.
+ */
+export type RunStepStatus = 'pending' | 'in_progress' | 'done' | 'failed';
+
+export type TrainingRunStatus = 'in_progress' | 'completed';
+
+/**
+ * One seat in the class: the copy made for it and how far it got
+ */
+export interface TrainingRunItem {
+  /** Position in the class, 0-based; seat 1 is index 0 */
+  index: number;
+  /** Name the copy should end up with, rendered from the run's naming template */
+  name: string;
+  /** Attendee this copy is assigned to, when the run has a roster */
+  student?: string;
+  copyId: string | null;
+  copy: RunStepStatus;
+  rename: RunStepStatus;
+  addToProject: RunStepStatus;
+  /** Last error seen for this seat */
+  error?: string;
+}
+
+export interface TrainingRun {
+  id: string;
+  projectId: string;
+  /** Credential profile the run was started with; null means the proxy default */
+  profileId: string | null;
+  masterEnvironmentId: string;
+  namePrefix: string;
+  namingTemplate: string;
+  /** Copies were added to a class that already had seats; later steps only touch these copies */
+  addingSeats?: boolean;
+  desiredCopies: number;
+  status: TrainingRunStatus;
+  createdAt: string;
+  updatedAt: string;
+  items: TrainingRunItem[];
+}
+
+export interface NewTrainingRun {
+  projectId: string;
+  profileId: string | null;
+  masterEnvironmentId: string;
+  namePrefix: string;
+  namingTemplate: string;
+  addingSeats?: boolean;
+  /** One entry per copy, with its final name already rendered */
+  seats: { name: string; student?: string }[];
+}
+
+export const isRunItemComplete = (item: TrainingRunItem) =>
+  item.copy === 'done' && item.rename === 'done' && item.addToProject === 'done';
+
+/**
+ * Steps finished across the whole run, out of three per copy
+ */
+export const countCompletedSteps = (run: TrainingRun) =>
+  run.items.reduce((total, item) =>
+    total + [item.copy, item.rename, item.addToProject].filter(status => status === 'done').length, 0);
+
+const readRuns = (): TrainingRun[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeRuns = (runs: TrainingRun[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(runs.slice(-MAX_STORED_RUNS)));
+  } catch {
+    // Storage can be full or blocked; the run still completes, it just can't be resumed
+  }
+};
+
+const updateRun = (runId: string, update: (run: TrainingRun) => TrainingRun): TrainingRun | null => {
+  let updated: TrainingRun | null = null;
+  writeRuns(readRuns().map(run => {
+    if (run.id !== runId) return run;
+    updated = { ...update(run), updatedAt: new Date().toISOString() };
+    return updated;
+  }));
+  return updated;
+};
+
+export function createTrainingRun({ seats, ...input }: NewTrainingRun): TrainingRun {
+  const now = new Date().toISOString();
+  const run: TrainingRun = {
+    ...input,
+    id: `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    desiredCopies: seats.length,
+    status: 'in_progress',
+    createdAt: now,
+    updatedAt: now,
+    items: seats.map(({ name, student }, index) => ({
+      index,
+      name,
+      student,
+      copyId: null,
+      copy: 'pending',
+      rename: 'pending',
+      addToProject: 'pending',
+    })),
+  };
+  writeRuns([...readRuns(), run]);
+  return run;
+}
+
+export function getTrainingRun(runId: string): TrainingRun | null {
+  return readRuns().find(run => run.id === runId) ?? null;
+}
+
+/**
+ * Most recent run that hasn't finished every step for every copy
+ */
+export function getUnfinishedTrainingRun(): TrainingRun | null {
+  const unfinished = readRuns().filter(run => run.status === 'in_progress');
+  return unfinished[unfinished.length - 1] ?? null;
+}
+
+/**
+ * Which attendee each copy in a project belongs to, across every stored run for that project
+ */
+export function getStudentAssignments(projectId: string): Map<string, string> {
+  const assignments = new Map<string, string>();
+  readRuns()
+    .filter(run => run.projectId === projectId)
+    .forEach(run => run.items.forEach(item => {
+      if (item.copyId && item.student) assignments.set(item.copyId, item.student);
+    }));
+  return assignments;
+}
+
+export function updateTrainingRunItem(runId: string, index: number, patch: Partial<Omit<TrainingRunItem, 'index'>>) {
+  return updateRun(runId, run => ({
+    ...run,
+    items: run.items.map(item => (item.index === index ? { ...item, ...patch } : item)),
+  }));
+}
+
+/**
+ * Mark the run completed once every copy has finished every step
+ */
+export function completeTrainingRunIfDone(runId: string) {
+  return updateRun(runId, run => ({
+    ...run,
+    status: run.items.every(isRunItemComplete) ? 'completed' : run.status,
+  }));
+}
+
+export function discardTrainingRun(runId: string) {
+  writeRuns(readRuns().filter(run => run.id !== runId));
+}
@@ -0,0 +1,73 @@
+// Training Scope Tests
+// Which configurations a step acts on: the copy step's copies read by ID, or the whole project
+
+import { describe, expect, it, vi } from "vitest";
+import { describeStepConfigurations, loadStepConfigurations, scopeInputs } from "./training-scope";
+import { SkytapAPIError, SkytapNotFoundError } from "./skytap-errors";
+import { StepInputs } from "./training-steps";
+
+interface Config {
+  id: string;
+  name: string;
+}
+
+const PROJECT: Config[] = [
+  { id: '2001', name: 'Training Master' },
+  { id: '2002', name: 'Seat 01' },
+  { id: '2003', name: 'Seat 02' },
+];
+
+const failure = (status: number, configId: string) =>
+  ({ status, statusText: 'Failed', endpoint: `/v2/configurations/${configId}`, requestId: null, body: null, rawBody: '' });
+
+const copiesInput = (ids: string[]): StepInputs => ({ copies: { ids, addedSeats: false, earlierSeats: 0 } });
+
+const loaders = (known: Config[] = PROJECT) => ({
+  project: vi.fn(async () => known),
+  configuration: vi.fn(async (configId: string) => {
+    const config = known.find(candidate => candidate.id === configId);
+    if (!config) throw new SkytapNotFoundError(failure(404, configId));
+    return config;
+  }),
+});
+
+describe("loadStepConfigurations", () => {
+  it("reads each copy by ID in seat order without listing the project", async () => {
+    const load = loaders();
+    const scoped = await loadStepConfigurations(copiesInput(['2003', '2002']), load);
+
+    expect(scoped.configurations.map(config => config.name)).toEqual(['Seat 02', 'Seat 01']);
+    expect(scoped.missingCopyIds).toEqual([]);
+    expect(load.project).not.toHaveBeenCalled();
+  });
+
+  it("reports copies Skytap no longer has and carries on with the rest", async () => {
+    const scoped = await loadStepConfigurations(copiesInput(['2002', '2099']), loaders());
+
+    expect(scoped.configurations.map(config => config.id)).toEqual(['2002']);
+    expect(scoped.missingCopyIds).toEqual(['2099']);
+    expect(describeStepConfigurations(scoped, copiesInput(['2002', '2099']))).toEqual([
+      'Working on the 1 copy from the copy step',
+      'Copy 2099 from the copy step no longer exists; skipping it',
+    ]);
+  });
+
+  it("fails when no copy is left, or a copy can't be read", async () => {
+    await expect(loadStepConfigurations(copiesInput(['2098', '2099']), loaders()))
+      .rejects.toThrow('None of the copies from the copy step exist any more');
+
+    const load = loaders();
+    load.configuration.mockRejectedValueOnce(new SkytapAPIError(failure(500, '2002')));
+    await expect(loadStepConfigurations(copiesInput(['2002', '2003']), load)).rejects.toBeInstanceOf(SkytapAPIError);
+  });
+
+  it("uses every configuration in the project when there are no copies", async () => {
+    const inputs = scopeInputs(copiesInput(['2002']), 'project');
+    const scoped = await loadStepConfigurations(inputs, loaders());
+
+    expect(scoped.configurations).toEqual(PROJECT);
+    expect(describeStepConfigurations(scoped, inputs)).toEqual(['Found 3 configuration(s) in project']);
+    await expect(loadStepConfigurations(undefined, loaders([])))
+      .rejects.toThrow('No configurations found in the specified project');
+  });
+});
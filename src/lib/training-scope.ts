@@ -0,0 +1,76 @@
+// Training Step Scope
+// Steps after the copy step act only on the copies it made, so environments already in the project
+// (an earlier class, or the seats before late registrants were added) keep their schedules,
+// settings and portals. Without copies to work from, or with the scope widened to the whole
+// project, a step covers every configuration in the project.
+
+import { runBulk } from "./bulk-runner";
+import { SkytapNotFoundError } from "./skytap-errors";
+import { StepInputs } from "./training-steps";
+
+/** 'copies' acts on the copies the copy step made, 'project' on every configuration in the project */
+export type StepScope = 'copies' | 'project';
+
+/**
+ * The inputs a step is handed under a scope; the whole project scope leaves out the copies
+ */
+export function scopeInputs(inputs: StepInputs, scope: StepScope): StepInputs {
+  return scope === 'project' ? { ...inputs, copies: undefined } : inputs;
+}
+
+export interface StepConfigurations<T> {
+  configurations: T[];
+  /** Copies from the copy step that Skytap no longer has, e.g. deleted since */
+  missingCopyIds: string[];
+}
+
+export interface StepConfigurationLoaders<T> {
+  /** Every configuration in the project */
+  project: () => Promise<T[]>;
+  /** One configuration by ID */
+  configuration: (configId: string) => Promise<T>;
+}
+
+const LOAD_CONCURRENCY = 5;
+
+/**
+ * The configurations a step acts on: the copies from the copy step in seat order, read by ID so a
+ * copy that never made it into the project is still covered, or every configuration in the project
+ * when there are no copies. Throws when that leaves nothing to act on.
+ */
+export async function loadStepConfigurations<T>(
+  inputs: StepInputs | undefined,
+  load: StepConfigurationLoaders<T>
+): Promise<StepConfigurations<T>> {
+  const copyIds = inputs?.copies?.ids;
+  if (!copyIds) {
+    const configurations = await load.project();
+    if (configurations.length === 0) {
+      throw new Error('No configurations found in the specified project');
+    }
+    return { configurations, missingCopyIds: [] };
+  }
+
+  const copyRun = await runBulk(copyIds, configId => load.configuration(configId), { concurrency: LOAD_CONCURRENCY });
+  const unreadable = copyRun.failed.find(({ error }) => !(error instanceof SkytapNotFoundError));
+  if (unreadable) throw unreadable.error;
+
+  const configurations = copyRun.succeeded.sort((a, b) => a.index - b.index).map(({ result }) => result);
+  if (configurations.length === 0) {
+    throw new Error('None of the copies from the copy step exist any more');
+  }
+  return { configurations, missingCopyIds: copyRun.failed.map(({ item }) => item) };
+}
+
+/**
+ * Log lines describing what a step is about to act on
+ */
+export function describeStepConfigurations({ configurations, missingCopyIds }: StepConfigurations<unknown>, inputs?: StepInputs): string[] {
+  if (!inputs?.copies) {
+    return [`Found ${configurations.length} configuration(s) in project`];
+  }
+  return [
+    `Working on the ${configurations.length} cop${configurations.length === 1 ? 'y' : 'ies'} from the copy step`,
+    ...missingCopyIds.map(configId => `Copy ${configId} from the copy step no longer exists; skipping it`),
+  ];
+}
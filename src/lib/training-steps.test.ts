@@ -0,0 +1,42 @@
+// Training Step Graph Tests
+// Checking a step list's requires edges, and the inputs completed steps hand to later ones
+
+import { describe, expect, it } from "vitest";
+import { TrainingStepSpec, collectStepInputs, validateStepGraph } from "./training-steps";
+
+const step = (id: string, edges: Partial<TrainingStepSpec> = {}): TrainingStepSpec =>
+  ({ id, title: id, description: '', ...edges });
+
+describe("validateStepGraph", () => {
+  it("accepts steps whose required inputs an earlier step produces", () => {
+    expect(validateStepGraph([
+      step('copy', { produces: ['copies'] }),
+      step('schedule', { requires: ['copies'], produces: ['classSchedule'] }),
+      step('urls', { uses: ['publicIps'] }),
+    ])).toEqual([]);
+  });
+
+  it("reports repeated ids and inputs nothing before the step produces", () => {
+    expect(validateStepGraph([
+      step('schedule', { requires: ['copies'] }),
+      step('copy', { produces: ['copies'] }),
+      step('copy'),
+    ])).toEqual([
+      'Step "schedule" requires copies, which no earlier step produces',
+      'Step "copy" is listed more than once',
+    ]);
+  });
+});
+
+describe("collectStepInputs", () => {
+  it("passes on only the declared outputs of completed steps", () => {
+    const steps = [step('copy', { produces: ['copies'] }), step('ips', { produces: ['publicIps'] })];
+    const copies = { ids: ['2002'], addedSeats: false, earlierSeats: 0 };
+    const inputs = collectStepInputs(steps, { copy: 'completed', ips: 'skipped' }, {
+      copy: { outputs: { copies, classSchedule: { timeZone: 'UTC' } } },
+      ips: { outputs: { publicIps: { '2002': ['10.0.0.1'] } } },
+    });
+
+    expect(inputs).toEqual({ copies });
+  });
+});
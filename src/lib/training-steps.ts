@@ -0,0 +1,126 @@
+// Training Step Graph
+// The wizard's steps declare the outputs they need and the outputs they produce. A step opens once
+// the steps producing its required inputs have run, optional steps can be skipped, and each step is
+// handed the outputs of the steps that ran before it instead of reading them out of raw results.
+
+export const COPY_STEP_ID = 'copy-environment';
+
+/**
+ * Outputs a step can produce for later steps, with the wording shown when a step is waiting on one
+ */
+export const STEP_OUTPUTS = {
+  copies: 'Copies of the master environment',
+  classSchedule: 'Class hours',
+  publicIps: 'Public IP addresses',
+} as const;
+
+export type StepOutputKey = keyof typeof STEP_OUTPUTS;
+
+/** The class hours the scheduler step reports; dates are "yyyy-MM-dd", times "HH:mm" */
+export interface ClassSchedule {
+  /** IANA zone */
+  timeZone: string;
+  startDate: string;
+  startTime: string;
+  endDate: string;
+  endTime: string;
+}
+
+/** The configurations the copy step made */
+export interface StepCopies {
+  /** Configuration IDs, in seat order */
+  ids: string[];
+  /** Seats added to a class already in the project */
+  addedSeats: boolean;
+  /** Seats of the class numbered before these copies, which later steps stagger after; 0 for a new class */
+  earlierSeats: number;
+}
+
+/** Public IP addresses attached to each configuration, by configuration ID */
+export type StepPublicIps = Record<string, string[]>;
+
+export interface StepOutputs {
+  copies: StepCopies;
+  classSchedule: ClassSchedule;
+  publicIps: StepPublicIps;
+}
+
+/** What a step receives: every output the steps that ran before it produced */
+export type StepInputs = Partial<StepOutputs>;
+
+export type StepStatus = 'pending' | 'completed' | 'skipped';
+
+/** What a step reports when it finishes; `success: false` leaves it open, `outputs` feed the steps after it */
+export interface StepCompletion {
+  success?: boolean;
+  outputs?: StepInputs;
+  [key: string]: unknown;
+}
+
+/**
+ * A step's place in the graph
+ */
+export interface TrainingStepSpec {
+  id: string;
+  title: string;
+  description: string;
+  /** Can be skipped; steps using its outputs then work without them */
+  optional?: boolean;
+  /** Outputs that must exist before the step opens */
+  requires?: StepOutputKey[];
+  /** Outputs the step reads when they exist */
+  uses?: StepOutputKey[];
+  produces?: StepOutputKey[];
+}
+
+/** The part of a step's onComplete results the graph reads */
+interface StepResults {
+  outputs?: StepInputs;
+}
+
+/**
+ * Outputs of the completed steps, later steps' outputs replacing earlier ones
+ */
+export function collectStepInputs(
+  steps: TrainingStepSpec[],
+  statuses: Record<string, StepStatus>,
+  stepResults: Record<string, unknown>,
+): StepInputs {
+  return steps.reduce<StepInputs>((inputs, step) => {
+    if (statuses[step.id] !== 'completed') return inputs;
+    const outputs = (stepResults[step.id] as StepResults | undefined)?.outputs ?? {};
+    // Only what the step declares, so one step can't quietly feed another
+    const declared = (step.produces ?? []).filter(key => outputs[key] !== undefined);
+    return { ...inputs, ...Object.fromEntries(declared.map(key => [key, outputs[key]])) };
+  }, {});
+}
+
+/**
+ * Required inputs a step is still waiting on
+ */
+export const missingInputs = (step: TrainingStepSpec, inputs: StepInputs): StepOutputKey[] =>
+  (step.requires ?? []).filter(key => inputs[key] === undefined);
+
+/**
+ * Whether every step has run or been skipped; required steps can't be skipped
+ */
+export const isSetupFinished = (steps: TrainingStepSpec[], statuses: Record<string, StepStatus>) =>
+  steps.every(step => statuses[step.id] === 'completed' || (step.optional && statuses[step.id] === 'skipped'));
+
+/**
+ * Problems with a list of steps: repeated ids, and required inputs no earlier step produces
+ */
+export function validateStepGraph(steps: TrainingStepSpec[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const produced = new Set<StepOutputKey>();
+  for (const step of steps) {
+    if (seen.has(step.id)) problems.push(`Step "${step.id}" is listed more than once`);
+    seen.add(step.id);
+    for (const key of step.requires ?? []) {
+      if (!produced.has(key)) problems.push(`Step "${step.id}" requires ${key}, which no earlier step produces`);
+    }
+    (step.produces ?? []).forEach(key => produced.add(key));
+  }
+  return problems;
+}
@@ -1,6 +1,7 @@
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, Trash2, Network, FileText, Users2, Calculator, BarChart3, Monitor } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 
 const utilities = [
@@ -54,7 +55,8 @@ const GeneralUtilities = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Dashboard
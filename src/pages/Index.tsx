@@ -4,6 +4,7 @@
 import { useNavigate } from "react-router-dom";
 import { GraduationCap, Users, Wrench } from "lucide-react";
 import { CategoryCard } from "@/components/CategoryCard";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 
 /**
  * Index Component
@@ -20,7 +21,8 @@ const Index = () => {
     <div className="min-h-screen bg-background">
       {/* Application header with branding */}
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <div>
             <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
               Skytap Management Console
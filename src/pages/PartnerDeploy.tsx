@@ -1,6 +1,7 @@
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, Copy, FileDown, ChevronDown, Download, Trash2, HelpCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -13,7 +14,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useState, useEffect } from "react";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI } from "@/lib/skytap-api";
+import { skytapAPI, BUSY_RETRY_POLICY, SkytapPublishSetPayload } from "@/lib/skytap-api";
 
 
 const configurationSchema = z.object({
@@ -144,15 +145,11 @@ const PartnerDeploy = () => {
     addLogMessage(`Environment State: ${environmentData.runstate}`, 'success');
 
     // Extract VM and interface information
-    const vms: SkytapVMRef[] = Array.isArray(environmentData.vms)
-      ? environmentData.vms.map((vm: any) => ({
-          id: String(vm.id ?? ''),
-          name: String(vm.name ?? ''),
-          interfaces: Array.isArray(vm.interfaces)
-            ? vm.interfaces.map((iface: any) => ({ id: String(iface.id ?? '') }))
-            : []
-        }))
-      : [];
+    const vms: SkytapVMRef[] = (environmentData.vms ?? []).map(vm => ({
+      id: vm.id,
+      name: vm.name,
+      interfaces: (vm.interfaces ?? []).map(iface => ({ id: iface.id }))
+    }));
     setEnvDetails({ id: String(environmentData.id ?? ''), name: String(environmentData.name ?? ''), vms });
 
     // Step 2: Add to Project (20-35%)
@@ -184,7 +181,13 @@ const PartnerDeploy = () => {
       
       if (iface) {
         addLogMessage(`Attaching IP${i + 1} to VM${i + 1}...`, 'info');
-        await skytapAPI.attachIpToInterface(String(environmentData.id), vm.id, iface, acquiredIPs[i]);
+        await skytapAPI.attachIpToInterface(String(environmentData.id), vm.id, iface, acquiredIPs[i], {
+          retry: {
+            ...BUSY_RETRY_POLICY,
+            onRetry: ({ status, attempt, delayMs }) =>
+              addLogMessage(`Environment busy (${status}), retrying IP${i + 1} attach in ${Math.round(delayMs / 1000)}s (attempt ${attempt})`, 'warning'),
+          },
+        });
         addLogMessage(`IP${i + 1} attached to VM${i + 1} successfully`, 'success');
       }
     }
@@ -192,7 +195,7 @@ const PartnerDeploy = () => {
 
     // Step 5: Create Portal (80-90%)
     addLogMessage(`Creating sharing portal for configuration ${environmentData.id}...`, 'info');
-    const payload = {
+    const payload: SkytapPublishSetPayload = {
       name: `Partner Portal - ${data.partnerName}`,
       runtime_limit: 1200, // 20 hours
       publish_set_type: 'single_url',
@@ -445,7 +448,8 @@ const PartnerDeploy = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/partner")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Partner Environments
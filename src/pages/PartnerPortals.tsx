@@ -1,6 +1,7 @@
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, Search, ExternalLink, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,37 +9,17 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI } from "@/lib/skytap-api";
-
-interface PublishSet {
-  id: string;
-  name: string;
-  configuration_name: string;
-  desktops_url: string;
-  runtime_left_in_seconds: number;
-  url: string;
-  publish_set_type: string;
-  runtime_limit: number;
-  auto_suspend_description: string;
-  created_at: string;
-  expiration_date: string | null;
-  expiration_date_tz: string | null;
-  start_time: string | null;
-  end_time: string | null;
-  time_zone: string | null;
-  multiple_url: boolean;
-  password: string | null;
-  use_smart_client: boolean;
-  configurationRunstate?: string;
-  configurationId?: string;
-}
+import { skytapQueries, useUpdatePublishSet } from "@/hooks/use-skytap-queries";
+import { SkytapPublishSet } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
 
 interface ConfigurationData {
   configurationId: string;
   configurationName: string;
   configurationRunstate: string;
-  publishSets: PublishSet[];
+  publishSets: SkytapPublishSet[];
   error?: string;
 }
 
@@ -50,6 +31,8 @@ interface SharingPortalsData {
 
 const PartnerPortals = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const updatePublishSet = useUpdatePublishSet();
   const [projectId, setProjectId] = useState("");
   const [sharingPortals, setSharingPortals] = useState<SharingPortalsData | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
@@ -58,7 +41,7 @@ const PartnerPortals = () => {
   const [selectedPortal, setSelectedPortal] = useState<{
     id: string;
     name: string;
-    runtime_left_in_seconds: number;
+    runtime_left_in_seconds: number | null;
     configurationId: string;
   } | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
@@ -78,7 +61,8 @@ const PartnerPortals = () => {
     }
   };
 
-  const formatRuntime = (seconds: number): string => {
+  const formatRuntime = (seconds: number | null): string => {
+    if (seconds === null) return 'No limit';
     const hours = Math.floor(seconds / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
     return `${hours}h ${minutes}m`;
@@ -100,34 +84,34 @@ const PartnerPortals = () => {
 
     try {
       // Step 1: Get all configurations for the project
-      const configurationsResponse = await skytapAPI.getProjectConfigurations(projectId.trim());
+      const configurationsResponse = await queryClient.fetchQuery(skytapQueries.projectConfigurations(projectId.trim()));
       const configurations = configurationsResponse;
 
       // Step 2: Get sharing portal details for each configuration
-      const sharingPortalsData: ConfigurationData[] = [];
-      
-      for (const config of configurations) {
-        try {
-          const publishSetsResponse = await skytapAPI.getPublishSets(config.id);
-          const publishSets = publishSetsResponse || [];
-          
-          sharingPortalsData.push({
-            configurationId: config.id,
-            configurationName: config.name,
-            configurationRunstate: config.runstate,
-            publishSets
-          });
-        } catch (error) {
-          // Handle individual configuration errors
-          sharingPortalsData.push({
-            configurationId: config.id,
-            configurationName: config.name,
-            configurationRunstate: config.runstate,
-            publishSets: [],
-            error: error instanceof Error ? error.message : 'Failed to load publish sets'
-          });
-        }
-      }
+      const portalsRun = await runBulk(configurations, async (config): Promise<ConfigurationData> => {
+        const publishSetsResponse = await queryClient.fetchQuery(skytapQueries.publishSets(config.id));
+        return {
+          configurationId: config.id,
+          configurationName: config.name,
+          configurationRunstate: config.runstate,
+          publishSets: publishSetsResponse || []
+        };
+      }, { concurrency: 5 });
+
+      // Individual configuration errors are shown inline rather than failing the lookup
+      const sharingPortalsData: ConfigurationData[] = new Array(configurations.length);
+      portalsRun.succeeded.forEach(({ index, result }) => {
+        sharingPortalsData[index] = result;
+      });
+      portalsRun.failed.forEach(({ item: config, index, error }) => {
+        sharingPortalsData[index] = {
+          configurationId: config.id,
+          configurationName: config.name,
+          configurationRunstate: config.runstate,
+          publishSets: [],
+          error: error.message || 'Failed to load publish sets'
+        };
+      });
 
       setSharingPortals({
         projectId: projectId.trim(),
@@ -167,7 +151,7 @@ const PartnerPortals = () => {
     publishSet.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
-  const handleManagePortal = (portal: PublishSet, configurationId: string) => {
+  const handleManagePortal = (portal: SkytapPublishSet, configurationId: string) => {
     setSelectedPortal({
       id: portal.id,
       name: portal.name,
@@ -205,14 +189,14 @@ const PartnerPortals = () => {
     setUpdatingRuntime(true);
 
     try {
-      await skytapAPI.updatePublishSet(
-        selectedPortal.configurationId,
-        selectedPortal.id,
-        { 
+      await updatePublishSet.mutateAsync({
+        configId: selectedPortal.configurationId,
+        publishSetId: selectedPortal.id,
+        payload: {
           runtime_limit: runtimeLimitMinutes,
           runtime_left_in_seconds: runtimeLeftInSeconds
         }
-      );
+      });
       
       toast({
         title: "Runtime Updated",
@@ -242,7 +226,8 @@ const PartnerPortals = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/partner")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Partner Environments
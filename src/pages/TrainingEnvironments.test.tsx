@@ -0,0 +1,804 @@
+// Training Wizard End-to-End Test
+// Drives TrainingEnvironments from project validation to CSV export against the mock Skytap API
+// and checks the exact calls each step makes, so refactors can't silently change a class delivery
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter } from "react-router-dom";
+import TrainingEnvironments from "./TrainingEnvironments";
+import { createTrainingRun, getTrainingRun, updateTrainingRunItem } from "@/lib/training-runs";
+import { DEFAULT_NAMING_TEMPLATE } from "@/lib/naming-template";
+import { listSchedulerPresets, saveSchedulerPreset } from "@/lib/scheduler-presets";
+import { simpleDayPlan } from "@/lib/schedule-timeline";
+import { SkytapTestServer, startSkytapTestServer } from "@/test/skytap-test-server";
+
+const PROJECT_ID = '1004';
+const MASTER_ID = '2001';
+
+let server: SkytapTestServer;
+
+beforeAll(async () => {
+  server = await startSkytapTestServer();
+});
+
+afterAll(async () => {
+  await server.close();
+});
+
+beforeEach(() => {
+  server.mock.reset();
+});
+
+const renderWizard = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={["/training"]}>
+        <TrainingEnvironments />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+};
+
+const requestsTo = (method: string, pattern: RegExp, since = 0) =>
+  server.mock.requests.slice(since).filter(request => request.method === method && pattern.test(request.path));
+
+const readBlob = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+type User = ReturnType<typeof userEvent.setup>;
+
+// Shared wizard steps; each test goes on from where these leave the page
+
+const openProject = async (user: User, projectId = PROJECT_ID) => {
+  await user.type(screen.getByLabelText("Project ID"), projectId);
+  await user.click(screen.getByRole("button", { name: "Validate Project" }));
+  await screen.findByLabelText("Master Environment ID");
+};
+
+const copyMaster = async (user: User, namePrefix: string, copies = 1) => {
+  await user.type(screen.getByLabelText("Master Environment ID"), MASTER_ID);
+  // Number fields clamp to 1 while empty, so set them in one change instead of typing
+  fireEvent.change(screen.getByLabelText("Desired Copies"), { target: { value: String(copies) } });
+  await user.type(screen.getByLabelText("Name Prefix"), namePrefix);
+  await user.click(screen.getByRole("button", { name: "Copy Environment" }));
+  expect(await screen.findByText("Copy Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+};
+
+// Results show before the project's configuration list is refreshed, so Next waits for the step to report
+const nextStep = async (user: User) => {
+  await waitFor(() => expect(screen.getByRole("button", { name: /Next Step/ })).toBeEnabled());
+  await user.click(screen.getByRole("button", { name: /Next Step/ }));
+};
+
+describe("Training environment wizard", () => {
+  it("copies, schedules, sets power policy, starts, shares, labels, attaches IPs and exports URLs for a class", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+
+    // Project validation
+    await openProject(user);
+    expect(screen.getByText("Old Workshop (empty)")).toBeInTheDocument();
+
+    // Step 1: copy the master twice
+    await copyMaster(user, "Wizard Class", 2);
+
+    const copyRequests = requestsTo('POST', /^\/configurations\.json$/);
+    expect(copyRequests.map(request => request.body)).toEqual([
+      { configuration_id: MASTER_ID },
+      { configuration_id: MASTER_ID },
+    ]);
+
+    // Seat order, which can differ from creation order once copies run in parallel
+    const copyIds = server.mock.state.configurations
+      .filter(config => config.name.startsWith("Wizard Class"))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(config => config.id);
+    expect(copyIds).toHaveLength(2);
+
+    // Copies are pipelined, so compare per copy rather than relying on request order
+    const renames = requestsTo('PUT', /^\/configurations\/\d+\.json$/).map(({ path, body }) => [path, body]);
+    expect(renames).toHaveLength(2);
+    expect(renames).toEqual(expect.arrayContaining([
+      [`/configurations/${copyIds[0]}.json`, { name: "Wizard Class - 01" }],
+      [`/configurations/${copyIds[1]}.json`, { name: "Wizard Class - 02" }],
+    ]));
+    const projectAdds = requestsTo('POST', /^\/projects\/.+\.json$/).map(({ path }) => path);
+    expect(projectAdds).toHaveLength(2);
+    expect(projectAdds).toEqual(expect.arrayContaining([
+      `/projects/${PROJECT_ID}/configurations/${copyIds[0]}.json`,
+      `/projects/${PROJECT_ID}/configurations/${copyIds[1]}.json`,
+    ]));
+    expect(server.mock.state.projectConfigurations[PROJECT_ID]).toEqual(expect.arrayContaining(copyIds));
+
+    // Each copy is polled until it is no longer busy before it is renamed
+    const requestIndex = (method: string, path: string) =>
+      server.mock.requests.findIndex(request => request.method === method && request.path === path);
+    copyIds.forEach(id => {
+      const readyCheck = requestIndex('GET', `/v2/configurations/${id}`);
+      expect(readyCheck).toBeGreaterThan(-1);
+      expect(readyCheck).toBeLessThan(requestIndex('PUT', `/configurations/${id}.json`));
+    });
+
+    await nextStep(user);
+
+    // Step 2: staggered schedulers
+    fireEvent.change(screen.getByLabelText("Stagger Minutes"), { target: { value: "15" } });
+    await user.type(screen.getByLabelText("Scheduler Title"), "Week 1");
+    await user.click(screen.getByRole("combobox", { name: "Time Zone" }));
+    await user.click(await screen.findByRole("option", { name: "Eastern Time (US & Canada)" }));
+    fireEvent.change(screen.getByLabelText("Start Date"), { target: { value: "2024-06-03" } });
+    fireEvent.change(screen.getByLabelText("End Date"), { target: { value: "2024-06-07" } });
+    fireEvent.change(screen.getByLabelText("End Time"), { target: { value: "17:00" } });
+    await user.click(screen.getByRole("checkbox", { name: "monday" }));
+    await user.click(screen.getByRole("checkbox", { name: "wednesday" }));
+    await user.click(screen.getByRole("button", { name: "Create Schedulers" }));
+
+    expect(await screen.findByText("Scheduler Results")).toBeInTheDocument();
+
+    // Start times are staggered in project order, which follows the order copies finished
+    const schedules = requestsTo('POST', /^\/v2\/schedules\.json$/)
+      .map(request => request.body)
+      .sort((a, b) => String(a.next_action_time).localeCompare(String(b.next_action_time)));
+    expect(schedules.map(schedule => schedule.next_action_time)).toEqual([
+      "2024/06/03 09:00:00 -04:00",
+      "2024/06/03 09:15:00 -04:00",
+    ]);
+    expect(schedules.map(schedule => [schedule.configuration_id, schedule.title])).toEqual(expect.arrayContaining([
+      [copyIds[0], "Week 1 - Wizard Class - 01"],
+      [copyIds[1], "Week 1 - Wizard Class - 02"],
+    ]));
+    schedules.forEach(schedule => {
+      expect(schedule).toMatchObject({
+        actions: [{ type: 'run', offset: 0 }, { type: 'suspend', offset: 8 * 3600 }],
+        end_at: "2024/06/07 17:00:00 -04:00",
+        recurring_days: ['MONDAY', 'WEDNESDAY'],
+        time_zone: "Eastern Time (US & Canada)",
+      });
+    });
+
+    await user.click(screen.getByRole("button", { name: /Next Step/ }));
+
+    // Step 3: disable auto-shutdown on every copy
+    await user.click(screen.getByRole("button", { name: "Disable Auto-Shutdown" }));
+    await waitFor(() => expect(screen.getAllByText("Auto-Shutdown is Disabled")).toHaveLength(2));
+
+    const autoshutdownUpdates = requestsTo('PUT', /^\/v2\/configurations\/\d+\.json$/).map(({ path, body }) => [path, body]);
+    expect(autoshutdownUpdates).toHaveLength(2);
+    expect(autoshutdownUpdates).toEqual(expect.arrayContaining([
+      [`/v2/configurations/${copyIds[0]}.json`, { suspend_type: "" }],
+      [`/v2/configurations/${copyIds[1]}.json`, { suspend_type: "" }],
+    ]));
+
+    // Start every copy for class, without a stagger
+    const startSince = server.mock.requests.length;
+    await user.clear(screen.getByLabelText("Seconds Between Environments"));
+    await user.type(screen.getByLabelText("Seconds Between Environments"), "0");
+    await user.click(screen.getByRole("button", { name: "Start Environments" }));
+    expect(await screen.findByText(/All 2 environment\(s\) are running/)).toBeInTheDocument();
+    expect(requestsTo('PUT', /^\/v2\/configurations\/\d+\.json$/, startSince).map(({ path, body }) => [path, body]))
+      .toEqual(expect.arrayContaining(copyIds.map(id => [`/v2/configurations/${id}.json`, { runstate: 'running' }])));
+    expect(server.mock.state.configurations.filter(config => copyIds.includes(config.id)).map(config => config.runstate))
+      .toEqual(['running', 'running']);
+
+    // Shut idle copies down after an hour and at the end of class, then put the old policy back
+    const policySince = server.mock.requests.length;
+    await user.click(screen.getByRole("combobox", { name: "When Idle" }));
+    await user.click(await screen.findByRole("option", { name: "Shut down" }));
+    await user.clear(screen.getByLabelText("Idle Minutes"));
+    await user.type(screen.getByLabelText("Idle Minutes"), "60");
+    await user.click(screen.getByLabelText("Also shut down at a set time"));
+    await user.click(screen.getByRole("button", { name: "Apply Policy" }));
+    expect(await screen.findByText(/Applied "Shut down after 60 min idle/)).toBeInTheDocument();
+    expect(screen.getAllByText("No idle suspend")).toHaveLength(2);
+    expect(requestsTo('PUT', /^\/v2\/configurations\/\d+\.json$/, policySince).map(({ body }) => body)).toEqual([
+      { suspend_type: 'shutdown', suspend_on_idle: 3600, shutdown_at_time: '2024/06/07 17:00:00 -04:00' },
+      { suspend_type: 'shutdown', suspend_on_idle: 3600, shutdown_at_time: '2024/06/07 17:00:00 -04:00' },
+    ]);
+
+    // A second change doesn't replace the backup, so Restore still goes back to the original policy
+    await user.clear(screen.getByLabelText("Idle Minutes"));
+    await user.type(screen.getByLabelText("Idle Minutes"), "90");
+    await user.click(screen.getByRole("button", { name: "Apply Policy" }));
+    expect(await screen.findByText(/Applied "Shut down after 90 min idle/)).toBeInTheDocument();
+
+    const restoreSince = server.mock.requests.length;
+    await user.click(screen.getByRole("button", { name: "Restore Previous Policy" }));
+    expect(await screen.findByText(/Restored the previous policy of 2 environment/)).toBeInTheDocument();
+    expect(requestsTo('PUT', /^\/v2\/configurations\/\d+\.json$/, restoreSince).map(({ body }) => body))
+      .toEqual([{ suspend_type: '', shutdown_at_time: null }, { suspend_type: '', shutdown_at_time: null }]);
+    expect(screen.getByRole("button", { name: "Restore Previous Policy" })).toBeDisabled();
+
+    await user.click(screen.getByRole("button", { name: /Next Step/ }));
+
+    // Step 4: a sharing portal per copy, open during the class hours set in step 2
+    expect(screen.getByLabelText("Available From")).toHaveValue("09:00");
+    await user.click(screen.getByRole("combobox", { name: "VM Access" }));
+    await user.click(await screen.findByRole("option", { name: "Use only" }));
+    await user.type(screen.getByLabelText("Runtime Limit (hours)"), "8");
+    await user.click(screen.getByRole("button", { name: "Create Portals" }));
+    expect(await screen.findByText("Portal Results")).toBeInTheDocument();
+
+    const portals = requestsTo('POST', /^\/v2\/configurations\/\d+\/publish_sets\.json$/);
+    expect(portals.map(({ path }) => path.split('/')[3]).sort()).toEqual([...copyIds].sort());
+    portals.forEach(({ body }) => {
+      expect(body).toMatchObject({
+        publish_set_type: 'single_url',
+        runtime_limit: 480,
+        start_time: "09:00:00",
+        end_time: "17:00:00",
+        time_zone: "Eastern Time (US & Canada)",
+        expiration_date: "2024/06/07 17:00:00 -04:00",
+      });
+      const vms = body.vms as { access: string }[];
+      expect(vms.length).toBeGreaterThan(0);
+      vms.forEach(vm => expect(vm.access).toBe('use'));
+    });
+
+    await nextStep(user);
+
+    // Step 5: label the copies for billing
+    await user.type(screen.getByLabelText("Label 1 Category"), "Billing Category");
+    await user.type(screen.getByLabelText("Label 1 Value"), "Training");
+    await user.click(screen.getByRole("button", { name: "Apply Labels" }));
+    expect(await screen.findByText("Label Results")).toBeInTheDocument();
+    expect(requestsTo('PUT', /^\/v2\/configurations\/\d+\/labels\.json$/).map(({ path, body }) => [path, body]))
+      .toEqual(expect.arrayContaining(copyIds.map(id => [
+        `/v2/configurations/${id}/labels.json`,
+        [{ label_category: "Billing Category", value: "Training" }],
+      ])));
+    expect(server.mock.state.labels[`configurations/${copyIds[0]}`]).toEqual([
+      expect.objectContaining({ type: "Billing Category", text: "Training" }),
+    ]);
+
+    await nextStep(user);
+
+    // Step 6: a public IP on each copy's first VM, in the copy's region
+    await user.click(screen.getByRole("button", { name: "Attach Public IPs" }));
+    expect(await screen.findByText("Public IP Results")).toBeInTheDocument();
+    await waitFor(() => expect(requestsTo('POST', /\/interfaces\/[^/]+\/ips\.json$/)).toHaveLength(2));
+    expect(requestsTo('POST', /^\/v2\/ips\/acquire\.json$/).map(({ body }) => body)).toEqual([{ region: "US-West" }, { region: "US-West" }]);
+    const publicIpOf = (id: string) => server.mock.state.configurations.find(config => config.id === id)!.vms![0].interfaces![0].public_ips![0].address;
+
+    await nextStep(user);
+
+    // Step 7: export the portal URLs, with the addresses the IP step attached
+    await user.click(screen.getByRole("button", { name: "Lookup URLs" }));
+    const table = await screen.findByRole("table");
+    expect(within(table).getByText("Wizard Class - 01")).toBeInTheDocument();
+
+    const createObjectURL = vi.fn((_blob: Blob) => "blob:skytap-urls");
+    URL.createObjectURL = createObjectURL;
+    // jsdom can't follow the download link
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    await user.click(screen.getByRole("button", { name: /Download CSV/ }));
+
+    expect(createObjectURL).toHaveBeenCalledTimes(1);
+    const [header, ...rows] = (await readBlob(createObjectURL.mock.calls[0][0])).split("\n");
+    expect(header).toBe("Configuration Name,Desktop URL,Public IPs");
+    expect(rows.sort()).toEqual([
+      `Wizard Class - 01,${server.mock.state.publishSets[copyIds[0]][0].desktops_url},${publicIpOf(copyIds[0])}`,
+      `Wizard Class - 02,${server.mock.state.publishSets[copyIds[1]][0].desktops_url},${publicIpOf(copyIds[1])}`,
+    ]);
+
+    expect(screen.getByRole("button", { name: /Complete Setup/ })).toBeEnabled();
+  });
+
+  it("names copies from a template and assigns them to the roster", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+
+    await openProject(user);
+
+    await user.type(screen.getByLabelText("Master Environment ID"), MASTER_ID);
+    fireEvent.change(screen.getByLabelText("Name Template"), { target: { value: "{student} ({index:03})" } });
+    fireEvent.change(screen.getByLabelText("Starting Seat Number"), { target: { value: "21" } });
+    fireEvent.change(screen.getByLabelText("Student Roster (optional)"), {
+      target: { value: 'name,email\n"Doe, Jane",jane@example.com\nAlex Kim,alex@example.com' },
+    });
+    expect(screen.getByLabelText("Desired Copies")).toHaveValue(2);
+    expect(screen.getByText('Names: "Doe, Jane (021)", "Alex Kim (022)"')).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Copy Environment" }));
+    expect(await screen.findByText("Copy Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+
+    const renames = requestsTo('PUT', /^\/configurations\/\d+\.json$/).map(({ body }) => body.name).sort();
+    expect(renames).toEqual(["Alex Kim (022)", "Doe, Jane (021)"]);
+    expect(screen.getAllByText("Student:")).toHaveLength(2);
+  });
+
+  it("adds seats after the existing ones and schedules only the new copies", async () => {
+    const user = userEvent.setup();
+
+    // The class already has two seats in the project, next to its master
+    await fetch(`/api/projects/${PROJECT_ID}/configurations/${MASTER_ID}.json`, { method: 'POST' });
+    const existingIds: string[] = [];
+    for (const seat of ["01", "02"]) {
+      const response = await fetch("/api/configurations.json", {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ configuration_id: MASTER_ID }),
+      });
+      const id = String((await response.json()).id);
+      await fetch(`/api/configurations/${id}.json`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: `Late Class - ${seat}` }),
+      });
+      await fetch(`/api/projects/${PROJECT_ID}/configurations/${id}.json`, { method: 'POST' });
+      existingIds.push(id);
+    }
+    const since = server.mock.requests.length;
+
+    renderWizard();
+    await openProject(user);
+    await user.type(screen.getByLabelText("Master Environment ID"), MASTER_ID);
+    await user.type(screen.getByLabelText("Name Prefix"), "Late Class");
+    await user.click(screen.getByRole("switch", { name: "Add seats to an existing class" }));
+    expect(await screen.findByText('Names: "Late Class - 03"')).toBeInTheDocument();
+    expect(screen.getByLabelText("Starting Seat Number")).toHaveValue(3);
+
+    await user.click(screen.getByRole("button", { name: "Copy Environment" }));
+    expect(await screen.findByText("Copy Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+
+    const renames = requestsTo('PUT', /^\/configurations\/\d+\.json$/, since);
+    expect(renames.map(({ body }) => body)).toEqual([{ name: "Late Class - 03" }]);
+    const newId = renames[0].path.match(/\d+/)[0];
+
+    await nextStep(user);
+    fireEvent.change(screen.getByLabelText("Stagger Minutes"), { target: { value: "15" } });
+    await user.type(screen.getByLabelText("Scheduler Title"), "Week 1");
+    await user.click(screen.getByRole("combobox", { name: "Time Zone" }));
+    await user.click(await screen.findByRole("option", { name: "Eastern Time (US & Canada)" }));
+    fireEvent.change(screen.getByLabelText("Start Date"), { target: { value: "2024-06-03" } });
+    fireEvent.change(screen.getByLabelText("End Date"), { target: { value: "2024-06-07" } });
+    fireEvent.change(screen.getByLabelText("End Time"), { target: { value: "17:00" } });
+    await user.click(screen.getByRole("checkbox", { name: "monday" }));
+    await user.click(screen.getByRole("button", { name: "Create Schedulers" }));
+    expect(await screen.findByText("Scheduler Results")).toBeInTheDocument();
+
+    // One scheduler, for the new seat, staggered after the two existing seats but not the master
+    expect(requestsTo('POST', /^\/v2\/schedules\.json$/, since).map(({ body }) => [body.configuration_id, body.next_action_time])).toEqual([
+      [newId, "2024/06/03 09:30:00 -04:00"],
+    ]);
+  });
+
+  it("loads a scheduler preset and previews times across a daylight saving change", async () => {
+    const user = userEvent.setup();
+    saveSchedulerPreset("Weekday mornings", {
+      staggerMinutes: 5,
+      timeZone: "America/New_York",
+      endTime: "17:00",
+      title: "Spring",
+      dayPlans: [simpleDayPlan("09:00", 8, { monday: true, friday: true })],
+      deleteAtEnd: false,
+      notifyUser: true,
+    });
+    renderWizard();
+
+    await openProject(user);
+    await copyMaster(user, "DST Class");
+    await nextStep(user);
+
+    await user.click(screen.getByRole("combobox", { name: "Preset" }));
+    await user.click(await screen.findByRole("option", { name: "Weekday mornings" }));
+    expect(screen.getByLabelText("Scheduler Title")).toHaveValue("Spring");
+    expect(screen.getByRole("checkbox", { name: "friday" })).toBeChecked();
+
+    // US clocks spring forward on March 10, between the first and last class day
+    fireEvent.change(screen.getByLabelText("Start Date"), { target: { value: "2024-03-04" } });
+    fireEvent.change(screen.getByLabelText("End Date"), { target: { value: "2024-03-15" } });
+    const since = server.mock.requests.length;
+    await user.click(screen.getByRole("button", { name: "Preview Schedule" }));
+
+    const preview = await screen.findByRole("table");
+    expect(within(preview).getByRole("row", { name: /DST Class - 01/ })).toHaveTextContent(
+      "DST Class - 01Mon, Fri2024/03/04 09:00:00 -05:00Run 09:00 → Suspend 17:002024/03/15 17:00:00 -04:00"
+    );
+    expect(screen.getByText(/Clocks change during this class/)).toBeInTheDocument();
+    expect(requestsTo('POST', /^\/v2\/schedules\.json$/, since)).toHaveLength(0);
+
+    await user.clear(screen.getByLabelText("Save Settings As"));
+    await user.type(screen.getByLabelText("Save Settings As"), "Spring class");
+    await user.click(screen.getByRole("button", { name: /Save Preset/ }));
+    expect(listSchedulerPresets().map(preset => preset.name)).toEqual(["Spring class", "Weekday mornings"]);
+  });
+
+  it("creates a schedule per day plan from the timeline, with a lunch break and a shorter Friday", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+
+    await openProject(user);
+    await copyMaster(user, "Lab Class");
+    await nextStep(user);
+
+    await user.type(screen.getByLabelText("Scheduler Title"), "Bootcamp");
+    await user.click(screen.getByRole("combobox", { name: "Time Zone" }));
+    await user.click(await screen.findByRole("option", { name: "Eastern Time (US & Canada)" }));
+    fireEvent.change(screen.getByLabelText("Start Date"), { target: { value: "2024-06-03" } });
+    fireEvent.change(screen.getByLabelText("End Date"), { target: { value: "2024-06-07" } });
+    fireEvent.change(screen.getByLabelText("End Time"), { target: { value: "17:00" } });
+
+    // Monday to Thursday: run, suspend for lunch, run, shut down at the end of the day
+    const weekdays = screen.getByRole("group", { name: "Day plan 1" });
+    for (const day of ["monday", "tuesday", "wednesday", "thursday"]) {
+      await user.click(within(weekdays).getByRole("checkbox", { name: day }));
+    }
+    fireEvent.change(within(weekdays).getByLabelText("Action 2 time"), { target: { value: "12:00" } });
+    await user.click(within(weekdays).getByRole("button", { name: "Add Action" }));
+    expect(within(weekdays).getByLabelText("Action 3 time")).toHaveValue("13:00");
+    await user.click(within(weekdays).getByRole("button", { name: "Add Action" }));
+    await user.click(within(weekdays).getByRole("combobox", { name: "Action 4" }));
+    await user.click(await screen.findByRole("option", { name: "Shut down" }));
+    fireEvent.change(within(weekdays).getByLabelText("Action 4 time"), { target: { value: "17:00" } });
+
+    // Friday ends at lunch with a power off
+    await user.click(screen.getByRole("button", { name: "Add Day Plan" }));
+    const friday = screen.getByRole("group", { name: "Day plan 2" });
+    await user.click(within(friday).getByRole("checkbox", { name: "friday" }));
+    await user.click(within(friday).getByRole("button", { name: "Remove action 4" }));
+    await user.click(within(friday).getByRole("button", { name: "Remove action 3" }));
+    await user.click(within(friday).getByRole("combobox", { name: "Action 2" }));
+    await user.click(await screen.findByRole("option", { name: "Power off" }));
+
+    await user.click(screen.getByRole("checkbox", { name: "Delete the environment when the schedule ends" }));
+    await user.click(screen.getByRole("checkbox", { name: "Email me when scheduled actions run" }));
+    const since = server.mock.requests.length;
+    await user.click(screen.getByRole("button", { name: "Create Schedulers" }));
+    expect(await screen.findByText("Scheduler Results")).toBeInTheDocument();
+
+    const schedules = requestsTo('POST', /^\/v2\/schedules\.json$/, since).map(({ body }) => body)
+      .sort((a, b) => String(a.title).localeCompare(String(b.title)));
+    expect(schedules).toEqual([
+      expect.objectContaining({
+        title: "Bootcamp - Lab Class - 01 (Fri)",
+        actions: [{ type: 'run', offset: 0 }, { type: 'poweroff', offset: 3 * 3600 }],
+        recurring_days: ['FRIDAY'],
+        start_at: "2024/06/07 09:00:00 -04:00",
+        delete_at_end: true,
+        notify_user: false,
+      }),
+      expect.objectContaining({
+        title: "Bootcamp - Lab Class - 01 (Mon, Tue, Wed, Thu)",
+        actions: [
+          { type: 'run', offset: 0 },
+          { type: 'suspend', offset: 3 * 3600 },
+          { type: 'run', offset: 4 * 3600 },
+          { type: 'shutdown', offset: 8 * 3600 },
+        ],
+        recurring_days: ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY'],
+        start_at: "2024/06/03 09:00:00 -04:00",
+        end_at: "2024/06/07 17:00:00 -04:00",
+        delete_at_end: true,
+        notify_user: false,
+      }),
+    ]);
+  });
+
+  it("previews a class teardown, then runs it and reports every action", async () => {
+    const user = userEvent.setup();
+    const seatIds = ['2002', '2003', '2004', '2005'];
+    const seatIps = server.mock.state.configurations
+      .filter(config => seatIds.includes(config.id))
+      .flatMap(config => config.vms.flatMap(vm => vm.interfaces.flatMap(nic => nic.public_ips.map(ip => ip.id))));
+    expect(seatIps.length).toBeGreaterThan(0);
+
+    renderWizard();
+    await openProject(user, "1001");
+    await user.click(await screen.findByRole("tab", { name: "Tear Down Class" }));
+    await user.click(screen.getByRole("button", { name: "Load Inventory" }));
+    expect(await screen.findByText("Training Master")).toBeInTheDocument();
+
+    // Keep the master, save each seat as a template before deleting it, and archive the project
+    await user.click(screen.getByRole("checkbox", { name: "Select Training Master" }));
+    await user.click(screen.getByLabelText("Save a template of each environment first"));
+    await user.click(screen.getByLabelText(/^Archive/));
+    const since = server.mock.requests.length;
+    await user.click(screen.getByRole("button", { name: "Preview Teardown" }));
+
+    const dryRun = screen.getByText("Dry Run").closest(".rounded-lg");
+    // 1 schedule, 4 portals, 4 templates, 4 deletes, the seats' IPs and the project
+    expect(within(dryRun as HTMLElement).getAllByRole("listitem")).toHaveLength(14 + seatIps.length);
+    expect(server.mock.requests.slice(since).filter(request => request.method !== 'GET')).toEqual([]);
+
+    await user.click(screen.getByRole("button", { name: "Run Teardown" }));
+    await user.click(within(screen.getByRole("alertdialog")).getByRole("button", { name: "Run Teardown" }));
+    expect(await screen.findByText("Teardown Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+
+    expect(requestsTo('DELETE', /^\/v2\/schedules\//, since).map(({ path }) => path)).toEqual(["/v2/schedules/4001.json"]);
+    expect(requestsTo('DELETE', /\/publish_sets\//, since)).toHaveLength(4);
+    expect(requestsTo('POST', /^\/templates\.json$/, since).map(({ body }) => body.configuration_id).sort()).toEqual(seatIds);
+    expect(requestsTo('DELETE', /^\/configurations\//, since).map(({ path }) => path).sort())
+      .toEqual(seatIds.map(id => `/configurations/${id}.json`));
+    expect(requestsTo('POST', /^\/v2\/ips\/.+\/release\.json$/, since).map(({ path }) => path.split('/')[3]).sort())
+      .toEqual([...seatIps].sort());
+    expect(requestsTo('PUT', /^\/projects\//, since).map(({ body }) => body.name)).toEqual(["[Archived] Spring Training Cohort"]);
+
+    // A seat is only deleted once its template is saved
+    seatIds.forEach(id => {
+      const saved = server.mock.requests.findIndex(request => request.path === '/templates.json' && request.body.configuration_id === id);
+      const deleted = server.mock.requests.findIndex(request => request.method === 'DELETE' && request.path === `/configurations/${id}.json`);
+      expect(saved).toBeGreaterThan(-1);
+      expect(saved).toBeLessThan(deleted);
+    });
+    expect(server.mock.state.configurations.map(config => config.id)).toContain('2001');
+    expect(screen.queryByText("failed")).not.toBeInTheDocument();
+  });
+
+  it("highlights a duplicate schedule, deletes it and shifts and extends the rest", async () => {
+    const user = userEvent.setup();
+    const original = server.mock.state.schedules.find(schedule => schedule.id === '4001')!;
+    server.mock.state.schedules.push(
+      { ...original, id: '4002', title: 'Spring Training - 02 (again)' },
+      { ...original, id: '4003', title: 'Spring Training - 03', configuration_id: '2004' },
+    );
+
+    renderWizard();
+    await openProject(user, "1001");
+    await user.click(await screen.findByRole("tab", { name: "Manage Schedules" }));
+    await user.click(screen.getByRole("button", { name: "Load Schedules" }));
+
+    const duplicateRow = (await screen.findByText("Spring Training - 02 (again)")).closest("tr") as HTMLElement;
+    expect(within(duplicateRow).getByText("Duplicate")).toBeInTheDocument();
+    expect(screen.getAllByText("Duplicate")).toHaveLength(1);
+
+    const since = server.mock.requests.length;
+    await user.click(screen.getByRole("button", { name: "Select Duplicates" }));
+    await user.click(screen.getByRole("button", { name: "Delete Selected" }));
+    await user.click(within(screen.getByRole("alertdialog")).getByRole("button", { name: "Delete Schedules" }));
+    await waitFor(() => expect(screen.queryByText("Spring Training - 02 (again)")).not.toBeInTheDocument());
+    expect(requestsTo('DELETE', /^\/v2\/schedules\//, since).map(({ path }) => path)).toEqual(["/v2/schedules/4002.json"]);
+
+    // Shift the remaining schedules half an hour later and keep them one more day
+    await user.click(screen.getByRole("checkbox", { name: "Select Spring Training - 02" }));
+    await user.click(screen.getByRole("checkbox", { name: "Select Spring Training - 03" }));
+    await user.type(screen.getByLabelText("Shift Start Times (minutes)"), "30");
+    await user.type(screen.getByLabelText("Extend End Date (days)"), "1");
+    await user.click(screen.getByRole("button", { name: "Apply to Selected" }));
+    await waitFor(() => expect(requestsTo('PUT', /^\/v2\/schedules\//, since)).toHaveLength(2));
+    requestsTo('PUT', /^\/v2\/schedules\//, since).forEach(({ body }) => {
+      expect(body).toEqual({ start_at: '2024/06/03 08:30:00 -07:00', end_at: '2024/06/08 17:00:00 -07:00' });
+    });
+    expect(server.mock.state.schedules.map(schedule => schedule.id).sort()).toEqual(['4001', '4003']);
+  });
+
+  it("opens steps once their inputs exist, skips optional ones and scopes steps to the copies made or the project", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+
+    // The project already holds the master and four seats from an earlier class
+    await openProject(user, "1001");
+    await user.type(screen.getByLabelText("Master Environment ID"), MASTER_ID);
+    await user.type(screen.getByLabelText("Name Prefix"), "Graph Class");
+
+    // Steps that act on the copies wait for the copy step
+    // The navigation comes before the open step's own heading
+    const stepCard = (title: string) => screen.getAllByRole("heading", { name: title, level: 3 })[0].closest("div.rounded-lg") as HTMLElement;
+    expect(within(stepCard("Create Portals")).getByText("Needs: Copies of the master environment")).toBeInTheDocument();
+    await user.click(stepCard("Create Portals"));
+    expect(screen.getByRole("button", { name: "Copy Environment" })).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Copy Environment" }));
+    expect(await screen.findByText("Copy Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+    const copyId = requestsTo('PUT', /^\/configurations\/\d+\.json$/)[0].path.match(/\d+/)[0];
+
+    // Jump straight to the portals, past the schedule and power steps
+    await waitFor(() => expect(within(stepCard("Create Portals")).getByText("Optional")).toBeInTheDocument());
+    await user.click(stepCard("Create Portals"));
+    expect(screen.getByText(/Portals are created only for the 1 copy from the copy step/)).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Create Portals" }));
+    expect(await screen.findByText("Portal Results")).toBeInTheDocument();
+    expect(requestsTo('POST', /^\/v2\/configurations\/\d+\/publish_sets\.json$/).map(({ path }) => path))
+      .toEqual([`/v2/configurations/${copyId}/publish_sets.json`]);
+
+    await nextStep(user);
+
+    // Widened to the whole project, the labels reach the master and the earlier seats too
+    expect(screen.getByText(/Only the 1 copy from the copy step are labelled/)).toBeInTheDocument();
+    await user.click(screen.getByRole("switch", { name: "Only the copies just created" }));
+    expect(screen.queryByText(/from the copy step are labelled/)).not.toBeInTheDocument();
+    await user.type(screen.getByLabelText("Label 1 Category"), "Billing Category");
+    await user.type(screen.getByLabelText("Label 1 Value"), "Training");
+    await user.click(screen.getByRole("button", { name: "Apply Labels" }));
+    await waitFor(() => expect(requestsTo('PUT', /\/labels\.json$/)).toHaveLength(6));
+    expect(requestsTo('PUT', /\/labels\.json$/).map(({ path }) => path.split('/')[3]).sort())
+      .toEqual(["2001", "2002", "2003", "2004", "2005", copyId].sort());
+    await user.click(screen.getByRole("switch", { name: "Only the copies just created" }));
+    await nextStep(user);
+    await user.click(screen.getByRole("button", { name: /Skip Step/ }));
+
+    // Setup finishes once the skipped steps are passed over too
+    await user.click(screen.getByRole("button", { name: "Lookup URLs" }));
+    expect(await screen.findByText("Sharing Portal URLs")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /Complete Setup/ })).toBeDisabled();
+    expect(within(stepCard("Attach Public IPs")).getByText("Skipped")).toBeInTheDocument();
+    for (const title of ["Create Schedulers", "Power Options"]) {
+      await user.click(stepCard(title));
+      await user.click(screen.getByRole("button", { name: /Skip Step/ }));
+      expect(within(stepCard(title)).getByText("Skipped")).toBeInTheDocument();
+    }
+    await user.click(stepCard("Lookup URLs"));
+    expect(screen.getByRole("button", { name: /Complete Setup/ })).toBeEnabled();
+  });
+
+  it("imports a class definition, runs every step it covers and exports it again", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+    // jsdom files can't be read as text, so paste the definitions instead of uploading them
+    const importDefinition = async (text: string) => {
+      fireEvent.change(screen.getByLabelText("Or paste a definition"), { target: { value: text } });
+      await user.click(screen.getByRole("button", { name: "Import Text" }));
+    };
+
+    // Problems are listed by path instead of failing partway through a class
+    await importDefinition('version: 1\nprojectId: 1004\ncopy:\n  masterEnvironmentId: 2001\n  copies: 0\n  namePrefix: Bad\n  colour: blue\n');
+    expect(await screen.findByText("The class definition has 2 problem(s)")).toBeInTheDocument();
+    expect(screen.getByText(/^copy\.copies: /)).toBeInTheDocument();
+    expect(screen.getByText(/^copy: Unrecognized key.*colour/)).toBeInTheDocument();
+
+    await importDefinition([
+      'version: 1',
+      'name: Spring Workshop',
+      'projectId: 1004',
+      'copy:',
+      '  masterEnvironmentId: 2001',
+      '  copies: 2',
+      '  namePrefix: Spring Workshop',
+      'schedule:',
+      '  title: Week 1',
+      '  timeZone: America/New_York',
+      '  startDate: 2024-06-03',
+      '  endDate: 2024-06-07',
+      '  endTime: "17:00"',
+      '  days:',
+      '    - days: [monday, wednesday]',
+      '      actions:',
+      '        - { type: run, time: "09:00" }',
+      '        - { type: shutdown, time: "17:00" }',
+      'power:',
+      '  idleAction: suspend',
+      '  idleMinutes: 60',
+    ].join("\n"));
+    expect(await screen.findByText("Old Workshop (empty)")).toBeInTheDocument();
+    expect(screen.getByLabelText("Project ID")).toHaveValue(PROJECT_ID);
+
+    await user.click(screen.getByRole("button", { name: "Run All Steps" }));
+    expect(await screen.findByText("All steps finished", { exact: false }, { timeout: 30_000 })).toBeInTheDocument();
+
+    const summary = screen.getByText("Run Summary").parentElement!;
+    const statusOf = (title: string) => within(summary).getByText(title).closest("tr")!;
+    for (const title of ["Copy Environment", "Create Schedulers", "Power Options", "Lookup URLs"]) {
+      expect(within(statusOf(title)).getByText("Succeeded")).toBeInTheDocument();
+    }
+    expect(within(statusOf("Create Portals")).getByText("Skipped")).toBeInTheDocument();
+
+    const copyIds = server.mock.state.configurations
+      .filter(config => config.name.startsWith("Spring Workshop"))
+      .map(config => config.id);
+    expect(copyIds).toHaveLength(2);
+    expect(requestsTo('POST', /^\/v2\/schedules\.json$/).map(({ body }) => body)).toEqual(expect.arrayContaining([
+      expect.objectContaining({
+        title: "Week 1 - Spring Workshop - 01",
+        recurring_days: ['MONDAY', 'WEDNESDAY'],
+        start_at: "2024/06/03 09:00:00 -04:00",
+      }),
+    ]));
+    copyIds.forEach(id => {
+      expect(server.mock.state.configurations.find(config => config.id === id)).toMatchObject({ suspend_type: 'suspend', suspend_on_idle: 3600 });
+    });
+    expect(requestsTo('POST', /publish_sets\.json$/)).toHaveLength(0);
+
+    // Exporting gives back the settings the steps ran with
+    const createObjectURL = vi.fn((_blob: Blob) => "blob:class-definition");
+    URL.createObjectURL = createObjectURL;
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+    await user.click(screen.getByRole("button", { name: /Export YAML/ }));
+    const exported = await readBlob(createObjectURL.mock.calls[0][0]);
+    expect(exported).toContain("name: Spring Workshop");
+    expect(exported).toContain("masterEnvironmentId: \"2001\"");
+    expect(exported).toContain("timeZone: America/New_York");
+    expect(exported).toContain("idleMinutes: 60");
+  });
+
+  it("runs all steps again after a run is stopped at the copy step", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+    fireEvent.change(screen.getByLabelText("Or paste a definition"), {
+      target: { value: 'version: 1\nprojectId: 1004\ncopy:\n  masterEnvironmentId: 2001\n  copies: 1\n  namePrefix: Retry Class\n' },
+    });
+    await user.click(screen.getByRole("button", { name: "Import Text" }));
+    expect(await screen.findByText("Old Workshop (empty)")).toBeInTheDocument();
+
+    // The copy step stays on screen after the first run stops, and the second run starts it again
+    for (const attempt of [1, 2]) {
+      await user.click(screen.getByRole("button", { name: "Run All Steps" }));
+      await waitFor(() => expect(requestsTo('POST', /^\/configurations\.json$/)).toHaveLength(attempt));
+      await user.click(screen.getByRole("button", { name: "Stop" }));
+      expect(await screen.findByText("Stopped by request", { exact: false })).toBeInTheDocument();
+      expect(await screen.findByText("Copy Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+    }
+  });
+
+  it("stops a run of all steps at a step whose form the definition leaves invalid", async () => {
+    const user = userEvent.setup();
+    renderWizard();
+    // The file is valid, but no Saturday falls between the dates, which only the scheduler step checks
+    fireEvent.change(screen.getByLabelText("Or paste a definition"), {
+      target: {
+        value: [
+          'version: 1',
+          'projectId: 1004',
+          'copy: { masterEnvironmentId: 2001, copies: 1, namePrefix: Weekday Class }',
+          'schedule:',
+          '  title: Week 1',
+          '  timeZone: America/New_York',
+          '  startDate: 2024-06-03',
+          '  endDate: 2024-06-07',
+          '  endTime: "17:00"',
+          '  days:',
+          '    - { days: [saturday], actions: [{ type: run, time: "09:00" }] }',
+        ].join("\n"),
+      },
+    });
+    await user.click(screen.getByRole("button", { name: "Import Text" }));
+    expect(await screen.findByText("Old Workshop (empty)")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Run All Steps" }));
+    expect(await screen.findByText("Stopped at a failed step", { exact: false }, { timeout: 30_000 })).toBeInTheDocument();
+
+    const summary = screen.getByText("Run Summary").parentElement!;
+    const schedulers = within(summary).getByText("Create Schedulers").closest("tr")!;
+    expect(within(schedulers).getByText("Failed")).toBeInTheDocument();
+    expect(within(schedulers).getByText(/Sat never falls between the start and end dates/)).toBeInTheDocument();
+    expect(requestsTo('POST', /^\/v2\/schedules\.json$/)).toHaveLength(0);
+  });
+
+  it("resumes an interrupted run and only finishes the remaining steps", async () => {
+    const user = userEvent.setup();
+
+    // A reload hit mid-run: seat 1 was copied and renamed, seat 2's copy request never answered
+    const copyResponse = await fetch("/api/configurations.json", {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ configuration_id: MASTER_ID }),
+    });
+    const existingCopyId = String((await copyResponse.json()).id);
+    const run = createTrainingRun({
+      projectId: PROJECT_ID,
+      profileId: null,
+      masterEnvironmentId: MASTER_ID,
+      namePrefix: "Resumed Class",
+      namingTemplate: DEFAULT_NAMING_TEMPLATE,
+      seats: [{ name: "Resumed Class - 01" }, { name: "Resumed Class - 02" }],
+    });
+    updateTrainingRunItem(run.id, 0, { copyId: existingCopyId, copy: 'done', rename: 'done' });
+    updateTrainingRunItem(run.id, 1, { copy: 'in_progress' });
+    const since = server.mock.requests.length;
+
+    renderWizard();
+    expect(await screen.findByText("Unfinished training run")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Resume Run" }));
+
+    expect(screen.getByLabelText("Name Prefix")).toHaveValue("Resumed Class");
+    await user.click(screen.getByRole("button", { name: "Resume Run" }));
+    expect(await screen.findByText("Copy Results", undefined, { timeout: 30_000 })).toBeInTheDocument();
+
+    expect(requestsTo('POST', /^\/configurations\.json$/, since)).toHaveLength(1);
+    const newCopyId = getTrainingRun(run.id).items[1].copyId;
+    expect(requestsTo('PUT', /^\/configurations\/\d+\.json$/, since).map(({ path, body }) => [path, body])).toEqual([
+      [`/configurations/${newCopyId}.json`, { name: "Resumed Class - 02" }],
+    ]);
+    expect(requestsTo('POST', /^\/projects\/.+\.json$/, since).map(({ path }) => path).sort()).toEqual([
+      `/projects/${PROJECT_ID}/configurations/${existingCopyId}.json`,
+      `/projects/${PROJECT_ID}/configurations/${newCopyId}.json`,
+    ]);
+    expect(getTrainingRun(run.id).status).toBe('completed');
+  });
+});
@@ -1,32 +1,39 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Copy, Calendar, Power, Link, FolderOpen } from "lucide-react";
+import { ArrowLeft, History, Hammer, Trash2, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "@/hooks/use-toast";
 import { skytapAPI } from "@/lib/skytap-api";
+import { SkytapNotFoundError, describeSkytapError } from "@/lib/skytap-errors";
+import { TrainingRun, discardTrainingRun, getUnfinishedTrainingRun, isRunItemComplete } from "@/lib/training-runs";
+import { COPY_STEP_ID, StepStatus, collectStepInputs, isSetupFinished, missingInputs } from "@/lib/training-steps";
+import { StepScope } from "@/lib/training-scope";
+import { CLASS_DEFINITION_VERSION, ClassDefinition, ClassDefinitionError, validateClassDefinition } from "@/lib/class-definition";
+import { useSkytapProfile } from "@/hooks/use-skytap-profile";
 
 // Import the individual tool components
-import CopyEnvironment from "./training/CopyEnvironment";
-import CreateSchedulers from "./training/CreateSchedulers";
-import PowerOptions from "./training/PowerOptions";
-import LookupUrls from "./training/LookupUrls";
+import { TRAINING_STEPS } from "./training/steps";
+import TeardownClass from "./training/TeardownClass";
+import ManageSchedules from "./training/ManageSchedules";
 
 // Import modular components
 import { StepNavigation } from "@/components/training/StepNavigation";
 import { ProjectValidation } from "@/components/training/ProjectValidation";
 import { StepContent } from "@/components/training/StepContent";
 import { StepNavigationButtons } from "@/components/training/StepNavigationButtons";
+import { ClassDefinitionPanel, RunAllEntry, RunAllState } from "@/components/training/ClassDefinitionPanel";
 
-interface Step {
-  id: string;
-  title: string;
-  description: string;
-  icon: React.ReactNode;
-  component: React.ComponentType<any>;
-  completed: boolean;
-}
+const describeStepResults = (results: { error?: string; cancelled?: boolean; message?: string; results?: unknown } | null): string => {
+  if (results?.error) return results.error;
+  if (results?.cancelled) return 'Cancelled';
+  if (results?.message) return results.message;
+  return Array.isArray(results?.results) ? `${results.results.length} result(s)` : '';
+};
 
 const TrainingEnvironments = () => {
   const navigate = useNavigate();
@@ -37,46 +44,30 @@ const TrainingEnvironments = () => {
   const [error, setError] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState(0);
   const [stepResults, setStepResults] = useState<Record<string, any>>({});
-  const [steps, setSteps] = useState<Step[]>([]);
-
-
-  const initialSteps: Step[] = [
-    {
-      id: "copy-environment",
-      title: "Copy Environment",
-      description: "Create multiple copies of a master environment with automated naming",
-      icon: <Copy className="h-6 w-6" />,
-      component: CopyEnvironment,
-      completed: false
-    },
-    {
-      id: "create-schedulers",
-      title: "Create Schedulers",
-      description: "Set up staggered schedulers for all environments",
-      icon: <Calendar className="h-6 w-6" />,
-      component: CreateSchedulers,
-      completed: false
-    },
-    {
-      id: "power-options",
-      title: "Power Options",
-      description: "Disable auto-shutdown to prevent unexpected suspensions",
-      icon: <Power className="h-6 w-6" />,
-      component: PowerOptions,
-      completed: false
-    },
-    {
-      id: "lookup-urls",
-      title: "Lookup URLs",
-      description: "Generate and export student access URLs",
-      icon: <Link className="h-6 w-6" />,
-      component: LookupUrls,
-      completed: false
-    }
-  ];
+  const [stepStatuses, setStepStatuses] = useState<Record<string, StepStatus>>({});
+  // Unfinished run found on load, offered for resuming, and the run the copy step should finish
+  const [pendingRun, setPendingRun] = useState<TrainingRun | null>(() => getUnfinishedTrainingRun());
+  const [resumeRun, setResumeRun] = useState<TrainingRun | null>(null);
+  // Build walks the setup steps; teardown cleans up a finished class
+  const [mode, setMode] = useState<'build' | 'teardown' | 'schedules'>('build');
+  const { selectProfile } = useSkytapProfile();
+  // What each step is handed: the outputs of the steps that have completed
+  const stepInputs = collectStepInputs(TRAINING_STEPS, stepStatuses, stepResults);
+  const [stepScope, setStepScope] = useState<StepScope>('copies');
+  // Imported class definition, and the run of all steps it drives. The ref lets completions
+  // reported by a step's in-flight handler see the run as it is now, not as it was when it started
+  const [classDefinition, setClassDefinition] = useState<ClassDefinition | null>(null);
+  const [runAll, setRunAllState] = useState<RunAllState | null>(null);
+  const runAllRef = useRef<RunAllState | null>(null);
+
+
+  const setRunAll = (run: RunAllState | null) => {
+    runAllRef.current = run;
+    setRunAllState(run);
+  };
 
-  const validateProject = async () => {
-    if (!projectId.trim()) {
+  const validateProject = async (id: string = projectId) => {
+    if (!id.trim()) {
       setError("Please enter a project ID");
       setProjectValid(false);
       return;
@@ -87,7 +78,7 @@ const TrainingEnvironments = () => {
 
     try {
       // Get project details to validate the project exists and get the name
-      const projectDetails = await skytapAPI.getProject(projectId.trim());
+      const projectDetails = await skytapAPI.getProject(id.trim());
       setProjectName(projectDetails.name);
       setProjectValid(true);
       toast({
@@ -95,8 +86,10 @@ const TrainingEnvironments = () => {
         description: `Project - ${projectDetails.name} has been validated and ready for training environment operations.`,
       });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to validate project';
-      setError(`Invalid project ID: ${errorMessage}`);
+      const errorMessage = err instanceof SkytapNotFoundError
+        ? `Project ${id.trim()} does not exist or is not visible to this account`
+        : describeSkytapError(err, 'Failed to validate project');
+      setError(err instanceof SkytapNotFoundError ? errorMessage : `Unable to validate project: ${errorMessage}`);
       setProjectValid(false);
       toast({
         title: "Project Validation Failed",
@@ -108,23 +101,146 @@ const TrainingEnvironments = () => {
     }
   };
 
+  const handleResumeRun = () => {
+    if (!pendingRun) return;
+    // Finish the run against the account it was started on
+    if (pendingRun.profileId && pendingRun.profileId !== skytapAPI.profile) {
+      selectProfile(pendingRun.profileId);
+    }
+    setProjectId(pendingRun.projectId);
+    setProjectName("");
+    setProjectValid(true);
+    setError(null);
+    setCurrentStep(0);
+    setMode('build');
+    setResumeRun(pendingRun);
+    setPendingRun(null);
+  };
+
+  const handleDiscardRun = () => {
+    if (!pendingRun) return;
+    discardTrainingRun(pendingRun.id);
+    setPendingRun(null);
+    toast({
+      title: "Run Discarded",
+      description: "Copies it already created were left in place",
+    });
+  };
+
+  const handleImportDefinition = (definition: ClassDefinition) => {
+    setClassDefinition(definition);
+    setRunAll(null);
+    setMode('build');
+    setCurrentStep(0);
+    setStepResults({});
+    setStepStatuses({});
+    if (definition.projectId !== projectId.trim() || !projectValid) {
+      setProjectId(definition.projectId);
+      setProjectName("");
+      setProjectValid(false);
+      setResumeRun(null);
+      validateProject(definition.projectId);
+    }
+  };
+
+  // Open the next step the definition covers, skipping the ones it leaves out
+  const advanceRunAll = (run: RunAllState, fromIndex: number) => {
+    const entries = [...run.entries];
+    for (let index = fromIndex; index < TRAINING_STEPS.length; index++) {
+      const step = TRAINING_STEPS[index];
+      if (!classDefinition || (step.inClassRun?.(classDefinition) ?? true)) {
+        setRunAll({ ...run, entries, stepId: step.id, stepStartedAt: Date.now() });
+        setCurrentStep(index);
+        return;
+      }
+      entries.push({ stepId: step.id, title: step.title, status: 'skipped', detail: 'Not in the class definition', durationMs: 0 });
+      setStepStatuses(prev => ({ ...prev, [step.id]: 'skipped' }));
+    }
+    setRunAll({ ...run, entries, status: 'finished', stepId: null });
+    toast({
+      title: "Class Set Up",
+      description: `Every step in ${classDefinition?.name ?? 'the class definition'} has run`,
+    });
+  };
+
+  const handleRunAll = () => {
+    if (!classDefinition || !projectValid) return;
+    setMode('build');
+    setStepResults({});
+    setStepStatuses({});
+    setStepScope('copies');
+    advanceRunAll({ status: 'running', stepId: null, stepStartedAt: Date.now(), entries: [] }, 0);
+  };
+
+  // Steps already under way finish on their own; the run just stops opening new ones
+  const handleStopRunAll = () => {
+    const run = runAllRef.current;
+    if (run?.status !== 'running') return;
+    setRunAll({ ...run, status: 'stopped', stepId: null });
+  };
+
+  // The definition to export: what each step last ran with, or the imported settings for steps not run yet
+  const buildClassDefinition = (): ClassDefinition => {
+    const copy = stepResults[COPY_STEP_ID]?.settings ?? classDefinition?.copy;
+    if (!copy) {
+      throw new ClassDefinitionError(['copy: Copy the master environment or import a class definition first']);
+    }
+    return validateClassDefinition({
+      version: CLASS_DEFINITION_VERSION,
+      name: classDefinition?.name ?? (projectName || undefined),
+      projectId: projectId.trim(),
+      copy,
+      schedule: stepResults["create-schedulers"]?.settings ?? classDefinition?.schedule,
+      power: stepResults["power-options"]?.settings ?? classDefinition?.power,
+      portals: stepResults["create-portals"]?.settings ?? classDefinition?.portals,
+    });
+  };
+
   const handleStepComplete = (stepId: string, results: any) => {
+    const run = runAllRef.current;
+    if (run?.status === 'running' && run.stepId === stepId) {
+      const failed = !results || results.success === false;
+      const entry: RunAllEntry = {
+        stepId,
+        title: TRAINING_STEPS.find(step => step.id === stepId)?.title ?? stepId,
+        status: failed ? 'failed' : 'succeeded',
+        detail: describeStepResults(results),
+        durationMs: Date.now() - run.stepStartedAt,
+      };
+      if (failed) {
+        setRunAll({ ...run, entries: [...run.entries, entry], status: 'failed', stepId: null });
+        toast({
+          title: "Run Stopped",
+          description: `${entry.title} failed: ${entry.detail}`,
+          variant: "destructive",
+        });
+      } else {
+        advanceRunAll({ ...run, entries: [...run.entries, entry] }, TRAINING_STEPS.findIndex(step => step.id === stepId) + 1);
+      }
+    }
+
     // Only mark as completed if the operation was successful
     if (results && results.success !== false) {
       setStepResults(prev => ({ ...prev, [stepId]: results }));
-      setSteps(prev => prev.map(step => 
-        step.id === stepId ? { ...step, completed: true } : step
-      ));
+      setStepStatuses(prev => ({ ...prev, [stepId]: 'completed' }));
       
       toast({
         title: "Step Completed",
-        description: `${steps.find(s => s.id === stepId)?.title} completed successfully`,
+        description: `${TRAINING_STEPS.find(s => s.id === stepId)?.title} completed successfully`,
       });
     }
   };
 
+  // Optional steps can be passed over; steps that use their outputs run without them
+  const handleSkipStep = () => {
+    const step = TRAINING_STEPS[currentStep];
+    if (!step?.optional || stepStatuses[step.id] === 'completed') return;
+    setStepStatuses(prev => ({ ...prev, [step.id]: 'skipped' }));
+    handleNextStep();
+  };
+
   const handleNextStep = () => {
-    if (currentStep < steps.length - 1) {
+    if (currentStep < TRAINING_STEPS.length - 1) {
       setCurrentStep(currentStep + 1);
     }
   };
@@ -136,16 +252,13 @@ const TrainingEnvironments = () => {
   };
 
   const handleStepClick = (stepIndex: number) => {
-    if (stepIndex <= currentStep || steps[stepIndex - 1]?.completed) {
+    if (runAll?.status === 'running') return;
+    // Any step whose required inputs exist can be opened, in any order
+    if (missingInputs(TRAINING_STEPS[stepIndex], stepInputs).length === 0) {
       setCurrentStep(stepIndex);
     }
   };
 
-  // Initialize steps state
-  useEffect(() => {
-    setSteps(initialSteps);
-  }, []);
-
   // Load project ID from sessionStorage on component mount
   useEffect(() => {
     const savedProjectId = sessionStorage.getItem('trainingProjectId');
@@ -163,13 +276,14 @@ const TrainingEnvironments = () => {
     }
   }, [projectId]);
 
-  const currentStepComponent = steps[currentStep]?.component;
-  const progress = ((currentStep + 1) / steps.length) * 100;
+  const finishedSteps = TRAINING_STEPS.filter(step => stepStatuses[step.id] === 'completed' || stepStatuses[step.id] === 'skipped').length;
+  const progress = (finishedSteps / TRAINING_STEPS.length) * 100;
 
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Home
@@ -183,6 +297,25 @@ const TrainingEnvironments = () => {
 
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-6xl mx-auto space-y-6">
+          {/* Offer to finish a run interrupted by a reload */}
+          {pendingRun && (
+            <Alert>
+              <History className="h-4 w-4" />
+              <AlertTitle>Unfinished training run</AlertTitle>
+              <AlertDescription className="space-y-3">
+                <p>
+                  "{pendingRun.namePrefix}" in project {pendingRun.projectId}, started{' '}
+                  {new Date(pendingRun.createdAt).toLocaleString()}:{' '}
+                  {pendingRun.items.filter(isRunItemComplete).length} of {pendingRun.desiredCopies} copies are fully set up.
+                </p>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleResumeRun}>Resume Run</Button>
+                  <Button size="sm" variant="outline" onClick={handleDiscardRun}>Discard</Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Project ID Configuration */}
           <ProjectValidation
             projectId={projectId}
@@ -195,17 +328,86 @@ const TrainingEnvironments = () => {
               setProjectValid(false);
               setError(null);
               setProjectName("");
+              setResumeRun(null);
             }}
-            onValidate={validateProject}
+            onValidate={() => validateProject()}
           />
 
-          {/* Progress Indicator */}
+          {/* Class definition import, export and run of all steps */}
+          {mode === 'build' && (
+            <ClassDefinitionPanel
+              definition={classDefinition}
+              runAll={runAll}
+              canRun={projectValid && !isValidating && classDefinition?.projectId === projectId.trim()}
+              onImport={handleImportDefinition}
+              buildDefinition={buildClassDefinition}
+              onRunAll={handleRunAll}
+              onStopRunAll={handleStopRunAll}
+            />
+          )}
+
           {projectValid && (
+            <Tabs value={mode} onValueChange={(value) => setMode(value as 'build' | 'teardown' | 'schedules')}>
+              <TabsList className="grid w-full max-w-xl grid-cols-3">
+                <TabsTrigger value="build" className="flex items-center gap-2">
+                  <Hammer className="h-4 w-4" />
+                  Build Class
+                </TabsTrigger>
+                <TabsTrigger value="teardown" className="flex items-center gap-2">
+                  <Trash2 className="h-4 w-4" />
+                  Tear Down Class
+                </TabsTrigger>
+                <TabsTrigger value="schedules" className="flex items-center gap-2">
+                  <CalendarClock className="h-4 w-4" />
+                  Manage Schedules
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {/* Class teardown */}
+          {projectValid && mode === 'teardown' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Trash2 className="h-6 w-6" />
+                  Tear Down Class
+                </CardTitle>
+                <CardDescription>
+                  Remove the schedules, sharing portals, environments and public IPs of a finished class, then archive or delete its project
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <TeardownClass projectId={projectId} projectName={projectName} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Schedule management */}
+          {projectValid && mode === 'schedules' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-6 w-6" />
+                  Manage Schedules
+                </CardTitle>
+                <CardDescription>
+                  Review the schedules on this project's environments, clean up duplicates and shift or extend them together
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ManageSchedules projectId={projectId} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Progress Indicator */}
+          {projectValid && mode === 'build' && (
             <Card>
               <CardHeader>
                 <CardTitle>Training Environment Setup Progress</CardTitle>
                 <CardDescription>
-                  Complete each step in sequence to set up your training environments
+                  Work through the steps in order, or open any step once the steps it depends on have run. Optional steps can be skipped
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -219,7 +421,9 @@ const TrainingEnvironments = () => {
 
                 {/* Step Navigation */}
                 <StepNavigation
-                  steps={steps}
+                  steps={TRAINING_STEPS}
+                  statuses={stepStatuses}
+                  inputs={stepInputs}
                   currentStep={currentStep}
                   projectValid={projectValid}
                   onStepClick={handleStepClick}
@@ -229,24 +433,32 @@ const TrainingEnvironments = () => {
           )}
 
           {/* Current Step Content */}
-          {projectValid && (
+          {projectValid && mode === 'build' && (
             <StepContent
               currentStep={currentStep}
-              steps={steps}
+              steps={TRAINING_STEPS}
               projectId={projectId}
               projectValid={projectValid}
-              stepResults={stepResults}
+              inputs={stepInputs}
+              scope={stepScope}
+              onScopeChange={setStepScope}
+              resumeRun={resumeRun}
+              classDefinition={classDefinition}
+              autoRun={runAll?.status === 'running' && runAll.stepId === TRAINING_STEPS[currentStep]?.id}
               onStepComplete={handleStepComplete}
             />
           )}
 
           {/* Navigation Buttons */}
-          {projectValid && (
+          {projectValid && mode === 'build' && (
             <StepNavigationButtons
               currentStep={currentStep}
-              steps={steps}
+              steps={TRAINING_STEPS}
+              statuses={stepStatuses}
+              setupFinished={isSetupFinished(TRAINING_STEPS, stepStatuses)}
               onPreviousStep={handlePreviousStep}
               onNextStep={handleNextStep}
+              onSkipStep={handleSkipStep}
             />
           )}
 
@@ -259,35 +471,16 @@ const TrainingEnvironments = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-                <div className="text-center space-y-2">
-                  <div className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center mx-auto text-sm font-bold">
-                    1
-                  </div>
-                  <h4 className="font-semibold">Copy Environment</h4>
-                  <p className="text-sm text-muted-foreground">Create multiple copies of master environment</p>
-                </div>
-                <div className="text-center space-y-2">
-                  <div className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center mx-auto text-sm font-bold">
-                    2
-                  </div>
-                  <h4 className="font-semibold">Create Schedulers</h4>
-                  <p className="text-sm text-muted-foreground">Set up staggered schedules for all environments</p>
-                </div>
-                <div className="text-center space-y-2">
-                  <div className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center mx-auto text-sm font-bold">
-                    3
-                  </div>
-                  <h4 className="font-semibold">Power Options</h4>
-                  <p className="text-sm text-muted-foreground">Disable auto-shutdown to prevent suspensions</p>
-                </div>
-                <div className="text-center space-y-2">
-                  <div className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center mx-auto text-sm font-bold">
-                    4
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {TRAINING_STEPS.map((step, index) => (
+                  <div key={step.id} className="text-center space-y-2">
+                    <div className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center mx-auto text-sm font-bold">
+                      {index + 1}
+                    </div>
+                    <h4 className="font-semibold">{step.title}{step.optional && <span className="font-normal text-muted-foreground"> (optional)</span>}</h4>
+                    <p className="text-sm text-muted-foreground">{step.description}</p>
                   </div>
-                  <h4 className="font-semibold">Lookup URLs</h4>
-                  <p className="text-sm text-muted-foreground">Generate and export student access URLs</p>
-                </div>
+                ))}
               </div>
             </CardContent>
           </Card>
@@ -0,0 +1,271 @@
+import React, { useState } from "react";
+import { Tag, Plus, Trash2, CheckCircle, XCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { cachedConfigurationLoaders } from "@/hooks/use-skytap-queries";
+import { skytapAPI } from "@/lib/skytap-api";
+import { SkytapLabelAssignment } from "@/lib/skytap-schemas";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeStepConfigurations, loadStepConfigurations } from "@/lib/training-scope";
+import { StepCompletion, StepInputs } from "@/lib/training-steps";
+import { describeSkytapError } from "@/lib/skytap-errors";
+
+interface LabelResult {
+  configurationId: string;
+  configurationName: string;
+  result: 'labelled' | 'failed';
+  error?: string;
+}
+
+interface ApplyLabelsProps {
+  projectId: string;
+  onComplete: (results: StepCompletion) => void;
+  /** Outputs of the steps that ran before this one */
+  inputs?: StepInputs;
+}
+
+const LABEL_CONCURRENCY = 5;
+
+const ApplyLabels: React.FC<ApplyLabelsProps> = ({ projectId, onComplete, inputs }) => {
+  const queryClient = useQueryClient();
+  const [labels, setLabels] = useState<SkytapLabelAssignment[]>([{ label_category: '', value: '' }]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [results, setResults] = useState<LabelResult[]>([]);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const copies = inputs?.copies;
+
+  const addLog = (message: string) => {
+    setLogs(prev => [...prev, message]);
+  };
+
+  const updateLabel = (index: number, field: keyof SkytapLabelAssignment, value: string) => {
+    setLabels(prev => prev.map((label, i) => (i === index ? { ...label, [field]: value } : label)));
+  };
+
+  const handleApplyLabels = async () => {
+    const toApply = labels
+      .map(label => ({ label_category: label.label_category.trim(), value: label.value.trim() }))
+      .filter(label => label.label_category || label.value);
+    if (toApply.length === 0 || toApply.some(label => !label.label_category || !label.value)) {
+      setError('Every label needs a category and a value');
+      return;
+    }
+
+    setIsApplying(true);
+    setError(null);
+    setResults([]);
+    setLogs([]);
+
+    try {
+      const scoped = await loadStepConfigurations(inputs, cachedConfigurationLoaders(queryClient, projectId));
+      describeStepConfigurations(scoped, inputs).forEach(addLog);
+      const { configurations } = scoped;
+      addLog(`Labelling ${configurations.length} configuration(s) with ${toApply.map(label => `${label.label_category}: ${label.value}`).join(', ')}`);
+
+      const labelRun = await runBulk(configurations, async (config) => {
+        await skytapAPI.addConfigurationLabels(config.id, toApply);
+      }, {
+        concurrency: LABEL_CONCURRENCY,
+        onItemComplete: (outcome) => {
+          const name = outcome.item.name;
+          if (outcome.status === 'failed') {
+            const message = describeSkytapError(outcome.error, 'Failed to add labels');
+            addLog(`Failed to label ${name}: ${message}`);
+            setResults(prev => [...prev, { configurationId: outcome.item.id, configurationName: name, result: 'failed', error: message }]);
+          } else if (outcome.status === 'succeeded') {
+            addLog(`Labelled ${name}`);
+            setResults(prev => [...prev, { configurationId: outcome.item.id, configurationName: name, result: 'labelled' }]);
+          }
+        },
+      });
+
+      const success = labelRun.failed.length === 0;
+      addLog(`Labelling completed: ${labelRun.succeeded.length} labelled, ${labelRun.failed.length} failed`);
+      if (!success) {
+        setError(`Failed to label ${labelRun.failed.length} environment(s); see the log for details`);
+      }
+
+      onComplete({
+        success,
+        results: labelRun.succeeded.map(({ item }) => item.id),
+        message: `Labelled ${labelRun.succeeded.length} of ${configurations.length} environment(s)`,
+        labels: toApply,
+        logs: logs
+      });
+
+      toast({
+        title: success ? "Labels Applied" : "Some Labels Failed",
+        description: `Labelled ${labelRun.succeeded.length} of ${configurations.length} environment(s)`,
+        variant: success ? undefined : "destructive",
+      });
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to apply labels');
+      setError(errorMessage);
+      addLog(`Labelling failed: ${errorMessage}`);
+      onComplete({ success: false, error: errorMessage, logs: logs });
+      toast({
+        title: "Labelling Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {copies && (
+        <Alert>
+          <AlertDescription>
+            Only the {copies.ids.length} {copies.addedSeats ? 'new ' : ''}cop{copies.ids.length === 1 ? 'y' : 'ies'} from the copy step are labelled.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-3">
+        {labels.map((label, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor={`labelCategory${index}`}>Label {index + 1} Category</Label>
+              <Input
+                id={`labelCategory${index}`}
+                value={label.label_category}
+                onChange={(e) => updateLabel(index, 'label_category', e.target.value)}
+                placeholder="e.g. Billing Category"
+                disabled={isApplying}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`labelValue${index}`}>Label {index + 1} Value</Label>
+              <Input
+                id={`labelValue${index}`}
+                value={label.value}
+                onChange={(e) => updateLabel(index, 'value', e.target.value)}
+                placeholder="e.g. Training"
+                disabled={isApplying}
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="icon"
+              aria-label={`Remove label ${index + 1}`}
+              onClick={() => setLabels(prev => prev.filter((_, i) => i !== index))}
+              disabled={isApplying || labels.length === 1}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setLabels(prev => [...prev, { label_category: '', value: '' }])}
+          disabled={isApplying}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Label
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Categories must already exist in Skytap. A label replaces the value an environment already has in its category.
+        </p>
+      </div>
+
+      <Button
+        onClick={handleApplyLabels}
+        disabled={isApplying || !projectId}
+        className="w-full"
+      >
+        <Tag className="h-4 w-4 mr-2" />
+        {isApplying ? "Applying..." : "Apply Labels"}
+      </Button>
+
+      {logs.length > 0 && (
+        <Card>
+          <Collapsible open={isLogsOpen} onOpenChange={setIsLogsOpen}>
+            <CollapsibleTrigger asChild>
+              <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">Labelling Log</CardTitle>
+                    <CardDescription>
+                      Real-time log of the labelling process
+                    </CardDescription>
+                  </div>
+                  {isLogsOpen ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </div>
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <div className="bg-muted rounded-md p-4 font-mono text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {logs.map((log, index) => (
+                    <div key={index} className="text-foreground">
+                      {log}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </CollapsibleContent>
+          </Collapsible>
+        </Card>
+      )}
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Label Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Environment</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.configurationId}>
+                      <TableCell className="font-medium">{result.configurationName}</TableCell>
+                      <TableCell>
+                        {result.result === 'labelled' ? (
+                          <Badge variant="secondary" className="gap-1"><CheckCircle className="h-3 w-3" />Labelled</Badge>
+                        ) : (
+                          <Badge variant="destructive" className="gap-1" title={result.error}><XCircle className="h-3 w-3" />Failed</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default ApplyLabels;
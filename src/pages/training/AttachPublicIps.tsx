@@ -0,0 +1,259 @@
+import React, { useState } from "react";
+import { Globe, CheckCircle, XCircle, MinusCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { cachedConfigurationLoaders } from "@/hooks/use-skytap-queries";
+import { skytapAPI } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeStepConfigurations, loadStepConfigurations } from "@/lib/training-scope";
+import { StepCompletion, StepInputs, StepPublicIps } from "@/lib/training-steps";
+import { describeSkytapError } from "@/lib/skytap-errors";
+
+interface IpResult {
+  configurationId: string;
+  configurationName: string;
+  vmName: string;
+  address?: string;
+  result: 'attached' | 'existing' | 'failed';
+  error?: string;
+}
+
+interface AttachPublicIpsProps {
+  projectId: string;
+  onComplete: (results: StepCompletion) => void;
+  /** Outputs of the steps that ran before this one */
+  inputs?: StepInputs;
+}
+
+const IP_CONCURRENCY = 3;
+
+const AttachPublicIps: React.FC<AttachPublicIpsProps> = ({ projectId, onComplete, inputs }) => {
+  const queryClient = useQueryClient();
+  const [everyVm, setEveryVm] = useState(false);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [results, setResults] = useState<IpResult[]>([]);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const copies = inputs?.copies;
+
+  const addLog = (message: string) => {
+    setLogs(prev => [...prev, message]);
+  };
+
+  const handleAttachIps = async () => {
+    setIsAttaching(true);
+    setError(null);
+    setResults([]);
+    setLogs([]);
+
+    try {
+      const scoped = await loadStepConfigurations(inputs, cachedConfigurationLoaders(queryClient, projectId));
+      describeStepConfigurations(scoped, inputs).forEach(addLog);
+      const { configurations } = scoped;
+      addLog(`Attaching public IPs to ${everyVm ? 'every VM' : 'the first VM'} in ${configurations.length} configuration(s)`);
+
+      const ipRun = await runBulk(configurations, async (config, { signal }) => {
+        // The project list leaves out VMs and their interfaces
+        const { region, vms = [] } = await skytapAPI.getConfiguration(config.id, { signal });
+        const addresses: string[] = [];
+        for (const vm of everyVm ? vms : vms.slice(0, 1)) {
+          const nic = vm.interfaces?.[0];
+          if (!nic) {
+            addLog(`${config.name}: ${vm.name} has no network interface`);
+            continue;
+          }
+          const existing = nic.public_ips?.[0]?.address;
+          if (existing) {
+            addLog(`${config.name}: ${vm.name} already has ${existing}`);
+            addresses.push(existing);
+            setResults(prev => [...prev, { configurationId: config.id, configurationName: config.name, vmName: vm.name, address: existing, result: 'existing' }]);
+            continue;
+          }
+          const ip = await skytapAPI.acquirePublicIP(region, { signal });
+          try {
+            await skytapAPI.attachIPToInterface(config.id, vm.id, nic.id, ip.address, { signal });
+          } catch (err) {
+            // Don't keep paying for an address nothing uses
+            await skytapAPI.releaseIPAddress(ip.id).catch(() => addLog(`Could not release ${ip.address}; release it from the IP addresses page`));
+            throw err;
+          }
+          addLog(`${config.name}: attached ${ip.address} to ${vm.name}`);
+          addresses.push(ip.address);
+          setResults(prev => [...prev, { configurationId: config.id, configurationName: config.name, vmName: vm.name, address: ip.address, result: 'attached' }]);
+        }
+        return addresses;
+      }, {
+        concurrency: IP_CONCURRENCY,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'failed') {
+            const message = describeSkytapError(outcome.error, 'Failed to attach a public IP');
+            addLog(`Failed to attach a public IP to ${outcome.item.name}: ${message}`);
+            setResults(prev => [...prev, { configurationId: outcome.item.id, configurationName: outcome.item.name, vmName: '', result: 'failed', error: message }]);
+          }
+        },
+      });
+
+      const publicIps: StepPublicIps = Object.fromEntries(ipRun.succeeded.map(({ item, result }) => [item.id, result]));
+      const success = ipRun.failed.length === 0;
+      addLog(`Public IPs completed: ${ipRun.succeeded.length} configuration(s) done, ${ipRun.failed.length} failed`);
+      if (!success) {
+        setError(`Failed to attach public IPs to ${ipRun.failed.length} environment(s); see the log for details`);
+      }
+
+      onComplete({
+        success,
+        results: ipRun.succeeded.map(({ item }) => item.id),
+        message: `Public IPs on ${ipRun.succeeded.length} of ${configurations.length} environment(s)`,
+        outputs: { publicIps },
+        logs: logs
+      });
+
+      toast({
+        title: success ? "Public IPs Attached" : "Some Public IPs Failed",
+        description: `Public IPs on ${ipRun.succeeded.length} of ${configurations.length} environment(s)`,
+        variant: success ? undefined : "destructive",
+      });
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to attach public IPs');
+      setError(errorMessage);
+      addLog(`Attaching public IPs failed: ${errorMessage}`);
+      onComplete({ success: false, error: errorMessage, logs: logs });
+      toast({
+        title: "Public IPs Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {copies && (
+        <Alert>
+          <AlertDescription>
+            Public IPs are attached only to the {copies.ids.length} {copies.addedSeats ? 'new ' : ''}cop{copies.ids.length === 1 ? 'y' : 'ies'} from the copy step.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="everyVm"
+            checked={everyVm}
+            onCheckedChange={(checked) => setEveryVm(checked === true)}
+            disabled={isAttaching}
+          />
+          <Label htmlFor="everyVm">Attach a public IP to every VM, not just the first</Label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Addresses are acquired in each environment's region and go on the VM's first network interface.
+          VMs that already have a public IP keep it. The teardown step releases them after the class.
+        </p>
+      </div>
+
+      <Button
+        onClick={handleAttachIps}
+        disabled={isAttaching || !projectId}
+        className="w-full"
+      >
+        <Globe className="h-4 w-4 mr-2" />
+        {isAttaching ? "Attaching..." : "Attach Public IPs"}
+      </Button>
+
+      {logs.length > 0 && (
+        <Card>
+          <Collapsible open={isLogsOpen} onOpenChange={setIsLogsOpen}>
+            <CollapsibleTrigger asChild>
+              <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">Public IP Log</CardTitle>
+                    <CardDescription>
+                      Real-time log of acquiring and attaching addresses
+                    </CardDescription>
+                  </div>
+                  {isLogsOpen ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </div>
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <div className="bg-muted rounded-md p-4 font-mono text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {logs.map((log, index) => (
+                    <div key={index} className="text-foreground">
+                      {log}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </CollapsibleContent>
+          </Collapsible>
+        </Card>
+      )}
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Public IP Results</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Environment</TableHead>
+                    <TableHead>VM</TableHead>
+                    <TableHead>Public IP</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-medium">{result.configurationName}</TableCell>
+                      <TableCell>{result.vmName}</TableCell>
+                      <TableCell className="font-mono">{result.address ?? ''}</TableCell>
+                      <TableCell>
+                        {result.result === 'attached' ? (
+                          <Badge variant="secondary" className="gap-1"><CheckCircle className="h-3 w-3" />Attached</Badge>
+                        ) : result.result === 'existing' ? (
+                          <Badge variant="outline" className="gap-1"><MinusCircle className="h-3 w-3" />Already attached</Badge>
+                        ) : (
+                          <Badge variant="destructive" className="gap-1" title={result.error}><XCircle className="h-3 w-3" />Failed</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default AttachPublicIps;
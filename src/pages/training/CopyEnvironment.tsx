@@ -1,19 +1,52 @@
-import React, { useState, useEffect } from "react";
-import { Copy, CheckCircle, XCircle, ChevronDown, ChevronRight } from "lucide-react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { Copy, CheckCircle, XCircle, ChevronDown, ChevronRight, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI } from "@/lib/skytap-api";
+import { skytapKeys, skytapQueries, useProjectConfigurations } from "@/hooks/use-skytap-queries";
+import { skytapAPI, BUSY_RETRY_POLICY, RetryOptions } from "@/lib/skytap-api";
+import { describeSkytapError } from "@/lib/skytap-errors";
+import { runBulk } from "@/lib/bulk-runner";
+import {
+  TrainingRun,
+  TrainingRunItem,
+  completeTrainingRunIfDone,
+  countCompletedSteps,
+  createTrainingRun,
+  getTrainingRun,
+  isRunItemComplete,
+  updateTrainingRunItem,
+} from "@/lib/training-runs";
+import {
+  DEFAULT_NAMING_TEMPLATE,
+  NAMING_TOKENS,
+  findHighestIndex,
+  renderName,
+  templateUsesToken,
+  validateNamingTemplate,
+} from "@/lib/naming-template";
+import { formatRosterLine, parseRoster } from "@/lib/roster";
+import { ClassCopySettings, ClassDefinition } from "@/lib/class-definition";
+import { useAutoRun } from "@/hooks/use-auto-run";
+
+// Copies of the same master queue behind each other in Skytap, so keep the default modest
+const DEFAULT_CONCURRENT_COPIES = 3;
+const MAX_CONCURRENT_COPIES = 10;
+const READY_POLL_INTERVAL_MS = 5000;
 
 interface CopyResult {
   copyId: string;
   name: string;
   projectId: string;
+  student?: string;
 }
 
 interface CopyFormData {
@@ -21,27 +54,72 @@ interface CopyFormData {
   masterEnvironmentId: string;
   desiredCopies: number;
   namePrefix: string;
+  namingTemplate: string;
+  /** Seat number of the first copy, e.g. 21 when adding copies to a class of 20 */
+  startIndex: number;
+  /** Pasted or uploaded roster; one attendee per copy when present */
+  rosterText: string;
+  /** Continue numbering after the seats already in the project instead of starting at startIndex */
+  addingSeats: boolean;
 }
 
 interface CopyEnvironmentProps {
   projectId: string;
   onComplete: (results: any) => void;
-  stepResults?: Record<string, any>;
+  /** Interrupted run to finish instead of starting a new one */
+  resumeRun?: TrainingRun | null;
+  /** Imported class definition that fills in the form */
+  classDefinition?: ClassDefinition | null;
+  /** Start copying as soon as the form is filled in */
+  autoRun?: boolean;
 }
 
-const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete, stepResults }) => {
+const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete, resumeRun, classDefinition, autoRun }) => {
+  const queryClient = useQueryClient();
   const [formData, setFormData] = useState<CopyFormData>({
     projectId: projectId || '',
     masterEnvironmentId: '',
     desiredCopies: 1,
-    namePrefix: ''
+    namePrefix: '',
+    namingTemplate: DEFAULT_NAMING_TEMPLATE,
+    startIndex: 1,
+    rosterText: '',
+    addingSeats: false
   });
+  const [maxConcurrentCopies, setMaxConcurrentCopies] = useState(DEFAULT_CONCURRENT_COPIES);
   const [isCopying, setIsCopying] = useState(false);
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<CopyResult[]>([]);
   const [logs, setLogs] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const rosterFileRef = useRef<HTMLInputElement | null>(null);
+
+  const roster = useMemo(() => parseRoster(formData.rosterText), [formData.rosterText]);
+  // A roster fixes the class size: one copy per attendee
+  const copyCount = roster.length > 0 ? roster.length : formData.desiredCopies;
+  const templateError = validateNamingTemplate(formData.namingTemplate, { hasRoster: roster.length > 0 });
+
+  // In add-seats mode the numbering continues from the highest seat already in the project
+  const existingConfigs = useProjectConfigurations(formData.addingSeats && !resumeRun ? projectId : '');
+  const highestExistingSeat = useMemo(
+    () => findHighestIndex(formData.namingTemplate, formData.namePrefix, (existingConfigs.data ?? []).map(config => config.name)),
+    [existingConfigs.data, formData.namingTemplate, formData.namePrefix]
+  );
+  const startIndex = formData.addingSeats ? highestExistingSeat + 1 : formData.startIndex;
+
+  const namesPreview = useMemo(() => {
+    if (templateError) return [];
+    return Array.from({ length: Math.min(copyCount, 3) }, (_, i) => renderName(formData.namingTemplate, {
+      prefix: formData.namePrefix,
+      index: startIndex + i,
+      date: new Date(),
+      student: roster[i]?.name,
+      region: '<region>',
+    }));
+  }, [templateError, copyCount, formData.namingTemplate, formData.namePrefix, startIndex, roster]);
 
   // Update projectId when prop changes
   useEffect(() => {
@@ -50,12 +128,50 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
     }
   }, [projectId]);
 
+  // A resumed run's parameters are fixed; show them instead of an empty form
+  useEffect(() => {
+    if (resumeRun) {
+      const { projectId, masterEnvironmentId, desiredCopies, namePrefix, namingTemplate, addingSeats } = resumeRun;
+      const students = resumeRun.items.map(item => item.student).filter(Boolean);
+      setFormData(prev => ({
+        ...prev,
+        projectId,
+        masterEnvironmentId,
+        desiredCopies,
+        namePrefix,
+        namingTemplate: namingTemplate ?? DEFAULT_NAMING_TEMPLATE,
+        rosterText: students.join('\n'),
+        addingSeats: !!addingSeats,
+      }));
+    }
+  }, [resumeRun]);
+
+  useEffect(() => {
+    if (!classDefinition || resumeRun) return;
+    const { copy } = classDefinition;
+    setFormData(prev => ({
+      ...prev,
+      masterEnvironmentId: copy.masterEnvironmentId,
+      desiredCopies: copy.copies,
+      namePrefix: copy.namePrefix,
+      namingTemplate: copy.namingTemplate ?? DEFAULT_NAMING_TEMPLATE,
+      startIndex: copy.startIndex ?? 1,
+      rosterText: (copy.roster ?? []).join('\n'),
+      addingSeats: !!copy.addSeats,
+    }));
+    setMaxConcurrentCopies(copy.concurrency ?? DEFAULT_CONCURRENT_COPIES);
+  }, [classDefinition, resumeRun]);
+
+  useAutoRun(!!autoRun, () => handleCopyEnvironment());
+
   const handleChange = (field: keyof CopyFormData) => (
     e: React.ChangeEvent<HTMLInputElement>
   ) => {
-    const value = field === 'desiredCopies' 
+    const value = field === 'desiredCopies'
       ? Math.max(1, parseInt(e.target.value) || 1)
-      : e.target.value;
+      : field === 'startIndex'
+        ? Math.max(0, parseInt(e.target.value) || 0)
+        : e.target.value;
     
     setFormData(prev => ({
       ...prev,
@@ -63,130 +179,285 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
     }));
   };
 
+  const handleRosterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const rosterText = await file.text();
+    setFormData(prev => ({ ...prev, rosterText }));
+    e.target.value = '';
+  };
+
   const addLog = (message: string) => {
     setLogs(prev => [...prev, message]);
   };
 
-  // Remove the processResults function - we'll track results directly
+  // Surface busy/rate-limit retries in the log instead of failing the copy outright
+  const retryWithLog: RetryOptions = {
+    ...BUSY_RETRY_POLICY,
+    onRetry: ({ status, attempt, delayMs }) => {
+      addLog(`Skytap returned ${status}, retrying in ${Math.round(delayMs / 1000)}s (attempt ${attempt})...`);
+    },
+  };
 
-  const handleCopyEnvironment = async () => {
-    // Validation
-    if (!formData.projectId.trim()) {
-      setError('Project ID is required');
-      return;
-    }
-    if (!formData.masterEnvironmentId.trim()) {
-      setError('Master Environment ID is required');
-      return;
-    }
-    if (!formData.namePrefix.trim()) {
-      setError('Name Prefix is required');
-      return;
+  // Cancellation stops the run between items; requests already sent are left to finish
+  // so every copy Skytap creates is tracked in the results
+  const handleCancel = () => {
+    if (!abortControllerRef.current) return;
+    setIsCancelling(true);
+    addLog('Cancelling after in-flight operations finish...');
+    abortControllerRef.current.abort();
+  };
+
+  // Render every copy's name up front so the run record knows exactly what each seat is called
+  const buildSeats = async () => {
+    const { namingTemplate, namePrefix, masterEnvironmentId, addingSeats } = formData;
+    let firstSeat = formData.startIndex;
+    if (addingSeats) {
+      // Read the project again rather than trusting what was on screen; someone may have added seats since
+      const existing = await queryClient.fetchQuery({
+        ...skytapQueries.projectConfigurations(formData.projectId.trim()),
+        staleTime: 0,
+      });
+      const highest = findHighestIndex(namingTemplate, namePrefix, existing.map(config => config.name));
+      firstSeat = highest + 1;
+      addLog(`Found ${existing.length} environment(s) in the project; the highest existing seat is ${highest}. New seats start at ${firstSeat}.`);
     }
-    if (formData.desiredCopies < 1) {
-      setError('Desired copies must be at least 1');
+    const region = templateUsesToken(namingTemplate, 'region')
+      ? (await queryClient.fetchQuery(skytapQueries.configuration(masterEnvironmentId.trim()))).region
+      : undefined;
+    const date = new Date();
+
+    return Array.from({ length: copyCount }, (_, i) => {
+      const student = roster[i]?.name;
+      return {
+        name: renderName(namingTemplate, { prefix: namePrefix, index: firstSeat + i, date, student, region }),
+        student,
+      };
+    });
+  };
+
+  const validateForm = () => {
+    if (!formData.projectId.trim()) return 'Project ID is required';
+    if (!formData.masterEnvironmentId.trim()) return 'Master Environment ID is required';
+    if (!formData.namePrefix.trim() && templateUsesToken(formData.namingTemplate, 'prefix')) return 'Name Prefix is required';
+    if (copyCount < 1) return 'Desired copies must be at least 1';
+    if (templateError && !resumeRun) return templateError;
+    return null;
+  };
+
+  const handleCopyEnvironment = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      onComplete({ success: false, error: validationError, logs: logs });
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsCopying(true);
+    setIsCancelling(false);
     setError(null);
     setLogs([]);
     setResults([]);
     setProgress(0);
 
     try {
-      const { projectId, masterEnvironmentId, desiredCopies, namePrefix } = formData;
-      
-      addLog(`Starting copy process for ${desiredCopies} environment(s)`);
+      // A resumed run keeps its original names; a new one is recorded before any request is sent
+      const run = resumeRun
+        ? getTrainingRun(resumeRun.id) ?? resumeRun
+        : createTrainingRun({
+            projectId: formData.projectId,
+            profileId: skytapAPI.profile,
+            masterEnvironmentId: formData.masterEnvironmentId,
+            namePrefix: formData.namePrefix,
+            namingTemplate: formData.namingTemplate,
+            addingSeats: formData.addingSeats,
+            seats: await buildSeats(),
+          });
+      const { projectId, masterEnvironmentId, desiredCopies, namePrefix } = run;
+      const items = [...run.items];
+
+      // Keep the local view and the stored record in step
+      const record = (index: number, patch: Partial<Omit<TrainingRunItem, 'index'>>) => {
+        items[index] = { ...items[index], ...patch };
+        updateTrainingRunItem(run.id, index, patch);
+      };
+
+      if (resumeRun) {
+        addLog(`Resuming run started ${new Date(run.createdAt).toLocaleString()}`);
+      } else {
+        addLog(`Starting copy process for ${desiredCopies} environment(s)`);
+      }
       addLog(`Master Environment ID: ${masterEnvironmentId}`);
       addLog(`Project ID: ${projectId}`);
       addLog(`Name Prefix: ${namePrefix}`);
+      addLog(`Name Template: ${run.namingTemplate ?? DEFAULT_NAMING_TEMPLATE}`);
 
-      const copyIds: string[] = [];
-      const copyResults: CopyResult[] = [];
       const totalSteps = desiredCopies * 3; // Create + Name + Project for each copy
-      let currentStep = 0;
+      let currentStep = countCompletedSteps(run);
+      setProgress((currentStep / totalSteps) * 100);
+      const advanceProgress = () => {
+        currentStep++;
+        setProgress((currentStep / totalSteps) * 100);
+      };
 
-      // Step 1: Create copies with 10-second delays
-      addLog('Step 1: Creating environment copies...');
-      for (let i = 0; i < desiredCopies; i++) {
+      // Each copy runs its own pipeline: copy, wait until Skytap has finished copying, rename,
+      // add to project. Only maxConcurrentCopies pipelines are in flight at once.
+      const remaining = items.filter(item => !isRunItemComplete(item));
+      addLog(`Processing ${remaining.length} remaining cop${remaining.length === 1 ? 'y' : 'ies'}, up to ${maxConcurrentCopies} at a time...`);
+      remaining
+        .filter(item => !item.copyId && item.copy === 'in_progress')
+        .forEach(item => addLog(`Copy ${item.index + 1} was in flight when the page closed; an untracked copy of ${masterEnvironmentId} may exist. Creating it again.`));
+
+      // Run one step of a copy's pipeline, recording its status so a resume knows where to pick up
+      const runStep = async <T,>(
+        index: number,
+        step: 'copy' | 'rename' | 'addToProject',
+        task: () => Promise<T>
+      ): Promise<T> => {
+        record(index, { [step]: 'in_progress', error: undefined });
         try {
-          addLog(`Creating copy ${i + 1} of ${desiredCopies}...`);
-          const copyResponse = await skytapAPI.copyEnvironment(masterEnvironmentId);
-          const copyId = String(copyResponse.id);
-          copyIds.push(copyId);
-          
-          addLog(`Successfully created copy ${i + 1} with ID ${copyId}`);
-          currentStep++;
-          setProgress((currentStep / totalSteps) * 100);
-
-          // Wait 10 seconds before next copy (except for the last one)
-          if (i < desiredCopies - 1) {
-            addLog('Waiting 10 seconds before creating next copy...');
-            await new Promise(resolve => setTimeout(resolve, 10000));
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          addLog(`Failed to create copy ${i + 1}: ${errorMessage}`);
+          const result = await task();
+          record(index, { [step]: 'done' });
+          advanceProgress();
+          return result;
+        } catch (err) {
+          record(index, { [step]: 'failed', error: describeSkytapError(err) });
+          throw err;
         }
-      }
+      };
 
-      // Step 2: Update names
-      addLog('Step 2: Updating environment names...');
-      for (let i = 0; i < copyIds.length; i++) {
-        try {
-          const copyId = copyIds[i];
-          const name = `${namePrefix} - ${String(i + 1).padStart(2, '0')}`;
-          
-          addLog(`Updating name for copy ${i + 1} (ID: ${copyId}) to "${name}"`);
-          await skytapAPI.updateEnvironmentName(copyId, name);
-          addLog(`Successfully updated name for copy ${copyId} to "${name}"`);
-          
-          // Track the result
-          copyResults.push({
-            copyId: copyId,
-            name: name,
-            projectId: projectId
-          });
-          
-          currentStep++;
-          setProgress((currentStep / totalSteps) * 100);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          addLog(`Failed to update name for copy ${copyIds[i]}: ${errorMessage}`);
+      await runBulk(
+        remaining,
+        async ({ index }, { signal }) => {
+          const seat = index + 1;
+
+          if (!items[index].copyId) {
+            addLog(`Creating copy ${seat} of ${desiredCopies}...`);
+            const copyId = await runStep(index, 'copy', async () => {
+              // Not cancelled mid-request, so every copy Skytap creates gets tracked
+              const copyResponse = await skytapAPI.copyEnvironment(masterEnvironmentId, { retry: retryWithLog });
+              const id = String(copyResponse.id);
+              record(index, { copyId: id });
+              return id;
+            });
+            addLog(`Successfully created copy ${seat} with ID ${copyId}`);
+          }
+          const { copyId, name } = items[index];
+
+          if (items[index].rename !== 'done' || items[index].addToProject !== 'done') {
+            addLog(`Waiting for copy ${seat} (ID: ${copyId}) to finish copying...`);
+            await skytapAPI.waitForConfigurationReady(copyId, {
+              signal,
+              intervalMs: READY_POLL_INTERVAL_MS,
+              onPoll: ({ attempt }) => {
+                if (attempt % 6 === 0) addLog(`Copy ${seat} (ID: ${copyId}) is still busy...`);
+              },
+            });
+          }
+
+          if (items[index].rename !== 'done') {
+            addLog(`Updating name for copy ${seat} (ID: ${copyId}) to "${name}"`);
+            await runStep(index, 'rename', () => skytapAPI.updateEnvironmentName(copyId, name, { signal, retry: retryWithLog }));
+            addLog(`Successfully updated name for copy ${copyId} to "${name}"`);
+          }
+
+          if (items[index].addToProject !== 'done') {
+            addLog(`Adding copy ${seat} (ID: ${copyId}) to project ${projectId}`);
+            await runStep(index, 'addToProject', () => skytapAPI.addEnvironmentToProject(copyId, projectId, { signal, retry: retryWithLog }));
+            addLog(`Successfully added copy ${copyId} to project ${projectId}`);
+          }
+        },
+        {
+          concurrency: maxConcurrentCopies,
+          signal,
+          onItemComplete: (outcome) => {
+            if (outcome.status === 'failed') {
+              addLog(`Copy ${outcome.item.index + 1} failed: ${describeSkytapError(outcome.error)}`);
+            }
+          },
         }
+      );
+
+      const copyIds = items.filter(item => item.copyId).map(item => item.copyId);
+      const copyResults: CopyResult[] = items
+        .filter(item => item.copyId && item.rename === 'done')
+        .map(item => ({ copyId: item.copyId, name: item.name, projectId, student: item.student }));
+      const addedIds = items.filter(item => item.addToProject === 'done').map(item => item.copyId);
+
+      setResults(copyResults);
+      const finishedRun = completeTrainingRunIfDone(run.id);
+
+      // Later steps read the project's configurations from the cache; make them see the new copies
+      if (items.some(item => item.addToProject === 'done')) {
+        await queryClient.invalidateQueries({ queryKey: skytapKeys.projectConfigurations(projectId) });
       }
 
-      // Step 3: Add to project
-      addLog('Step 3: Adding copies to project...');
-      for (let i = 0; i < copyIds.length; i++) {
-        try {
-          const copyId = copyIds[i];
-          
-          addLog(`Adding copy ${i + 1} (ID: ${copyId}) to project ${projectId}`);
-          await skytapAPI.addEnvironmentToProject(copyId, projectId);
-          addLog(`Successfully added copy ${copyId} to project ${projectId}`);
-          
-          currentStep++;
-          setProgress((currentStep / totalSteps) * 100);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          addLog(`Failed to add copy ${copyIds[i]} to project: ${errorMessage}`);
-        }
+      if (signal.aborted) {
+        // Report exactly what exists so the remaining work can be finished by resuming the run
+        addLog(`Copy process cancelled. Created ${copyIds.length} of ${desiredCopies} copies, renamed ${copyResults.length}, added ${addedIds.length} to project.`);
+        items.filter(item => item.copyId).forEach((item) => {
+          addLog(`  ${item.copyId}: ${item.rename === 'done' ? `named "${item.name}"` : 'not renamed'}, ${item.addToProject === 'done' ? 'in project' : 'not in project'}`);
+        });
+        addLog('The run has been saved and can be resumed from the Training Environments page.');
+
+        onComplete({
+          success: false,
+          cancelled: true,
+          runId: run.id,
+          addingSeats: !!run.addingSeats,
+          results: copyResults,
+          createdCopyIds: copyIds,
+          addedToProjectIds: addedIds,
+          logs: logs
+        });
+
+        toast({
+          title: "Copy Process Cancelled",
+          description: `Stopped after creating ${copyIds.length} of ${desiredCopies} environment(s)`,
+          variant: "destructive",
+        });
+        return;
       }
 
       // Set results and complete
-      setResults(copyResults);
       setProgress(100);
 
       addLog(`Copy process completed! Created ${copyResults.length} environment(s)`);
+      if (finishedRun?.status !== 'completed') {
+        addLog('Some copies did not finish every step; resume the run to retry them.');
+      }
       
+      // The form as run, for exporting a class definition
+      const settings: ClassCopySettings = {
+        masterEnvironmentId: formData.masterEnvironmentId.trim(),
+        copies: copyCount,
+        namePrefix: formData.namePrefix,
+        namingTemplate: formData.namingTemplate,
+        ...(formData.addingSeats ? { addSeats: true } : { startIndex: formData.startIndex }),
+        ...(roster.length > 0 && { roster: roster.map(formatRosterLine) }),
+        concurrency: maxConcurrentCopies,
+      };
+
+      // The first seat's number says how many seats of the class came before; other environments
+      // in the project, such as the master, don't count
+      const earlierSeats = run.addingSeats && run.items.length > 0
+        ? Math.max(0, findHighestIndex(run.namingTemplate, run.namePrefix, [run.items[0].name]) - 1)
+        : 0;
+
       // Call onComplete with results
       onComplete({
         success: true,
+        runId: run.id,
+        addingSeats: !!run.addingSeats,
         results: copyResults,
         logs: logs,
-        totalCopies: copyResults.length
+        totalCopies: copyResults.length,
+        settings,
+        outputs: { copies: { ids: copyResults.map(result => result.copyId), addedSeats: !!run.addingSeats, earlierSeats } }
       });
       
       toast({
@@ -211,7 +482,9 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsCopying(false);
+      setIsCancelling(false);
     }
   };
 
@@ -223,6 +496,18 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
         </Alert>
       )}
 
+      {resumeRun && !isCopying && results.length === 0 && (
+        <Alert>
+          <AlertDescription>
+            Resuming the run started {new Date(resumeRun.createdAt).toLocaleString()}:{' '}
+            {resumeRun.items.filter(item => item.copyId).length} of {resumeRun.desiredCopies} copies created,{' '}
+            {resumeRun.items.filter(item => item.rename === 'done').length} renamed,{' '}
+            {resumeRun.items.filter(item => item.addToProject === 'done').length} added to the project.
+            Only the remaining steps will run.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="masterEnvironmentId">Master Environment ID</Label>
@@ -231,7 +516,7 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
             value={formData.masterEnvironmentId}
             onChange={handleChange('masterEnvironmentId')}
             placeholder="Enter master environment ID"
-            disabled={isCopying}
+            disabled={isCopying || !!resumeRun}
           />
         </div>
 
@@ -242,33 +527,165 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
             type="number"
             min="1"
             max="50"
-            value={formData.desiredCopies}
+            value={copyCount}
             onChange={handleChange('desiredCopies')}
             placeholder="Number of copies to create"
-            disabled={isCopying}
+            disabled={isCopying || !!resumeRun || roster.length > 0}
           />
+          {roster.length > 0 && (
+            <p className="text-xs text-muted-foreground">One copy per student on the roster.</p>
+          )}
         </div>
 
-        <div className="space-y-2 md:col-span-2">
+        <div className="space-y-2">
           <Label htmlFor="namePrefix">Name Prefix</Label>
           <Input
             id="namePrefix"
             value={formData.namePrefix}
             onChange={handleChange('namePrefix')}
             placeholder="e.g., Training"
+            disabled={isCopying || !!resumeRun}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="maxConcurrentCopies">Concurrent Copies</Label>
+          <Input
+            id="maxConcurrentCopies"
+            type="number"
+            min="1"
+            max={MAX_CONCURRENT_COPIES}
+            value={maxConcurrentCopies}
+            onChange={(e) => setMaxConcurrentCopies(Math.min(MAX_CONCURRENT_COPIES, Math.max(1, parseInt(e.target.value) || 1)))}
             disabled={isCopying}
           />
+          <p className="text-xs text-muted-foreground">
+            Copies in flight at once. Each copy is renamed and added to the project as soon as Skytap finishes copying it.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="namingTemplate">Name Template</Label>
+          <Input
+            id="namingTemplate"
+            value={formData.namingTemplate}
+            onChange={handleChange('namingTemplate')}
+            placeholder={DEFAULT_NAMING_TEMPLATE}
+            disabled={isCopying || !!resumeRun}
+          />
+          <p className="text-xs text-muted-foreground">
+            {Object.entries(NAMING_TOKENS).map(([token, help]) => (
+              <span key={token} className="block">
+                <code>{`{${token}}`}</code> {help}
+              </span>
+            ))}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="startIndex">Starting Seat Number</Label>
+          <Input
+            id="startIndex"
+            type="number"
+            min="0"
+            value={startIndex}
+            onChange={handleChange('startIndex')}
+            disabled={isCopying || !!resumeRun || formData.addingSeats}
+          />
+          <p className="text-xs text-muted-foreground">
+            {formData.addingSeats
+              ? existingConfigs.isLoading
+                ? 'Checking the project for existing seats...'
+                : `Continues after seat ${highestExistingSeat}, the highest in the project named with this template.`
+              : 'Raise this when adding copies to an existing class, e.g. 21 after seats 1-20.'}
+          </p>
         </div>
+
+        <div className="flex items-start gap-3 md:col-span-2">
+          <Switch
+            id="addingSeats"
+            checked={formData.addingSeats}
+            onCheckedChange={(addingSeats) => setFormData(prev => ({ ...prev, addingSeats }))}
+            disabled={isCopying || !!resumeRun}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="addingSeats">Add seats to an existing class</Label>
+            <p className="text-xs text-muted-foreground">
+              For late registrants: numbering continues after the copies already in the project, and the
+              following steps only schedule, configure and export the new copies.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2 md:col-span-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="roster">Student Roster (optional)</Label>
+            <input
+              ref={rosterFileRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="hidden"
+              onChange={handleRosterFile}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => rosterFileRef.current?.click()}
+              disabled={isCopying || !!resumeRun}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Upload CSV
+            </Button>
+          </div>
+          <Textarea
+            id="roster"
+            value={formData.rosterText}
+            onChange={(e) => setFormData(prev => ({ ...prev, rosterText: e.target.value }))}
+            placeholder={"One student per line, or CSV with a name/email header\nJane Doe, jane@example.com"}
+            rows={4}
+            disabled={isCopying || !!resumeRun}
+          />
+          {roster.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {roster.length} student{roster.length === 1 ? '' : 's'}; copies are assigned in roster order.
+            </p>
+          )}
+        </div>
+
+        {!resumeRun && (
+          <div className="space-y-1 md:col-span-2 text-sm">
+            {templateError ? (
+              <p className="text-destructive">{templateError}</p>
+            ) : (
+              <p className="text-muted-foreground">
+                Names: {namesPreview.map(name => `"${name}"`).join(', ')}{copyCount > namesPreview.length ? ', …' : ''}
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
-      <Button 
-        onClick={handleCopyEnvironment} 
-        disabled={isCopying || !projectId}
-        className="w-full"
-      >
-        <Copy className="h-4 w-4 mr-2" />
-        {isCopying ? "Copying Environments..." : "Copy Environment"}
-      </Button>
+      <div className="flex gap-3">
+        <Button 
+          onClick={handleCopyEnvironment} 
+          disabled={isCopying || !projectId}
+          className="flex-1"
+        >
+          <Copy className="h-4 w-4 mr-2" />
+          {isCopying ? "Copying Environments..." : resumeRun ? "Resume Run" : "Copy Environment"}
+        </Button>
+        {isCopying && (
+          <Button
+            onClick={handleCancel}
+            disabled={isCancelling}
+            variant="destructive"
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            {isCancelling ? "Cancelling..." : "Cancel"}
+          </Button>
+        )}
+      </div>
 
       {isCopying && (
         <div className="space-y-2">
@@ -335,6 +752,7 @@ const CopyEnvironment: React.FC<CopyEnvironmentProps> = ({ projectId, onComplete
                     <div className="space-y-1 text-sm">
                       <div><strong>ID:</strong> {result.copyId}</div>
                       <div><strong>Name:</strong> {result.name}</div>
+                      {result.student && <div><strong>Student:</strong> {result.student}</div>}
                       <div><strong>Project:</strong> {result.projectId}</div>
                     </div>
                   </CardContent>
@@ -0,0 +1,573 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Share2, XCircle, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { cachedConfigurationLoaders, skytapKeys } from "@/hooks/use-skytap-queries";
+import { skytapAPI, isAbortError, SkytapPublishSetPayload } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeSkytapError } from "@/lib/skytap-errors";
+import { describeStepConfigurations, loadStepConfigurations } from "@/lib/training-scope";
+import { StepInputs } from "@/lib/training-steps";
+import { formatInTimeZone, toSkytapTimeZone, zonedTimeToInstant } from "@/lib/time-zones";
+import { TimeZoneSelect } from "@/components/training/TimeZoneSelect";
+import { ClassDefinition, ClassPortalSettings } from "@/lib/class-definition";
+import { useAutoRun } from "@/hooks/use-auto-run";
+
+type VMAccess = SkytapPublishSetPayload['vms'][number]['access'];
+
+interface PortalFormData {
+  publishSetType: SkytapPublishSetPayload['publish_set_type'];
+  vmAccess: VMAccess;
+  /** Hours of runtime students get; blank for no limit */
+  runtimeLimitHours: string;
+  password: string;
+  /** Only allow access during class hours */
+  limitToClassHours: boolean;
+  /** IANA zone */
+  timeZone: string;
+  availableFrom: string;
+  availableUntil: string;
+  expirationDate: string;
+  /** Leave copies that already have a portal alone */
+  skipExisting: boolean;
+}
+
+interface PortalResult {
+  configurationId: string;
+  configurationName: string;
+  publishSetId: string;
+  desktopUrl: string;
+}
+
+interface CreatePortalsProps {
+  projectId: string;
+  onComplete: (results: Record<string, unknown>) => void;
+  /** Outputs of the steps that ran before this one */
+  inputs?: StepInputs;
+  /** Imported class definition that fills in the portal settings */
+  classDefinition?: ClassDefinition | null;
+  /** Create the portals as soon as the form is filled in */
+  autoRun?: boolean;
+}
+
+const VM_ACCESS_OPTIONS: Record<VMAccess, string> = {
+  run_and_use: 'Run and use',
+  use: 'Use only',
+  view_only: 'View only',
+};
+
+const CreatePortals: React.FC<CreatePortalsProps> = ({ projectId, onComplete, inputs, classDefinition, autoRun }) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<PortalFormData>({
+    publishSetType: 'single_url',
+    vmAccess: 'run_and_use',
+    runtimeLimitHours: '',
+    password: '',
+    limitToClassHours: false,
+    timeZone: '',
+    availableFrom: '',
+    availableUntil: '',
+    expirationDate: '',
+    skipExisting: true,
+  });
+  const [isCreating, setIsCreating] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<PortalResult[]>([]);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const copies = inputs?.copies;
+  // The class hours from the scheduler step pre-fill the portal's access window
+  const classSchedule = inputs?.classSchedule;
+
+  // Start from the class schedule created in the previous step
+  useEffect(() => {
+    if (classSchedule) {
+      setFormData(prev => ({
+        ...prev,
+        limitToClassHours: true,
+        timeZone: classSchedule.timeZone,
+        availableFrom: classSchedule.startTime,
+        availableUntil: classSchedule.endTime,
+        expirationDate: classSchedule.endDate,
+      }));
+    }
+  }, [classSchedule]);
+
+  // After the class hours, so a definition can turn the access window off again
+  useEffect(() => {
+    const portals = classDefinition?.portals;
+    if (!portals) return;
+    setFormData(prev => ({
+      ...prev,
+      publishSetType: portals.type ?? prev.publishSetType,
+      vmAccess: portals.vmAccess ?? prev.vmAccess,
+      runtimeLimitHours: portals.runtimeLimitHours !== undefined ? String(portals.runtimeLimitHours) : '',
+      password: portals.password ?? '',
+      limitToClassHours: portals.classHoursOnly ?? prev.limitToClassHours,
+      skipExisting: portals.skipExisting ?? prev.skipExisting,
+    }));
+  }, [classDefinition]);
+
+  useAutoRun(!!autoRun, () => handleCreatePortals());
+
+  const validateForm = () => {
+    const { runtimeLimitHours, limitToClassHours, timeZone, availableFrom, availableUntil } = formData;
+    if (runtimeLimitHours && !(Number(runtimeLimitHours) > 0)) return 'Runtime limit must be a positive number of hours';
+    if (limitToClassHours) {
+      if (!timeZone) return 'Time Zone is required to limit access to class hours';
+      if (!availableFrom || !availableUntil) return 'Available From and Available Until are required';
+      if (availableFrom >= availableUntil) return 'Available Until must be after Available From';
+    }
+    return null;
+  };
+
+  const handleChange = (field: keyof PortalFormData) => (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    setFormData(prev => ({ ...prev, [field]: e.target.value }));
+  };
+
+  const addLog = (message: string) => {
+    setLogs(prev => [...prev, message]);
+  };
+
+  // Stop creating portals after the in-flight requests finish
+  const handleCancel = () => {
+    if (!abortControllerRef.current) return;
+    setIsCancelling(true);
+    addLog('Cancelling after in-flight portals are created...');
+    abortControllerRef.current.abort();
+  };
+
+  // Portal settings shared by every copy; only the name and VMs differ
+  const buildPortalSettings = (): Omit<SkytapPublishSetPayload, 'name' | 'vms'> => {
+    const { publishSetType, runtimeLimitHours, password, limitToClassHours, timeZone, availableFrom, availableUntil, expirationDate } = formData;
+    return {
+      publish_set_type: publishSetType,
+      runtime_limit: runtimeLimitHours ? Math.round(Number(runtimeLimitHours) * 60) : null,
+      ...(password ? { password } : {}),
+      ...(limitToClassHours ? {
+        start_time: `${availableFrom}:00`,
+        end_time: `${availableUntil}:00`,
+        time_zone: toSkytapTimeZone(timeZone),
+        ...(expirationDate ? { expiration_date: formatInTimeZone(zonedTimeToInstant(expirationDate, availableUntil, timeZone), timeZone) } : {}),
+      } : {}),
+    };
+  };
+
+  const handleCreatePortals = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      onComplete({ success: false, error: validationError, logs: logs });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsCreating(true);
+    setIsCancelling(false);
+    setError(null);
+    setLogs([]);
+    setResults([]);
+    setProgress(0);
+
+    try {
+      const settings = buildPortalSettings();
+      addLog(`Starting portal creation for project ${projectId}`);
+      addLog(`Portal type: ${settings.publish_set_type}, VM access: ${VM_ACCESS_OPTIONS[formData.vmAccess]}, runtime limit: ${settings.runtime_limit ? `${settings.runtime_limit} minutes` : 'none'}`);
+      if (settings.start_time) {
+        addLog(`Available ${settings.start_time}-${settings.end_time} ${settings.time_zone}${settings.expiration_date ? `, expires ${settings.expiration_date}` : ''}`);
+      }
+
+      const scoped = await loadStepConfigurations(inputs, cachedConfigurationLoaders(queryClient, projectId));
+      describeStepConfigurations(scoped, inputs).forEach(addLog);
+      const { configurations } = scoped;
+
+      let skipped = 0;
+      const portalRun = await runBulk(configurations, async (config): Promise<PortalResult | null> => {
+        const existing = await skytapAPI.getPublishSets(config.id, { signal });
+        if (formData.skipExisting && existing.length > 0) {
+          skipped++;
+          addLog(`Skipping ${config.name}: it already has a sharing portal (${existing[0].desktops_url})`);
+          return null;
+        }
+
+        // Portal VMs come from the copy itself, not the project list, which may omit them
+        const { vms = [] } = await skytapAPI.getConfiguration(config.id, { signal });
+        const payload: SkytapPublishSetPayload = {
+          ...settings,
+          name: config.name,
+          vms: vms.map(vm => ({
+            vm_ref: `https://cloud.skytap.com/v2/configurations/${config.id}/vms/${vm.id}`,
+            access: formData.vmAccess
+          }))
+        };
+        addLog(`Creating sharing portal for ${config.name} (${vms.length} VM(s))`);
+        const publishSet = await skytapAPI.createPublishSet(config.id, payload, { signal });
+        await queryClient.invalidateQueries({ queryKey: skytapKeys.publishSets(config.id) });
+        addLog(`Created portal ${publishSet.id} for ${config.name}: ${publishSet.desktops_url}`);
+
+        return {
+          configurationId: config.id,
+          configurationName: config.name,
+          publishSetId: publishSet.id,
+          desktopUrl: publishSet.desktops_url,
+        };
+      }, {
+        concurrency: 5,
+        signal,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'failed') {
+            addLog(`Failed to create portal for ${outcome.item.name}: ${describeSkytapError(outcome.error)}`);
+          }
+        },
+        onProgress: ({ percent }) => setProgress(percent),
+      });
+
+      const portalResults = portalRun.succeeded
+        .sort((a, b) => a.index - b.index)
+        .map(({ result }) => result)
+        .filter((result): result is PortalResult => result !== null);
+      setResults(portalResults);
+
+      if (portalRun.cancelled) {
+        addLog(`Portal creation cancelled. Created ${portalResults.length} portal(s); ${portalRun.skipped.length} copies were not processed.`);
+        onComplete({ success: false, cancelled: true, results: portalResults, logs: logs });
+        toast({
+          title: "Portal Creation Cancelled",
+          description: `Created ${portalResults.length} portal(s) before stopping`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setProgress(100);
+      addLog(`Portal creation completed! Created ${portalResults.length}, skipped ${skipped}, failed ${portalRun.failed.length}`);
+
+      // Copies that already had a portal still count; failures leave the step incomplete
+      const success = portalRun.failed.length === 0;
+      if (!success) {
+        setError(`Failed to create ${portalRun.failed.length} portal(s); see the log for details`);
+      }
+      // The form as run, for exporting a class definition. The password stays out of files kept in git.
+      const portalSettings: ClassPortalSettings = {
+        type: formData.publishSetType,
+        vmAccess: formData.vmAccess,
+        ...(formData.runtimeLimitHours && { runtimeLimitHours: Number(formData.runtimeLimitHours) }),
+        classHoursOnly: formData.limitToClassHours,
+        skipExisting: formData.skipExisting,
+      };
+      onComplete({
+        success,
+        results: portalResults,
+        logs: logs,
+        totalPortals: portalResults.length,
+        skipped,
+        settings: portalSettings
+      });
+
+      toast({
+        title: success ? "Portals Created" : "Some Portals Failed",
+        description: `Created ${portalResults.length} portal(s)${skipped ? `, ${skipped} already had one` : ''}`,
+        variant: success ? "default" : "destructive",
+      });
+    } catch (error) {
+      if (isAbortError(error)) {
+        addLog('Portal creation cancelled before any portals were created');
+        onComplete({ success: false, cancelled: true, results: [], logs: logs });
+        return;
+      }
+      const errorMessage = describeSkytapError(error, 'Failed to create portals');
+      setError(errorMessage);
+      addLog(`Portal creation failed: ${errorMessage}`);
+
+      onComplete({
+        success: false,
+        error: errorMessage,
+        logs: logs
+      });
+
+      toast({
+        title: "Portal Creation Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsCreating(false);
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {copies && (
+        <Alert>
+          <AlertDescription>
+            {copies.addedSeats ? 'Adding seats: portals' : 'Portals'} are created only for the {copies.ids.length} {copies.addedSeats ? 'new ' : ''}cop{copies.ids.length === 1 ? 'y' : 'ies'} from the copy step.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="publishSetType">Portal Type</Label>
+          <Select
+            value={formData.publishSetType}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, publishSetType: value as PortalFormData['publishSetType'] }))}
+            disabled={isCreating}
+          >
+            <SelectTrigger id="publishSetType">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single_url">Single URL for all VMs</SelectItem>
+              <SelectItem value="multiple_url">One URL per VM</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="vmAccess">VM Access</Label>
+          <Select
+            value={formData.vmAccess}
+            onValueChange={(value) => setFormData(prev => ({ ...prev, vmAccess: value as VMAccess }))}
+            disabled={isCreating}
+          >
+            <SelectTrigger id="vmAccess">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(VM_ACCESS_OPTIONS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="runtimeLimitHours">Runtime Limit (hours)</Label>
+          <Input
+            id="runtimeLimitHours"
+            type="number"
+            min="1"
+            value={formData.runtimeLimitHours}
+            onChange={handleChange('runtimeLimitHours')}
+            placeholder="No limit"
+            disabled={isCreating}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="portalPassword">Password (optional)</Label>
+          <Input
+            id="portalPassword"
+            type="password"
+            value={formData.password}
+            onChange={handleChange('password')}
+            placeholder="No password"
+            autoComplete="new-password"
+            disabled={isCreating}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="limitToClassHours"
+            checked={formData.limitToClassHours}
+            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, limitToClassHours: checked === true }))}
+            disabled={isCreating}
+          />
+          <Label htmlFor="limitToClassHours">Only allow access during class hours</Label>
+        </div>
+        {classSchedule && (
+          <p className="text-xs text-muted-foreground">
+            Filled in from the schedule created in the previous step.
+          </p>
+        )}
+
+        {formData.limitToClassHours && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="portalTimeZone">Time Zone</Label>
+              <TimeZoneSelect
+                id="portalTimeZone"
+                value={formData.timeZone}
+                onValueChange={(timeZone) => setFormData(prev => ({ ...prev, timeZone }))}
+                disabled={isCreating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="expirationDate">Expires After</Label>
+              <Input
+                id="expirationDate"
+                type="date"
+                value={formData.expirationDate}
+                onChange={handleChange('expirationDate')}
+                disabled={isCreating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="availableFrom">Available From</Label>
+              <Input
+                id="availableFrom"
+                type="time"
+                value={formData.availableFrom}
+                onChange={handleChange('availableFrom')}
+                disabled={isCreating}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="availableUntil">Available Until</Label>
+              <Input
+                id="availableUntil"
+                type="time"
+                value={formData.availableUntil}
+                onChange={handleChange('availableUntil')}
+                disabled={isCreating}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="skipExisting"
+            checked={formData.skipExisting}
+            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, skipExisting: checked === true }))}
+            disabled={isCreating}
+          />
+          <Label htmlFor="skipExisting">Skip copies that already have a sharing portal</Label>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <Button
+          onClick={handleCreatePortals}
+          disabled={isCreating || !projectId}
+          className="flex-1"
+        >
+          <Share2 className="h-4 w-4 mr-2" />
+          {isCreating ? "Creating Portals..." : "Create Portals"}
+        </Button>
+        {isCreating && (
+          <Button
+            onClick={handleCancel}
+            disabled={isCancelling}
+            variant="destructive"
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            {isCancelling ? "Cancelling..." : "Cancel"}
+          </Button>
+        )}
+      </div>
+
+      {isCreating && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>Portal Creation Progress</span>
+            <span>{Math.round(progress)}%</span>
+          </div>
+          <Progress value={progress} className="w-full" />
+        </div>
+      )}
+
+      {logs.length > 0 && (
+        <Card>
+          <Collapsible open={isLogsOpen} onOpenChange={setIsLogsOpen}>
+            <CollapsibleTrigger asChild>
+              <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">Portal Creation Log</CardTitle>
+                    <CardDescription>
+                      Real-time log of the portal creation process
+                    </CardDescription>
+                  </div>
+                  {isLogsOpen ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </div>
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <div className="bg-muted rounded-md p-4 font-mono text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {logs.map((log, index) => (
+                    <div key={index} className="text-foreground">
+                      {log}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </CollapsibleContent>
+          </Collapsible>
+        </Card>
+      )}
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Portal Results</CardTitle>
+            <CardDescription>
+              Created {results.length} sharing portal{results.length !== 1 ? 's' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Configuration Name</TableHead>
+                    <TableHead>Desktop URL</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => (
+                    <TableRow key={result.publishSetId}>
+                      <TableCell className="font-medium">{result.configurationName}</TableCell>
+                      <TableCell className="break-all">{result.desktopUrl}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default CreatePortals;
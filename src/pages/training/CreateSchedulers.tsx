@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from "react";
-import { Calendar, Clock, CheckCircle, XCircle, ChevronDown, ChevronRight } from "lucide-react";
+import React, { useState, useEffect, useRef } from "react";
+import { Calendar, Clock, CheckCircle, XCircle, ChevronDown, ChevronRight, Eye, Save, Trash2, Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -8,30 +8,35 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI } from "@/lib/skytap-api";
-import { format } from "date-fns";
+import { cachedConfigurationLoaders, skytapKeys } from "@/hooks/use-skytap-queries";
+import { skytapAPI, isAbortError, SkytapSchedulePayload } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeStepConfigurations, loadStepConfigurations } from "@/lib/training-scope";
+import { ClassSchedule, StepInputs } from "@/lib/training-steps";
+import { formatInTimeZone, getTimeZoneOffset, resolveTimeZone, toSkytapTimeZone } from "@/lib/time-zones";
+import { SchedulerPreset, deleteSchedulerPreset, listSchedulerPresets, saveSchedulerPreset } from "@/lib/scheduler-presets";
+import { DayPlan, SCHEDULE_ACTION_TYPES, ScheduleActionType, WEEK_DAYS, WeekDay, dayPlanLabel, firstClassDate, fromMinutes, planSchedules, simpleDayPlan, toMinutes, validateDayPlans } from "@/lib/schedule-timeline";
+import { TimeZoneSelect } from "@/components/training/TimeZoneSelect";
+import { ClassDefinition, ClassScheduleSettings, fromDayPlans, toDayPlans } from "@/lib/class-definition";
+import { useAutoRun } from "@/hooks/use-auto-run";
 
 interface SchedulerFormData {
   projectId: string;
   staggerMinutes: number;
+  /** IANA zone */
   timeZone: string;
   startDate: string;
-  startTime: string;
   endDate: string;
   endTime: string;
-  hoursPerDay: string;
   title: string;
-  recurringDays: {
-    monday: boolean;
-    tuesday: boolean;
-    wednesday: boolean;
-    thursday: boolean;
-    friday: boolean;
-    saturday: boolean;
-    sunday: boolean;
-  };
+  /** One timeline per group of days; each becomes its own Skytap schedule */
+  dayPlans: DayPlan[];
+  deleteAtEnd: boolean;
+  notifyUser: boolean;
 }
 
 interface SchedulerResult {
@@ -43,43 +48,31 @@ interface SchedulerResult {
   endTime: string;
 }
 
+
 interface CreateSchedulersProps {
   projectId: string;
   onComplete: (results: any) => void;
-  stepResults?: Record<string, any>;
+  /** Outputs of the steps that ran before this one */
+  inputs?: StepInputs;
+  /** Imported class definition that fills in the form */
+  classDefinition?: ClassDefinition | null;
+  /** Create the schedulers as soon as the form is filled in */
+  autoRun?: boolean;
 }
 
-const TIMEZONE_OPTIONS: Record<string, string> = {
-  'Central Time (US & Canada)': '-06:00',
-  'Eastern Time (US & Canada)': '-05:00',
-  'London': '+00:00',
-  'Mountain Time (US & Canada)': '-07:00',
-  'Mumbai': '+05:30',
-  'Pacific Time (US & Canada)': '-08:00',
-  'Rome': '+01:00',
-  'Stockholm': '+01:00'
-};
-
-const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComplete, stepResults }) => {
+const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComplete, inputs, classDefinition, autoRun }) => {
+  const queryClient = useQueryClient();
   const [formData, setFormData] = useState<SchedulerFormData>({
     projectId: projectId || '',
     staggerMinutes: 10,
     timeZone: '',
     startDate: '',
-    startTime: '',
     endDate: '',
     endTime: '',
-    hoursPerDay: '',
     title: '',
-    recurringDays: {
-      monday: false,
-      tuesday: false,
-      wednesday: false,
-      thursday: false,
-      friday: false,
-      saturday: false,
-      sunday: false
-    }
+    dayPlans: [simpleDayPlan()],
+    deleteAtEnd: false,
+    notifyUser: true
   });
   const [isCreating, setIsCreating] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -88,6 +81,15 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
   const [error, setError] = useState<string | null>(null);
   const [isLogsOpen, setIsLogsOpen] = useState(true);
   const [isResultsOpen, setIsResultsOpen] = useState(true);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const copies = inputs?.copies;
+  const [presets, setPresets] = useState<SchedulerPreset[]>(() => listSchedulerPresets());
+  const [presetName, setPresetName] = useState('');
+  const [selectedPreset, setSelectedPreset] = useState('');
+  // Environments the preview covers; the planned times follow the form as it changes
+  const [previewTarget, setPreviewTarget] = useState<{ configurations: { id: string; name: string }[]; staggerOffset: number } | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   // Update projectId when prop changes
   useEffect(() => {
@@ -96,19 +98,43 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
     }
   }, [projectId]);
 
+  // A preview of the other scope would list the wrong environments
+  useEffect(() => {
+    setPreviewTarget(null);
+  }, [copies]);
+
+  useEffect(() => {
+    const schedule = classDefinition?.schedule;
+    if (!schedule) return;
+    setFormData(prev => ({
+      ...prev,
+      title: schedule.title,
+      timeZone: resolveTimeZone(schedule.timeZone),
+      startDate: schedule.startDate,
+      endDate: schedule.endDate,
+      endTime: schedule.endTime,
+      staggerMinutes: schedule.staggerMinutes ?? prev.staggerMinutes,
+      dayPlans: toDayPlans(schedule.days),
+      deleteAtEnd: schedule.deleteAtEnd ?? false,
+      notifyUser: schedule.notifyUser ?? true,
+    }));
+  }, [classDefinition]);
+
+  useAutoRun(!!autoRun, () => handleCreateSchedulers());
+
   const validateForm = () => {
     if (!formData.staggerMinutes || formData.staggerMinutes < 1) return 'Stagger Minutes must be at least 1';
     if (!formData.timeZone) return 'Time Zone is required';
     if (!formData.startDate) return 'Start Date is required';
-    if (!formData.startTime) return 'Start Time is required';
     if (!formData.endDate) return 'End Date is required';
     if (!formData.endTime) return 'End Time is required';
-    if (!formData.hoursPerDay) return 'Hours Per Day is required';
+    if (formData.endDate < formData.startDate) return 'End Date must not be before Start Date';
     if (!formData.projectId) return 'Project ID is required';
     if (!formData.title) return 'Scheduler Title is required';
-    if (!Object.values(formData.recurringDays).some(day => day)) {
-      return 'At least one recurring day must be selected';
-    }
+    const timelineError = validateDayPlans(formData.dayPlans);
+    if (timelineError) return timelineError;
+    const unusedPlan = formData.dayPlans.findIndex(plan => !firstClassDate(plan, formData.startDate, formData.endDate));
+    if (unusedPlan !== -1) return `${dayPlanLabel(formData.dayPlans[unusedPlan])} never falls between the start and end dates`;
     return null;
   };
 
@@ -132,147 +158,269 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
     }));
   };
 
-  const handleRecurringDayChange = (day: keyof SchedulerFormData['recurringDays']) => (
+  const updateDayPlan = (planIndex: number, update: (plan: DayPlan) => DayPlan) => {
+    setFormData(prev => ({
+      ...prev,
+      dayPlans: prev.dayPlans.map((plan, index) => index === planIndex ? update(plan) : plan)
+    }));
+  };
+
+  const handleRecurringDayChange = (planIndex: number, day: WeekDay) => (
     checked: boolean
   ) => {
+    updateDayPlan(planIndex, plan => ({ ...plan, days: { ...plan.days, [day]: checked } }));
+  };
+
+  const handleActionChange = (planIndex: number, actionIndex: number, change: { type?: ScheduleActionType; time?: string }) => {
+    updateDayPlan(planIndex, plan => ({
+      ...plan,
+      actions: plan.actions.map((action, index) => index === actionIndex ? { ...action, ...change } : action)
+    }));
+  };
+
+  // New actions default to an hour after the last one
+  const handleAddAction = (planIndex: number) => {
+    updateDayPlan(planIndex, plan => {
+      const last = plan.actions[plan.actions.length - 1];
+      const time = last?.time ? fromMinutes(Math.min(toMinutes(last.time) + 60, 24 * 60 - 1)) : '09:00';
+      return { ...plan, actions: [...plan.actions, { type: last?.type === 'run' ? 'suspend' : 'run', time }] };
+    });
+  };
+
+  const handleRemoveAction = (planIndex: number, actionIndex: number) => {
+    updateDayPlan(planIndex, plan => ({ ...plan, actions: plan.actions.filter((_, index) => index !== actionIndex) }));
+  };
+
+  // Another set of days starts from the first plan's timeline, e.g. to shorten Friday
+  const handleAddDayPlan = () => {
     setFormData(prev => ({
       ...prev,
-      recurringDays: {
-        ...prev.recurringDays,
-        [day]: checked
-      }
+      dayPlans: [...prev.dayPlans, { ...simpleDayPlan(), actions: prev.dayPlans[0].actions.map(action => ({ ...action })) }]
     }));
   };
 
+  const handleRemoveDayPlan = (planIndex: number) => {
+    setFormData(prev => ({ ...prev, dayPlans: prev.dayPlans.filter((_, index) => index !== planIndex) }));
+  };
+
+  const handleApplyPreset = (name: string) => {
+    const preset = presets.find(candidate => candidate.name === name);
+    if (!preset) return;
+    setSelectedPreset(name);
+    setPresetName(name);
+    setFormData(prev => ({
+      ...prev,
+      ...preset.settings,
+    }));
+  };
+
+  const handleSavePreset = () => {
+    const { staggerMinutes, timeZone, endTime, title, dayPlans, deleteAtEnd, notifyUser } = formData;
+    setPresets(saveSchedulerPreset(presetName, { staggerMinutes, timeZone, endTime, title, dayPlans, deleteAtEnd, notifyUser }));
+    setSelectedPreset(presetName.trim());
+    toast({
+      title: "Preset Saved",
+      description: `Saved scheduler preset "${presetName.trim()}"`,
+    });
+  };
+
+  const handleDeletePreset = () => {
+    setPresets(deleteSchedulerPreset(selectedPreset));
+    setSelectedPreset('');
+  };
+
   const addLog = (message: string) => {
     setLogs(prev => [...prev, message]);
   };
 
-  const formatWithTimezone = (date: Date, timeZone: string) => {
-    const offset = TIMEZONE_OPTIONS[timeZone] || '+00:00';
-    return format(date, `yyyy/MM/dd HH:mm:ss '${offset}'`);
+  // Environments this step schedules, and how many seats earlier in the project it staggers after
+  const fetchTargetConfigurations = async () => {
+    const scoped = await loadStepConfigurations(inputs, cachedConfigurationLoaders(queryClient, formData.projectId));
+    // New seats stagger on after the class's existing seats so they don't all start with seat 1
+    return { ...scoped, staggerOffset: copies?.earlierSeats ?? 0 };
+  };
+
+  const handlePreview = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setIsPreviewing(true);
+    setError(null);
+    try {
+      setPreviewTarget(await fetchTargetConfigurations());
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to preview schedules');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const previewValid = previewTarget && validateForm() === null;
+  const preview = previewValid ? planSchedules(previewTarget.configurations, formData, previewTarget.staggerOffset) : [];
+  // Offsets differ when the class runs across a daylight saving change
+  const classOffsetChanges = preview.length > 0 &&
+    getTimeZoneOffset(preview[0].firstRun, formData.timeZone) !== getTimeZoneOffset(preview[0].endAt, formData.timeZone);
+
+  // Stop creating schedulers after the in-flight requests finish
+  const handleCancel = () => {
+    if (!abortControllerRef.current) return;
+    setIsCancelling(true);
+    addLog('Cancelling after in-flight schedulers are created...');
+    abortControllerRef.current.abort();
   };
 
   const handleCreateSchedulers = async () => {
     const validationError = validateForm();
     if (validationError) {
       setError(validationError);
+      onComplete({ success: false, error: validationError, logs: logs });
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsCreating(true);
+    setIsCancelling(false);
     setError(null);
     setLogs([]);
     setResults([]);
     setProgress(0);
 
     try {
-      const { projectId, staggerMinutes, timeZone, startDate, startTime, endDate, endTime, hoursPerDay, title, recurringDays } = formData;
+      const { projectId, staggerMinutes, timeZone, startDate, endDate, endTime, dayPlans, deleteAtEnd, notifyUser } = formData;
 
       addLog(`Starting scheduler creation for project ${projectId}`);
       addLog(`Stagger Minutes: ${staggerMinutes}`);
       addLog(`Time Zone: ${timeZone}`);
-      addLog(`Hours Per Day: ${hoursPerDay}`);
-
-      // First, fetch all configurations for the project
-      addLog('Fetching project configurations...');
-      const configurationsResponse = await skytapAPI.getProjectConfigurations(projectId);
-      const configurations = configurationsResponse;
+      dayPlans.forEach(plan => {
+        addLog(`${dayPlanLabel(plan)}: ${plan.actions.map(action => `${action.type} at ${action.time}`).join(', ')}`);
+      });
 
-      if (!configurations || configurations.length === 0) {
-        throw new Error('No configurations found in the specified project');
+      const target = await fetchTargetConfigurations();
+      const { configurations, staggerOffset } = target;
+      describeStepConfigurations(target, inputs).forEach(addLog);
+      if (copies?.addedSeats) {
+        addLog(`Scheduling only the added seat(s), staggered after the ${staggerOffset} existing seat(s); other environments are left as they are`);
       }
 
-      addLog(`Found ${configurations.length} configuration(s) in project`);
+      // Times are worked out in the class zone, so each date gets the offset in effect on that date
+      const plan = planSchedules(configurations, formData, staggerOffset);
+      const skytapTimeZone = toSkytapTimeZone(timeZone);
 
-      // Parse start and end times
-      const startTimeDate = new Date(`${startDate}T${startTime}`);
-      const endTimeDate = new Date(`${endDate}T${endTime}`);
-      const baseStartMinutes = startTimeDate.getHours() * 60 + startTimeDate.getMinutes();
-
-      // Convert recurring days to array format (uppercase for Skytap API)
-      const recurringDaysArray = Object.entries(recurringDays)
-        .filter(([_, selected]) => selected)
-        .map(([day, _]) => day.toUpperCase());
+      // Create a scheduler for each configuration with staggered start times
+      const schedulerRun = await runBulk(plan, async (planned): Promise<SchedulerResult> => {
+        const startAt = formatInTimeZone(planned.firstRun, timeZone);
+        const endAt = formatInTimeZone(planned.endAt, timeZone);
+
+        addLog(`Creating scheduler for ${planned.configurationName}, ${planned.days} (staggered start: ${startAt} - ${staggerMinutes}min delay)`);
+
+        const schedulerPayload: SkytapSchedulePayload = {
+          title: planned.title,
+          configuration_id: planned.configurationId,
+          actions: planned.actions,
+          next_action_name: 'run',
+          next_action_time: startAt,
+          start_at: startAt,
+          end_at: endAt,
+          notify_user: notifyUser,
+          delete_at_end: deleteAtEnd,
+          executions: [],
+          recurring_days: planned.recurringDays,
+          time_zone: skytapTimeZone
+        };
+
+        addLog(`Sending scheduler payload: ${JSON.stringify(schedulerPayload, null, 2)}`);
+        
+        const schedulerResponse = await skytapAPI.createScheduler(schedulerPayload);
+        
+        addLog(`Scheduler API response: ${JSON.stringify(schedulerResponse, null, 2)}`);
+        addLog(`Successfully created scheduler for ${planned.configurationName} (ID: ${schedulerResponse.id})`);
+
+        return {
+          configurationId: planned.configurationId,
+          configurationName: planned.configurationName,
+          schedulerId: schedulerResponse.id,
+          title: schedulerPayload.title,
+          startTime: startAt,
+          endTime: endAt
+        };
+      }, {
+        signal,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'failed') {
+            addLog(`Failed to create scheduler for ${outcome.item.configurationName}: ${outcome.error.message}`);
+          }
+        },
+        onProgress: ({ percent }) => setProgress(percent),
+      });
 
-      addLog(`Recurring days: ${recurringDaysArray.join(', ')}`);
+      const schedulerResults = schedulerRun.succeeded
+        .sort((a, b) => a.index - b.index)
+        .map(({ result }) => result);
 
-      const totalSteps = configurations.length;
-      let currentStep = 0;
-      const schedulerResults: SchedulerResult[] = [];
+      setResults(schedulerResults);
+      if (schedulerResults.length > 0) {
+        await queryClient.invalidateQueries({ queryKey: skytapKeys.schedules() });
+      }
 
-      // Create a scheduler for each configuration with staggered start times
-      for (let i = 0; i < configurations.length; i++) {
-        const config = configurations[i];
-        
-        try {
-          // Calculate staggered start time (configurable minutes between each)
-          const staggeredMinutes = baseStartMinutes + (i * staggerMinutes);
-          const staggeredHours = Math.floor(staggeredMinutes / 60);
-          const staggeredMins = staggeredMinutes % 60;
-
-          // Create new date objects for start and end times
-          const schedulerStartDate = new Date(startDate);
-          schedulerStartDate.setHours(staggeredHours, staggeredMins, 0);
-
-          const schedulerEndDate = new Date(endDate);
-          schedulerEndDate.setHours(endTimeDate.getHours(), endTimeDate.getMinutes(), 0);
-
-          addLog(`Creating scheduler for ${config.name} (staggered start: ${staggeredHours}:${staggeredMins.toString().padStart(2, '0')} - ${staggerMinutes}min delay)`);
-
-          const schedulerPayload = {
-            title: `${title} - ${config.name}`,
-            configuration_id: config.id,
-            actions: [
-              { type: 'run', offset: 0 },
-              { type: 'suspend', offset: parseInt(hoursPerDay) * 3600 }
-            ],
-            next_action_name: 'run',
-            next_action_time: formatWithTimezone(schedulerStartDate, timeZone),
-            start_at: formatWithTimezone(schedulerStartDate, timeZone),
-            end_at: formatWithTimezone(schedulerEndDate, timeZone),
-            notify_user: true,
-            delete_at_end: false,
-            executions: [],
-            recurring_days: recurringDaysArray,
-            time_zone: timeZone
-          };
-
-          addLog(`Sending scheduler payload: ${JSON.stringify(schedulerPayload, null, 2)}`);
-          
-          const schedulerResponse = await skytapAPI.createScheduler(schedulerPayload);
-          
-          addLog(`Scheduler API response: ${JSON.stringify(schedulerResponse, null, 2)}`);
-          addLog(`Successfully created scheduler for ${config.name} (ID: ${schedulerResponse.id})`);
-
-          schedulerResults.push({
-            configurationId: config.id,
-            configurationName: config.name,
-            schedulerId: schedulerResponse.id,
-            title: schedulerPayload.title,
-            startTime: formatWithTimezone(schedulerStartDate, timeZone),
-            endTime: formatWithTimezone(schedulerEndDate, timeZone)
-          });
-
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          addLog(`Failed to create scheduler for ${config.name}: ${errorMessage}`);
-        }
-
-        currentStep++;
-        setProgress((currentStep / totalSteps) * 100);
+      if (schedulerRun.cancelled) {
+        const remaining = schedulerRun.skipped.map(({ item }) => item.configurationName);
+        addLog(`Scheduler creation cancelled. Created ${schedulerResults.length} of ${plan.length} scheduler(s).`);
+        addLog(`Not scheduled: ${remaining.join(', ')}`);
+
+        onComplete({
+          success: false,
+          cancelled: true,
+          results: schedulerResults,
+          logs: logs,
+          totalSchedulers: schedulerResults.length
+        });
+
+        toast({
+          title: "Scheduler Creation Cancelled",
+          description: `Created ${schedulerResults.length} of ${plan.length} scheduler(s) before stopping`,
+          variant: "destructive",
+        });
+        return;
       }
 
-      setResults(schedulerResults);
       setProgress(100);
       addLog(`Scheduler creation completed! Created ${schedulerResults.length} scheduler(s)`);
       
+      // Class hours, so later steps (e.g. portal access windows) can follow the schedule
+      const classSchedule: ClassSchedule = {
+        timeZone,
+        startDate,
+        startTime: fromMinutes(Math.min(...dayPlans.map(plan => toMinutes(plan.actions[0].time)))),
+        endDate,
+        endTime
+      };
+
+      // The form as run, for exporting a class definition
+      const settings: ClassScheduleSettings = {
+        title: formData.title,
+        timeZone,
+        startDate,
+        endDate,
+        endTime,
+        staggerMinutes,
+        days: fromDayPlans(dayPlans),
+        deleteAtEnd,
+        notifyUser
+      };
+
       // Call onComplete with results
       onComplete({
         success: true,
         results: schedulerResults,
         logs: logs,
-        totalSchedulers: schedulerResults.length
+        totalSchedulers: schedulerResults.length,
+        settings,
+        outputs: { classSchedule }
       });
       
       toast({
@@ -281,6 +429,11 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
       });
 
     } catch (error) {
+      if (isAbortError(error)) {
+        addLog('Scheduler creation cancelled before any schedulers were created');
+        onComplete({ success: false, cancelled: true, results: [], logs: logs });
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to create schedulers';
       setError(errorMessage);
       addLog(`Scheduler creation failed: ${errorMessage}`);
@@ -297,7 +450,9 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
       setIsCreating(false);
+      setIsCancelling(false);
     }
   };
 
@@ -309,6 +464,69 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
         </Alert>
       )}
 
+      {copies && (
+        <Alert>
+          <AlertDescription>
+            {copies.addedSeats
+              ? <>Adding seats: schedulers are created only for the {copies.ids.length} new cop{copies.ids.length === 1 ? 'y' : 'ies'}, staggered after the existing ones.</>
+              : <>Schedulers are created only for the {copies.ids.length} cop{copies.ids.length === 1 ? 'y' : 'ies'} made by the copy step; other environments in the project are left as they are.</>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="schedulerPreset">Preset</Label>
+          <div className="flex gap-2">
+            <Select value={selectedPreset} onValueChange={handleApplyPreset} disabled={isCreating || presets.length === 0}>
+              <SelectTrigger id="schedulerPreset">
+                <SelectValue placeholder={presets.length === 0 ? "No saved presets" : "Load a preset"} />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleDeletePreset}
+              disabled={isCreating || !selectedPreset}
+              aria-label="Delete Preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="presetName">Save Settings As</Label>
+          <div className="flex gap-2">
+            <Input
+              id="presetName"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="e.g., Weekday mornings (Eastern)"
+              disabled={isCreating}
+            />
+            <Button
+              variant="outline"
+              onClick={handleSavePreset}
+              disabled={isCreating || !presetName.trim()}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Preset
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Presets keep times, days, zone, stagger and title; dates are picked per class
+          </p>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="staggerMinutes">Stagger Minutes</Label>
@@ -340,30 +558,10 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
 
         <div className="space-y-2">
           <Label htmlFor="timeZone">Time Zone</Label>
-          <Select value={formData.timeZone} onValueChange={handleTimezoneChange} disabled={isCreating}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select timezone" />
-            </SelectTrigger>
-            <SelectContent>
-              {Object.keys(TIMEZONE_OPTIONS).map((tz) => (
-                <SelectItem key={tz} value={tz}>
-                  {tz}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        <div className="space-y-2">
-          <Label htmlFor="hoursPerDay">Hours Per Day</Label>
-          <Input
-            id="hoursPerDay"
-            type="number"
-            min="1"
-            max="24"
-            value={formData.hoursPerDay}
-            onChange={handleChange('hoursPerDay')}
-            placeholder="Hours per day"
+          <TimeZoneSelect
+            id="timeZone"
+            value={formData.timeZone}
+            onValueChange={handleTimezoneChange}
             disabled={isCreating}
           />
         </div>
@@ -379,17 +577,6 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
           />
         </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="startTime">Start Time</Label>
-          <Input
-            id="startTime"
-            type="time"
-            value={formData.startTime}
-            onChange={handleChange('startTime')}
-            disabled={isCreating}
-          />
-        </div>
-
         <div className="space-y-2">
           <Label htmlFor="endDate">End Date</Label>
           <Input
@@ -410,36 +597,211 @@ const CreateSchedulers: React.FC<CreateSchedulersProps> = ({ projectId, onComple
             onChange={handleChange('endTime')}
             disabled={isCreating}
           />
+          <p className="text-xs text-muted-foreground">
+            When the schedules stop on the end date
+          </p>
         </div>
       </div>
 
-      <div className="space-y-3">
-        <Label>Recurring Days</Label>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-          {Object.entries(formData.recurringDays).map(([day, checked]) => (
-            <div key={day} className="flex items-center space-x-2">
-              <Checkbox
-                id={day}
-                checked={checked}
-                onCheckedChange={handleRecurringDayChange(day as keyof SchedulerFormData['recurringDays'])}
+      {formData.dayPlans.map((plan, planIndex) => (
+        <div
+          key={planIndex}
+          role="group"
+          aria-label={`Day plan ${planIndex + 1}`}
+          className="space-y-4 rounded-md border p-4"
+        >
+          <div className="flex items-center justify-between">
+            <Label>{formData.dayPlans.length > 1 ? `Day Plan ${planIndex + 1}` : 'Recurring Days'}</Label>
+            {planIndex > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemoveDayPlan(planIndex)}
                 disabled={isCreating}
-              />
-              <Label htmlFor={day} className="text-sm capitalize">
-                {day}
-              </Label>
-            </div>
-          ))}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove Day Plan
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {WEEK_DAYS.map((day) => (
+              <div key={day} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`plan-${planIndex}-${day}`}
+                  checked={plan.days[day]}
+                  onCheckedChange={handleRecurringDayChange(planIndex, day)}
+                  disabled={isCreating}
+                />
+                <Label htmlFor={`plan-${planIndex}-${day}`} className="text-sm capitalize">
+                  {day}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Daily Timeline</Label>
+            {plan.actions.map((action, actionIndex) => (
+              <div key={actionIndex} className="flex items-center gap-2">
+                <Select
+                  value={action.type}
+                  onValueChange={(type) => handleActionChange(planIndex, actionIndex, { type: type as ScheduleActionType })}
+                  disabled={isCreating}
+                >
+                  <SelectTrigger className="w-40" aria-label={`Action ${actionIndex + 1}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SCHEDULE_ACTION_TYPES).map(([type, label]) => (
+                      <SelectItem key={type} value={type}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">at</span>
+                <Input
+                  type="time"
+                  className="w-36"
+                  aria-label={`Action ${actionIndex + 1} time`}
+                  value={action.time}
+                  onChange={(e) => handleActionChange(planIndex, actionIndex, { time: e.target.value })}
+                  disabled={isCreating}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemoveAction(planIndex, actionIndex)}
+                  disabled={isCreating || plan.actions.length === 1}
+                  aria-label={`Remove action ${actionIndex + 1}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleAddAction(planIndex)}
+              disabled={isCreating}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Action
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Starts with Run; each environment's timeline shifts by its stagger
+            </p>
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-3">
+        <Button
+          variant="outline"
+          onClick={handleAddDayPlan}
+          disabled={isCreating}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Day Plan
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Give some days different hours, such as a shorter Friday
+        </p>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="deleteAtEnd"
+            checked={formData.deleteAtEnd}
+            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, deleteAtEnd: checked === true }))}
+            disabled={isCreating}
+          />
+          <Label htmlFor="deleteAtEnd">Delete the environment when the schedule ends</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="notifyUser"
+            checked={formData.notifyUser}
+            onCheckedChange={(checked) => setFormData(prev => ({ ...prev, notifyUser: checked === true }))}
+            disabled={isCreating}
+          />
+          <Label htmlFor="notifyUser">Email me when scheduled actions run</Label>
         </div>
       </div>
 
-      <Button 
-        onClick={handleCreateSchedulers} 
-        disabled={isCreating || !projectId}
-        className="w-full"
-      >
-        <Calendar className="h-4 w-4 mr-2" />
-        {isCreating ? "Creating Schedulers..." : "Create Schedulers"}
-      </Button>
+      <div className="flex gap-3">
+        <Button
+          onClick={handlePreview}
+          disabled={isCreating || isPreviewing || !projectId}
+          variant="outline"
+        >
+          <Eye className="h-4 w-4 mr-2" />
+          {isPreviewing ? "Loading..." : "Preview Schedule"}
+        </Button>
+        <Button 
+          onClick={handleCreateSchedulers} 
+          disabled={isCreating || !projectId}
+          className="flex-1"
+        >
+          <Calendar className="h-4 w-4 mr-2" />
+          {isCreating ? "Creating Schedulers..." : "Create Schedulers"}
+        </Button>
+        {isCreating && (
+          <Button
+            onClick={handleCancel}
+            disabled={isCancelling}
+            variant="destructive"
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            {isCancelling ? "Cancelling..." : "Cancel"}
+          </Button>
+        )}
+      </div>
+
+      {preview.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Schedule Preview</CardTitle>
+            <CardDescription>
+              When each environment's schedules run, in {formData.timeZone}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {classOffsetChanges && (
+              <Alert>
+                <Clock className="h-4 w-4" />
+                <AlertDescription>
+                  Clocks change during this class. Schedules keep the same local times; the UTC offset moves
+                  from {formatInTimeZone(preview[0].firstRun, formData.timeZone).slice(-6)} to {formatInTimeZone(preview[0].endAt, formData.timeZone).slice(-6)}.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Environment</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>First Run</TableHead>
+                    <TableHead>Daily Timeline</TableHead>
+                    <TableHead>Schedule Ends</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.map((planned) => (
+                    <TableRow key={`${planned.configurationId}-${planned.days}`}>
+                      <TableCell className="font-medium">{planned.configurationName}</TableCell>
+                      <TableCell>{planned.days}</TableCell>
+                      <TableCell>{formatInTimeZone(planned.firstRun, formData.timeZone)}</TableCell>
+                      <TableCell>{planned.timeline.join(' → ')}</TableCell>
+                      <TableCell>{formatInTimeZone(planned.endAt, formData.timeZone)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
 
       {isCreating && (
         <div className="space-y-2">
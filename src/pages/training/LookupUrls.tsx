@@ -5,27 +5,43 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI } from "@/lib/skytap-api";
+import { useAutoRun } from "@/hooks/use-auto-run";
+import { cachedConfigurationLoaders, skytapQueries } from "@/hooks/use-skytap-queries";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeStepConfigurations, loadStepConfigurations } from "@/lib/training-scope";
+import { StepInputs } from "@/lib/training-steps";
+import { getStudentAssignments } from "@/lib/training-runs";
 
 interface UrlResult {
+  configurationId: string;
   configurationName: string;
   desktopUrl: string;
+  /** Addresses the public IP step attached, when it ran */
+  publicIps?: string[];
+  /** Attendee the copy was assigned to when it was created from a roster */
+  student?: string;
 }
 
 interface LookupUrlsProps {
   projectId: string;
   onComplete: (results: any) => void;
-  stepResults?: Record<string, any>;
+  /** Outputs of the steps that ran before this one */
+  inputs?: StepInputs;
+  /** Look the URLs up as soon as the step opens */
+  autoRun?: boolean;
 }
 
-const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResults }) => {
+const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, inputs, autoRun }) => {
+  const queryClient = useQueryClient();
   const [urlResults, setUrlResults] = useState<UrlResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copySuccess, setCopySuccess] = useState(false);
   const [logs, setLogs] = useState<string[]>([]);
   const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const copies = inputs?.copies;
 
   const addLog = (message: string) => {
     setLogs(prev => [...prev, message]);
@@ -34,6 +50,7 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
   const handleLookup = async () => {
     if (!projectId.trim()) {
       setError('Project ID is required');
+      onComplete({ success: false, error: 'Project ID is required', logs: logs });
       return;
     }
 
@@ -45,42 +62,46 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
     try {
       addLog(`Starting URL lookup for project ${projectId}`);
       
-      // First get all configurations in the project
-      const configsResponse = await skytapAPI.getProjectConfigurations(projectId.trim());
-      const configurations = configsResponse;
+      const scoped = await loadStepConfigurations(inputs, cachedConfigurationLoaders(queryClient, projectId));
+      describeStepConfigurations(scoped, inputs).forEach(addLog);
+      const { configurations } = scoped;
 
-      addLog(`Found ${configurations.length} configuration(s) in project`);
-
-      if (!configurations || configurations.length === 0) {
-        setError('No configurations found in the specified project');
-        addLog('No configurations found in the specified project');
-        return;
-      }
+      const students = getStudentAssignments(projectId.trim());
 
       // For each configuration, get its publish sets
-      const results: UrlResult[] = [];
-      for (const config of configurations) {
-        try {
-          addLog(`Checking publish sets for configuration ${config.id} (${config.name})`);
-          const publishSetsResponse = await skytapAPI.getPublishSets(config.id);
-          const publishSets = publishSetsResponse;
-          
-          if (publishSets && publishSets.length > 0) {
-            const result = {
-              configurationName: publishSets[0].configuration_name || config.name,
-              desktopUrl: publishSets[0].desktops_url
-            };
-            results.push(result);
-            addLog(`Found sharing portal for ${result.configurationName}: ${result.desktopUrl}`);
-          } else {
-            addLog(`No sharing portals found for configuration ${config.id}`);
-          }
-        } catch (error) {
-          console.error(`Error fetching publish sets for configuration ${config.id}:`, error);
-          addLog(`Error fetching publish sets for configuration ${config.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          // Continue processing other configurations even if one fails
+      const lookupRun = await runBulk(configurations, async (config): Promise<UrlResult | null> => {
+        addLog(`Checking publish sets for configuration ${config.id} (${config.name})`);
+        const publishSets = await queryClient.fetchQuery(skytapQueries.publishSets(config.id));
+
+        if (publishSets && publishSets.length > 0) {
+          const result: UrlResult = {
+            configurationId: config.id,
+            configurationName: publishSets[0].configuration_name || config.name,
+            desktopUrl: publishSets[0].desktops_url,
+            publicIps: inputs?.publicIps?.[config.id],
+            student: students.get(config.id)
+          };
+          addLog(`Found sharing portal for ${result.configurationName}: ${result.desktopUrl}`);
+          return result;
         }
-      }
+
+        addLog(`No sharing portals found for configuration ${config.id}`);
+        return null;
+      }, {
+        concurrency: 5,
+        onItemComplete: (outcome) => {
+          // Failures are logged and the remaining configurations keep processing
+          if (outcome.status === 'failed') {
+            console.error(`Error fetching publish sets for configuration ${outcome.item.id}:`, outcome.error);
+            addLog(`Error fetching publish sets for configuration ${outcome.item.id}: ${outcome.error.message}`);
+          }
+        },
+      });
+
+      const results: UrlResult[] = lookupRun.succeeded
+        .sort((a, b) => a.index - b.index)
+        .map(({ result }) => result)
+        .filter((result): result is UrlResult => result !== null);
 
       setUrlResults(results);
       addLog(`URL lookup completed. Found ${results.length} sharing portal URL(s)`);
@@ -124,9 +145,14 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
     }
   };
 
+  useAutoRun(!!autoRun, () => handleLookup());
+
+  const hasStudents = urlResults.some(result => result.student);
+  const hasPublicIps = urlResults.some(result => result.publicIps?.length);
+
   const handleCopyToClipboard = () => {
     const textToCopy = urlResults
-      .map(result => `${result.configurationName}\n${result.desktopUrl}`)
+      .map(result => [result.student, result.configurationName, result.desktopUrl, result.publicIps?.join(', ')].filter(Boolean).join('\n'))
       .join('\n\n');
     
     navigator.clipboard.writeText(textToCopy)
@@ -150,10 +176,21 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
   };
 
   const handleDownloadCsv = () => {
+    const escapeCsv = (val: unknown) => {
+      const s = String(val ?? "");
+      return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+
+    // The Student column only appears when the copies came from a roster, Public IPs when that step ran
     const csvContent = [
-      ['Configuration Name', 'Desktop URL'],
-      ...urlResults.map(result => [result.configurationName, result.desktopUrl])
-    ].map(row => row.join(',')).join('\n');
+      [...(hasStudents ? ['Student'] : []), 'Configuration Name', 'Desktop URL', ...(hasPublicIps ? ['Public IPs'] : [])],
+      ...urlResults.map(result => [
+        ...(hasStudents ? [result.student] : []),
+        result.configurationName,
+        result.desktopUrl,
+        ...(hasPublicIps ? [(result.publicIps ?? []).join(' ')] : [])
+      ])
+    ].map(row => row.map(escapeCsv).join(',')).join('\n');
 
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const link = document.createElement('a');
@@ -179,6 +216,14 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
         </Alert>
       )}
 
+      {copies && (
+        <Alert>
+          <AlertDescription>
+            {copies.addedSeats ? 'Adding seats: only' : 'Only'} the URLs of the {copies.ids.length} {copies.addedSeats ? 'new ' : ''}cop{copies.ids.length === 1 ? 'y' : 'ies'} from the copy step are listed and exported.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Button 
         onClick={handleLookup} 
         disabled={isLoading || !projectId}
@@ -237,13 +282,16 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
                 <Table>
                   <TableHeader>
                     <TableRow>
+                      {hasStudents && <TableHead>Student</TableHead>}
                       <TableHead>Configuration Name</TableHead>
                       <TableHead>Desktop URL</TableHead>
+                      {hasPublicIps && <TableHead>Public IPs</TableHead>}
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {urlResults.map((result, index) => (
                       <TableRow key={index}>
+                        {hasStudents && <TableCell>{result.student ?? ''}</TableCell>}
                         <TableCell className="font-medium">
                           {result.configurationName}
                         </TableCell>
@@ -257,6 +305,7 @@ const LookupUrls: React.FC<LookupUrlsProps> = ({ projectId, onComplete, stepResu
                             {result.desktopUrl}
                           </a>
                         </TableCell>
+                        {hasPublicIps && <TableCell className="font-mono">{(result.publicIps ?? []).join(', ')}</TableCell>}
                       </TableRow>
                     ))}
                   </TableBody>
@@ -0,0 +1,456 @@
+import React, { useState } from "react";
+import { Search, Trash2, CalendarClock, ChevronDown, ChevronRight, CopyCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { skytapKeys, skytapQueries } from "@/hooks/use-skytap-queries";
+import { skytapAPI, SkytapSchedule, SkytapScheduleUpdate } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeSkytapError } from "@/lib/skytap-errors";
+import { shiftSkytapTime } from "@/lib/time-zones";
+
+/**
+ * One environment in the project and the schedules that act on it
+ */
+interface ScheduleGroup {
+  configurationId: string;
+  configurationName: string;
+  schedules: SkytapSchedule[];
+}
+
+interface ScheduleIssue {
+  kind: 'duplicate' | 'conflict';
+  detail: string;
+}
+
+const dayList = (schedule: SkytapSchedule) =>
+  (schedule.recurring_days ?? []).map(day => day.toLowerCase());
+
+const formatDays = (schedule: SkytapSchedule) =>
+  dayList(schedule).map(day => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(', ') || 'Once';
+
+// "run 0:00, suspend 8:00": each action's time after the schedule's start
+const formatActions = (schedule: SkytapSchedule) =>
+  (schedule.actions ?? [])
+    .map(action => `${action.type} ${Math.floor(action.offset / 3600)}:${String(Math.floor(action.offset % 3600 / 60)).padStart(2, '0')}`)
+    .join(', ');
+
+// The part of a Skytap timestamp that sorts by date
+const datePart = (value?: string) => value?.slice(0, 10) ?? '';
+
+/**
+ * Flag schedules that repeat another schedule on the same environment (same actions, days and
+ * start time), and schedules whose days and dates overlap another one's
+ */
+const findScheduleIssues = (groups: ScheduleGroup[]): Map<string, ScheduleIssue> => {
+  const issues = new Map<string, ScheduleIssue>();
+  groups.forEach(({ schedules }) => {
+    const distinct: SkytapSchedule[] = [];
+    schedules.forEach(schedule => {
+      const signature = JSON.stringify([schedule.actions ?? [], [...dayList(schedule)].sort(), schedule.start_at?.slice(11, 16)]);
+      const original = distinct.find(other =>
+        JSON.stringify([other.actions ?? [], [...dayList(other)].sort(), other.start_at?.slice(11, 16)]) === signature);
+      if (original) {
+        issues.set(schedule.id, { kind: 'duplicate', detail: `Duplicate of "${original.title}"` });
+        return;
+      }
+      const overlapping = distinct.find(other => {
+        const days = dayList(other);
+        const sharesDay = days.length === 0 || dayList(schedule).length === 0 || dayList(schedule).some(day => days.includes(day));
+        const datesOverlap = (!schedule.end_at || datePart(other.start_at) <= datePart(schedule.end_at)) &&
+          (!other.end_at || datePart(schedule.start_at) <= datePart(other.end_at));
+        return sharesDay && datesOverlap;
+      });
+      if (overlapping) {
+        issues.set(schedule.id, { kind: 'conflict', detail: `Overlaps "${overlapping.title}"` });
+      }
+      distinct.push(schedule);
+    });
+  });
+  return issues;
+};
+
+interface ManageSchedulesProps {
+  projectId: string;
+}
+
+const ManageSchedules: React.FC<ManageSchedulesProps> = ({ projectId }) => {
+  const queryClient = useQueryClient();
+  const [groups, setGroups] = useState<ScheduleGroup[] | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [shiftMinutes, setShiftMinutes] = useState('');
+  const [extendDays, setExtendDays] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [isLogsOpen, setIsLogsOpen] = useState(true);
+
+  const addLog = (message: string) => {
+    setLogs(prev => [...prev, message]);
+  };
+
+  const allSchedules = (groups ?? []).flatMap(group => group.schedules);
+  const issues = findScheduleIssues(groups ?? []);
+  const duplicateIds = allSchedules.filter(schedule => issues.get(schedule.id)?.kind === 'duplicate').map(schedule => schedule.id);
+  const selectedSchedules = allSchedules.filter(schedule => selectedIds.has(schedule.id));
+
+  const toggleSelected = (scheduleId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(scheduleId);
+      else next.delete(scheduleId);
+      return next;
+    });
+  };
+
+  const handleLoadSchedules = async () => {
+    if (!projectId.trim()) {
+      setError('Project ID is required');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setLogs([]);
+
+    try {
+      addLog(`Loading schedules for project ${projectId}`);
+      const [configurations, schedules] = await Promise.all([
+        queryClient.fetchQuery(skytapQueries.projectConfigurations(projectId.trim())),
+        // Always re-read schedules; they are edited outside this page too
+        queryClient.fetchQuery({ ...skytapQueries.schedules(), staleTime: 0 }),
+      ]);
+      const loaded = configurations.map(config => ({
+        configurationId: config.id,
+        configurationName: config.name,
+        schedules: schedules.filter(schedule => schedule.configuration_id === config.id),
+      }));
+      setGroups(loaded);
+      setSelectedIds(new Set());
+
+      const found = findScheduleIssues(loaded);
+      const duplicates = [...found.values()].filter(issue => issue.kind === 'duplicate').length;
+      addLog(`Found ${loaded.reduce((n, group) => n + group.schedules.length, 0)} schedule(s) on ${configurations.length} configuration(s)`);
+      if (found.size > 0) {
+        addLog(`${duplicates} duplicate(s) and ${found.size - duplicates} conflict(s) need attention`);
+      }
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to load schedules');
+      setError(errorMessage);
+      addLog(`Loading schedules failed: ${errorMessage}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Swap updated schedules into the table and drop deleted ones
+  const applyToGroups = (updated: SkytapSchedule[], deletedIds: string[] = []) => {
+    setGroups(prev => prev && prev.map(group => ({
+      ...group,
+      schedules: group.schedules
+        .filter(schedule => !deletedIds.includes(schedule.id))
+        .map(schedule => updated.find(candidate => candidate.id === schedule.id) ?? schedule),
+    })));
+  };
+
+  const buildUpdate = (schedule: SkytapSchedule): SkytapScheduleUpdate => {
+    const minutes = Number(shiftMinutes) || 0;
+    const days = Number(extendDays) || 0;
+    const update: SkytapScheduleUpdate = {};
+    if (minutes) {
+      if (schedule.start_at) update.start_at = shiftSkytapTime(schedule.start_at, { minutes }, schedule.time_zone);
+      if (schedule.next_action_time) update.next_action_time = shiftSkytapTime(schedule.next_action_time, { minutes }, schedule.time_zone);
+    }
+    if (days && schedule.end_at) {
+      update.end_at = shiftSkytapTime(schedule.end_at, { days }, schedule.time_zone);
+    }
+    return update;
+  };
+
+  const handleApplyEdits = async () => {
+    if (!Number(shiftMinutes) && !Number(extendDays)) {
+      setError('Enter minutes to shift start times or days to extend end dates');
+      return;
+    }
+
+    setIsApplying(true);
+    setError(null);
+    addLog(`Updating ${selectedSchedules.length} schedule(s): shift starts ${Number(shiftMinutes) || 0} min, extend end ${Number(extendDays) || 0} day(s)`);
+
+    const run = await runBulk(selectedSchedules, async (schedule) => {
+      const update = buildUpdate(schedule);
+      const updated = await skytapAPI.updateSchedule(schedule.id, update);
+      addLog(`Updated "${schedule.title}"${update.start_at ? `: starts ${update.start_at}` : ''}${update.end_at ? `, ends ${update.end_at}` : ''}`);
+      return updated;
+    }, {
+      concurrency: 5,
+      onItemComplete: (outcome) => {
+        if (outcome.status === 'failed') {
+          addLog(`Failed to update "${outcome.item.title}": ${describeSkytapError(outcome.error)}`);
+        }
+      },
+    });
+
+    applyToGroups(run.succeeded.map(({ result }) => result));
+    await queryClient.invalidateQueries({ queryKey: skytapKeys.schedules() });
+    setIsApplying(false);
+
+    if (run.failed.length > 0) {
+      setError(`Failed to update ${run.failed.length} schedule(s); see the log for details`);
+    }
+    toast({
+      title: run.failed.length > 0 ? "Some Updates Failed" : "Schedules Updated",
+      description: `Updated ${run.succeeded.length} of ${selectedSchedules.length} schedule(s)`,
+      variant: run.failed.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  const handleDeleteSelected = async () => {
+    setShowDeleteConfirm(false);
+    setIsApplying(true);
+    setError(null);
+    addLog(`Deleting ${selectedSchedules.length} schedule(s)`);
+
+    const run = await runBulk(selectedSchedules, async (schedule) => {
+      await skytapAPI.deleteSchedule(schedule.id);
+      addLog(`Deleted "${schedule.title}"`);
+      return schedule.id;
+    }, {
+      concurrency: 5,
+      onItemComplete: (outcome) => {
+        if (outcome.status === 'failed') {
+          addLog(`Failed to delete "${outcome.item.title}": ${describeSkytapError(outcome.error)}`);
+        }
+      },
+    });
+
+    const deletedIds = run.succeeded.map(({ result }) => result);
+    applyToGroups([], deletedIds);
+    setSelectedIds(prev => new Set([...prev].filter(id => !deletedIds.includes(id))));
+    await queryClient.invalidateQueries({ queryKey: skytapKeys.schedules() });
+    setIsApplying(false);
+
+    if (run.failed.length > 0) {
+      setError(`Failed to delete ${run.failed.length} schedule(s); see the log for details`);
+    }
+    toast({
+      title: run.failed.length > 0 ? "Some Deletes Failed" : "Schedules Deleted",
+      description: `Deleted ${deletedIds.length} of ${selectedSchedules.length} schedule(s)`,
+      variant: run.failed.length > 0 ? "destructive" : "default",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button
+        onClick={handleLoadSchedules}
+        disabled={isLoading || isApplying || !projectId}
+        className="w-full"
+      >
+        <Search className="h-4 w-4 mr-2" />
+        {isLoading ? "Loading..." : groups ? "Reload Schedules" : "Load Schedules"}
+      </Button>
+
+      {groups && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Schedules</CardTitle>
+            <CardDescription>
+              {allSchedules.length} schedule(s) on {groups.length} environment(s)
+              {issues.size > 0 && `; ${duplicateIds.length} duplicate(s) and ${issues.size - duplicateIds.length} conflict(s) highlighted`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {duplicateIds.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setSelectedIds(new Set(duplicateIds))}
+                disabled={isApplying}
+              >
+                <CopyCheck className="h-4 w-4 mr-2" />
+                Select Duplicates
+              </Button>
+            )}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Environment</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Days</TableHead>
+                    <TableHead>Starts</TableHead>
+                    <TableHead>Ends</TableHead>
+                    <TableHead>Actions</TableHead>
+                    <TableHead>Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map(group => group.schedules.length === 0 ? (
+                    <TableRow key={group.configurationId}>
+                      <TableCell />
+                      <TableCell className="font-medium">{group.configurationName}</TableCell>
+                      <TableCell colSpan={6} className="text-muted-foreground">No schedules</TableCell>
+                    </TableRow>
+                  ) : group.schedules.map(schedule => {
+                    const issue = issues.get(schedule.id);
+                    return (
+                      <TableRow key={schedule.id} className={issue ? 'bg-amber-50' : undefined}>
+                        <TableCell>
+                          <Checkbox
+                            aria-label={`Select ${schedule.title}`}
+                            checked={selectedIds.has(schedule.id)}
+                            onCheckedChange={(checked) => toggleSelected(schedule.id, checked === true)}
+                            disabled={isApplying}
+                          />
+                        </TableCell>
+                        <TableCell className="font-medium">{group.configurationName}</TableCell>
+                        <TableCell>{schedule.title}</TableCell>
+                        <TableCell>{formatDays(schedule)}</TableCell>
+                        <TableCell>{schedule.start_at}</TableCell>
+                        <TableCell>{schedule.end_at}</TableCell>
+                        <TableCell>{formatActions(schedule)}</TableCell>
+                        <TableCell>
+                          {issue && (
+                            <Badge variant={issue.kind === 'duplicate' ? 'destructive' : 'secondary'} title={issue.detail}>
+                              {issue.kind === 'duplicate' ? 'Duplicate' : 'Conflict'}
+                            </Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  }))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {groups && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Bulk Edit</CardTitle>
+            <CardDescription>
+              {selectedSchedules.length} schedule(s) selected
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shiftMinutes">Shift Start Times (minutes)</Label>
+                <Input
+                  id="shiftMinutes"
+                  type="number"
+                  value={shiftMinutes}
+                  onChange={(e) => setShiftMinutes(e.target.value)}
+                  placeholder="e.g., 30 or -15"
+                  disabled={isApplying}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="extendDays">Extend End Date (days)</Label>
+                <Input
+                  id="extendDays"
+                  type="number"
+                  value={extendDays}
+                  onChange={(e) => setExtendDays(e.target.value)}
+                  placeholder="e.g., 1"
+                  disabled={isApplying}
+                />
+              </div>
+            </div>
+            <div className="flex gap-3">
+              <Button
+                onClick={handleApplyEdits}
+                disabled={isApplying || selectedSchedules.length === 0}
+                className="flex-1"
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                {isApplying ? "Applying..." : "Apply to Selected"}
+              </Button>
+              <Button
+                onClick={() => setShowDeleteConfirm(true)}
+                disabled={isApplying || selectedSchedules.length === 0}
+                variant="destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Selected
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {logs.length > 0 && (
+        <Card>
+          <Collapsible open={isLogsOpen} onOpenChange={setIsLogsOpen}>
+            <CollapsibleTrigger asChild>
+              <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">Schedule Log</CardTitle>
+                    <CardDescription>
+                      Log of schedule lookups and changes
+                    </CardDescription>
+                  </div>
+                  {isLogsOpen ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </div>
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <div className="bg-muted rounded-md p-4 font-mono text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {logs.map((log, index) => (
+                    <div key={index} className="text-foreground">
+                      {log}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </CollapsibleContent>
+          </Collapsible>
+        </Card>
+      )}
+
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedSchedules.length} schedule(s)?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The environments stay as they are but stop running and suspending on these schedules. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteSelected}>Delete Schedules</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default ManageSchedules;
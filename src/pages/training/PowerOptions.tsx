@@ -1,12 +1,44 @@
-import React, { useState, useEffect } from "react";
-import { Power, CheckCircle, XCircle, AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
+import React, { useState, useEffect, useRef } from "react";
+import { Power, CheckCircle, XCircle, AlertTriangle, ChevronDown, ChevronRight, Zap, Eye, Moon, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI } from "@/lib/skytap-api";
+import { cachedConfigurationLoaders, skytapKeys, skytapQueries } from "@/hooks/use-skytap-queries";
+import { skytapAPI, settledRunstate, SkytapRunstateChange } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeStepConfigurations, loadStepConfigurations } from "@/lib/training-scope";
+import { StepInputs } from "@/lib/training-steps";
+import { describeSkytapError } from "@/lib/skytap-errors";
+import { formatInTimeZone, resolveTimeZone, zonedTimeToInstant } from "@/lib/time-zones";
+import {
+  IDLE_ACTIONS, IdleAction, MAX_IDLE_MINUTES, MIN_IDLE_MINUTES, PolicyChange, SuspendPolicy, SuspendPolicyBackup,
+  clearSuspendPolicyBackup, describePolicy, diffPolicies, getSuspendPolicyBackup, policyOf, policyToUpdate, saveSuspendPolicyBackup,
+} from "@/lib/suspend-policy";
+import { TimeZoneSelect } from "@/components/training/TimeZoneSelect";
+import { ClassDefinition, ClassPowerSettings } from "@/lib/class-definition";
+import { useAutoRun } from "@/hooks/use-auto-run";
+
+// Environments changing runstate at once; the stagger spaces out when each one starts
+const POWER_CONCURRENCY = 10;
+const RUNSTATE_POLL_INTERVAL_MS = 5000;
+
+const POWER_ACTIONS: Record<SkytapRunstateChange, { label: string; button: string; progress: string }> = {
+  running: { label: 'Start', button: 'Start Environments', progress: 'Starting' },
+  suspended: { label: 'Suspend', button: 'Suspend Environments', progress: 'Suspending' },
+  stopped: { label: 'Shut down', button: 'Shut Down Environments', progress: 'Shutting down' },
+  halted: { label: 'Power off', button: 'Power Off Environments', progress: 'Powering off' },
+};
 
 interface StatusResult {
   id: string;
@@ -15,19 +47,104 @@ interface StatusResult {
   autoShutdownStatus: string;
 }
 
+/**
+ * Where one environment is in a bulk runstate change
+ */
+interface PowerResult {
+  id: string;
+  name: string;
+  status: 'waiting' | 'changing' | 'done' | 'unchanged' | 'failed' | 'skipped';
+  runstate: string;
+  error?: string;
+}
+
+interface PolicyForm {
+  idleAction: IdleAction;
+  idleMinutes: string;
+  /** Also shut every environment down at a set time */
+  shutdownAtTime: boolean;
+  shutdownDate: string;
+  shutdownTime: string;
+  /** IANA zone */
+  shutdownTimeZone: string;
+}
+
+/**
+ * One environment's policy before and after a change, and how applying it went
+ */
+interface PolicyPreview {
+  id: string;
+  name: string;
+  before: SuspendPolicy;
+  after: SuspendPolicy;
+  changes: PolicyChange[];
+  result?: 'updated' | 'failed';
+  error?: string;
+}
+
 interface PowerOptionsProps {
   projectId: string;
   onComplete: (results: any) => void;
-  stepResults?: Record<string, any>;
+  /** Outputs of the steps that ran before this one */
+  inputs?: StepInputs;
+  /** Imported class definition that fills in the auto-suspend policy */
+  classDefinition?: ClassDefinition | null;
+  /** Apply the definition's policy, or disable auto-shutdown without one, as soon as the step opens */
+  autoRun?: boolean;
 }
 
-const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, stepResults }) => {
+const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, inputs, classDefinition, autoRun }) => {
+  const queryClient = useQueryClient();
   const [statusResults, setStatusResults] = useState<StatusResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [logs, setLogs] = useState<string[]>([]);
   const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const [powerAction, setPowerAction] = useState<SkytapRunstateChange>('running');
+  const [staggerSeconds, setStaggerSeconds] = useState('10');
+  const [powerResults, setPowerResults] = useState<PowerResult[]>([]);
+  const [powerProgress, setPowerProgress] = useState(0);
+  const [isChangingPower, setIsChangingPower] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [showPowerConfirm, setShowPowerConfirm] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // The class end from the scheduler step pre-fills the set shutdown
+  const classSchedule = inputs?.classSchedule;
+  const [policyForm, setPolicyForm] = useState<PolicyForm>(() => ({
+    idleAction: 'suspend',
+    idleMinutes: '120',
+    shutdownAtTime: false,
+    shutdownDate: classSchedule?.endDate ?? '',
+    shutdownTime: classSchedule?.endTime ?? '',
+    shutdownTimeZone: classSchedule?.timeZone ?? '',
+  }));
+  const [policyPreview, setPolicyPreview] = useState<PolicyPreview[]>([]);
+  const [policyBackup, setPolicyBackup] = useState<SuspendPolicyBackup | null>(null);
+  const [isUpdatingPolicy, setIsUpdatingPolicy] = useState(false);
+  const copies = inputs?.copies;
+  const isBusy = isLoading || isChangingPower || isUpdatingPolicy;
+
+  useEffect(() => {
+    setPolicyBackup(projectId.trim() ? getSuspendPolicyBackup(projectId.trim()) : null);
+    setPolicyPreview([]);
+  }, [projectId]);
+
+  useEffect(() => {
+    const power = classDefinition?.power;
+    if (!power) return;
+    setPolicyForm(prev => ({
+      ...prev,
+      idleAction: power.idleAction,
+      idleMinutes: power.idleMinutes !== undefined ? String(power.idleMinutes) : prev.idleMinutes,
+      shutdownAtTime: !!power.shutdownAt,
+      shutdownDate: power.shutdownAt?.date ?? prev.shutdownDate,
+      shutdownTime: power.shutdownAt?.time ?? prev.shutdownTime,
+      shutdownTimeZone: power.shutdownAt ? resolveTimeZone(power.shutdownAt.timeZone) : prev.shutdownTimeZone,
+    }));
+  }, [classDefinition]);
+
+  useAutoRun(!!autoRun, () => classDefinition?.power ? handleApplyPolicy() : handleDisableAutoshutdown());
 
   const getRunstateColor = (runstate: string) => {
     switch (runstate.toLowerCase()) {
@@ -37,6 +154,8 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
         return 'bg-red-500 text-white hover:bg-red-600';
       case 'suspended':
         return 'bg-orange-500 text-white hover:bg-orange-600';
+      case 'busy':
+        return 'bg-blue-500 text-white hover:bg-blue-600';
       default:
         return 'bg-gray-500 text-white hover:bg-gray-600';
     }
@@ -54,6 +173,13 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
     setLogs(prev => [...prev, message]);
   };
 
+  // Environments in scope: the copies from the copy step, or the whole project
+  const loadConfigurations = async () => {
+    const scoped = await loadStepConfigurations(inputs, cachedConfigurationLoaders(queryClient, projectId));
+    describeStepConfigurations(scoped, inputs).forEach(addLog);
+    return scoped.configurations;
+  };
+
   const handleCheckStatus = async () => {
     if (!projectId.trim()) {
       setError('Project ID is required');
@@ -68,49 +194,43 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
     try {
       addLog(`Starting status check for project ${projectId}`);
       
-      // Get all configurations in the project
-      const response = await skytapAPI.getProjectConfigurations(projectId.trim());
-      const configurations = response;
-      
-      addLog(`Found ${configurations.length} configuration(s) in project`);
-      
-      if (!configurations || configurations.length === 0) {
-        setError('No configurations found in the specified project');
-        addLog('No configurations found in the specified project');
-        return;
-      }
+      // Cached between status checks and disables
+      const configurations = await loadConfigurations();
 
       // Get status for each configuration
-      const results: StatusResult[] = [];
-      for (const config of configurations) {
-        try {
-          addLog(`Checking status for configuration ${config.id} (${config.name})`);
-          const statusResponse = await skytapAPI.getConfigurationStatus(config.id);
-          const status = statusResponse;
-          
-          const autoShutdownStatus = status.auto_suspend_description 
-            ? status.auto_suspend_description 
-            : 'Auto-Shutdown is Disabled';
-          
-          addLog(`Configuration ${config.id}: ${status.runstate}, Auto-shutdown: ${autoShutdownStatus}`);
-          
-          results.push({
-            id: status.id,
-            name: status.name,
-            status: status.runstate,
-            autoShutdownStatus: autoShutdownStatus
-          });
-        } catch (error) {
-          console.error(`Error getting status for configuration ${config.id}:`, error);
-          addLog(`Error getting status for configuration ${config.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          results.push({
-            id: config.id,
-            name: config.name,
-            status: 'Unknown',
-            autoShutdownStatus: 'Error retrieving status'
-          });
-        }
-      }
+      const statusRun = await runBulk(configurations, async (config): Promise<StatusResult> => {
+        addLog(`Checking status for configuration ${config.id} (${config.name})`);
+        const status = await queryClient.fetchQuery(skytapQueries.configuration(config.id));
+
+        const autoShutdownStatus = status.auto_suspend_description 
+          ? status.auto_suspend_description 
+          : 'Auto-Shutdown is Disabled';
+
+        addLog(`Configuration ${config.id}: ${status.runstate}, Auto-shutdown: ${autoShutdownStatus}`);
+
+        return {
+          id: status.id,
+          name: status.name,
+          status: status.runstate,
+          autoShutdownStatus: autoShutdownStatus
+        };
+      }, { concurrency: 5 });
+
+      // Slot results back into the project's configuration order
+      const results: StatusResult[] = new Array(configurations.length);
+      statusRun.succeeded.forEach(({ index, result }) => {
+        results[index] = result;
+      });
+      statusRun.failed.forEach(({ item: config, index, error }) => {
+        console.error(`Error getting status for configuration ${config.id}:`, error);
+        addLog(`Error getting status for configuration ${config.id}: ${error.message}`);
+        results[index] = {
+          id: config.id,
+          name: config.name,
+          status: 'Unknown',
+          autoShutdownStatus: 'Error retrieving status'
+        };
+      });
       
       setStatusResults(results);
       addLog(`Status check completed. Retrieved status for ${results.length} environment(s)`);
@@ -151,6 +271,7 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
   const handleDisableAutoshutdown = async () => {
     if (!projectId.trim()) {
       setError('Project ID is required');
+      onComplete({ success: false, error: 'Project ID is required', logs: logs });
       return;
     }
 
@@ -162,31 +283,26 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
     try {
       addLog(`Starting auto-shutdown disable for project ${projectId}`);
       
-      // Get all configurations first
-      const response = await skytapAPI.getProjectConfigurations(projectId.trim());
-      const configurations = response;
-      
-      addLog(`Found ${configurations.length} configuration(s) in project`);
-      
-      if (!configurations || configurations.length === 0) {
-        setError('No configurations found in the specified project');
-        addLog('No configurations found in the specified project');
-        return;
-      }
+      const configurations = await loadConfigurations();
 
       // Disable autoshutdown for each configuration
-      let successCount = 0;
-      for (const config of configurations) {
-        try {
-          addLog(`Disabling auto-shutdown for configuration ${config.id} (${config.name})`);
-          await skytapAPI.disableConfigurationAutoshutdown(config.id);
-          successCount++;
-          addLog(`Successfully disabled auto-shutdown for configuration ${config.id}`);
-        } catch (error) {
-          console.error(`Error disabling autoshutdown for configuration ${config.id}:`, error);
-          addLog(`Error disabling auto-shutdown for configuration ${config.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        }
-      }
+      const disableRun = await runBulk(configurations, async (config) => {
+        addLog(`Disabling auto-shutdown for configuration ${config.id} (${config.name})`);
+        await skytapAPI.disableConfigurationAutoshutdown(config.id);
+        // Only this configuration's settings changed; the project's configuration list is still valid
+        await queryClient.invalidateQueries({ queryKey: skytapKeys.configuration(config.id) });
+      }, {
+        concurrency: 5,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'succeeded') {
+            addLog(`Successfully disabled auto-shutdown for configuration ${outcome.item.id}`);
+          } else if (outcome.status === 'failed') {
+            console.error(`Error disabling autoshutdown for configuration ${outcome.item.id}:`, outcome.error);
+            addLog(`Error disabling auto-shutdown for configuration ${outcome.item.id}: ${outcome.error.message}`);
+          }
+        },
+      });
+      const successCount = disableRun.succeeded.length;
       
       const successMessage = `Successfully disabled autoshutdown for ${successCount} environment(s) in the project`;
       setSuccess(successMessage);
@@ -236,6 +352,362 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
     }
   };
 
+  const updatePowerResult = (id: string, update: Partial<PowerResult>) => {
+    setPowerResults(prev => prev.map(result => result.id === id ? { ...result, ...update } : result));
+  };
+
+  // Stop starting new environments; the ones already changing finish
+  const handleCancelPower = () => {
+    if (!abortControllerRef.current) return;
+    setIsCancelling(true);
+    addLog('Cancelling after the environments already changing have settled...');
+    abortControllerRef.current.abort();
+  };
+
+  const handleChangeRunstate = async () => {
+    setShowPowerConfirm(false);
+    if (!projectId.trim()) {
+      setError('Project ID is required');
+      return;
+    }
+
+    const action = POWER_ACTIONS[powerAction];
+    const target = settledRunstate(powerAction);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    setIsChangingPower(true);
+    setIsCancelling(false);
+    setError(null);
+    setSuccess(null);
+    setLogs([]);
+    setPowerResults([]);
+    setPowerProgress(0);
+
+    try {
+      addLog(`${action.progress} environments in project ${projectId}`);
+      const configurations = await loadConfigurations();
+
+      setPowerResults(configurations.map(config => ({ id: config.id, name: config.name, status: 'waiting', runstate: config.runstate })));
+      const staggerMs = Math.max(0, Number(staggerSeconds) || 0) * 1000;
+      addLog(`${action.progress} ${configurations.length} environment(s)${staggerMs ? `, ${staggerMs / 1000}s apart` : ''}`);
+
+      // Cancelling stops waiting on environments already changing; Skytap still finishes the change
+      const powerRun = await runBulk(configurations, async (config, { signal }) => {
+        // Read the current runstate; the project list may be stale
+        const current = await skytapAPI.getConfiguration(config.id, { signal });
+        if (current.runstate === target) {
+          addLog(`${config.name} is already ${target}`);
+          updatePowerResult(config.id, { status: 'unchanged', runstate: current.runstate });
+          return current;
+        }
+
+        updatePowerResult(config.id, { status: 'changing', runstate: current.runstate });
+        addLog(`${action.progress} ${config.name} (${config.id}) from ${current.runstate}`);
+        const settled = await skytapAPI.changeConfigurationRunstate(config.id, powerAction, {
+          signal,
+          intervalMs: RUNSTATE_POLL_INTERVAL_MS,
+          onPoll: ({ runstate }) => updatePowerResult(config.id, { runstate }),
+        });
+        updatePowerResult(config.id, { status: 'done', runstate: settled.runstate });
+        return settled;
+      }, {
+        concurrency: POWER_CONCURRENCY,
+        startDelayMs: staggerMs,
+        signal: controller.signal,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'succeeded') {
+            addLog(`${outcome.item.name} is ${outcome.result.runstate}`);
+          } else if (outcome.status === 'failed') {
+            const message = describeSkytapError(outcome.error);
+            addLog(`Failed to change ${outcome.item.name}: ${message}`);
+            updatePowerResult(outcome.item.id, { status: 'failed', error: message });
+          } else {
+            updatePowerResult(outcome.item.id, { status: 'skipped' });
+          }
+        },
+        onProgress: ({ percent }) => setPowerProgress(percent),
+      });
+
+      // Runstates changed; cached statuses and the project list are out of date
+      await queryClient.invalidateQueries({ queryKey: skytapKeys.projectConfigurations(projectId.trim()) });
+      await Promise.all(configurations.map(config =>
+        queryClient.invalidateQueries({ queryKey: skytapKeys.configuration(config.id) })));
+      setStatusResults(prev => prev.map(result => {
+        const settled = powerRun.succeeded.find(({ item }) => item.id === result.id);
+        return settled ? { ...result, status: settled.result.runstate } : result;
+      }));
+
+      const summary = `${powerRun.succeeded.length} of ${configurations.length} environment(s) ${target}`;
+      if (powerRun.cancelled) {
+        addLog(`Cancelled. ${summary}; ${powerRun.skipped.length} not changed`);
+      } else {
+        addLog(`Finished. ${summary}`);
+      }
+      if (powerRun.failed.length > 0) {
+        setError(`${powerRun.failed.length} environment(s) did not reach ${target}; see the log for details`);
+      } else if (!powerRun.cancelled) {
+        setSuccess(`All ${configurations.length} environment(s) are ${target}`);
+      }
+
+      toast({
+        title: powerRun.cancelled ? "Power Change Cancelled" : powerRun.failed.length > 0 ? "Some Environments Failed" : "Power Change Complete",
+        description: summary,
+        variant: powerRun.failed.length > 0 ? "destructive" : "default",
+      });
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to change runstate');
+      setError(errorMessage);
+      addLog(`Power change failed: ${errorMessage}`);
+
+      toast({
+        title: "Power Change Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsChangingPower(false);
+      setIsCancelling(false);
+    }
+  };
+
+  // The policy the form describes, or why it can't be applied
+  const buildPolicy = (): SuspendPolicy | string => {
+    const { idleAction, idleMinutes, shutdownAtTime, shutdownDate, shutdownTime, shutdownTimeZone } = policyForm;
+    const minutes = Number(idleMinutes);
+    if (idleAction !== 'off' && !(Number.isInteger(minutes) && minutes >= MIN_IDLE_MINUTES && minutes <= MAX_IDLE_MINUTES)) {
+      return `Idle minutes must be a whole number from ${MIN_IDLE_MINUTES} to ${MAX_IDLE_MINUTES}`;
+    }
+    if (shutdownAtTime && !(shutdownDate && shutdownTime && shutdownTimeZone)) {
+      return 'Choose the shutdown date, time and time zone';
+    }
+    return {
+      idleAction,
+      idleMinutes: idleAction === 'off' ? null : minutes,
+      shutdownAt: shutdownAtTime
+        ? formatInTimeZone(zonedTimeToInstant(shutdownDate, shutdownTime, shutdownTimeZone), shutdownTimeZone)
+        : null,
+    };
+  };
+
+  // Current policy of every environment in scope, fresh from Skytap
+  const loadCurrentPolicies = async () => {
+    const configurations = await loadConfigurations();
+    const policyRun = await runBulk(configurations, (config) =>
+      queryClient.fetchQuery({ ...skytapQueries.configuration(config.id), staleTime: 0 }), { concurrency: 5 });
+    if (policyRun.failed.length > 0) {
+      const { item, error } = policyRun.failed[0];
+      throw new Error(`Could not read the policy of ${item.name}: ${describeSkytapError(error)}`);
+    }
+    return policyRun.succeeded
+      .sort((a, b) => a.index - b.index)
+      .map(({ result }) => ({ id: result.id, name: result.name, policy: policyOf(result) }));
+  };
+
+  const toPreview = (current: { id: string; name: string; policy: SuspendPolicy }[], target: (id: string) => SuspendPolicy | undefined): PolicyPreview[] =>
+    current.flatMap(({ id, name, policy }) => {
+      const after = target(id);
+      return after ? [{ id, name, before: policy, after, changes: diffPolicies(policy, after) }] : [];
+    });
+
+  const handlePreviewPolicy = async () => {
+    const policy = buildPolicy();
+    if (typeof policy === 'string') {
+      setError(policy);
+      return;
+    }
+
+    setIsUpdatingPolicy(true);
+    setError(null);
+    setSuccess(null);
+    setLogs([]);
+
+    try {
+      addLog(`Previewing policy "${describePolicy(policy)}" for project ${projectId}`);
+      const current = await loadCurrentPolicies();
+      const preview = toPreview(current, () => policy);
+      setPolicyPreview(preview);
+      addLog(`${preview.filter(row => row.changes.length > 0).length} of ${preview.length} environment(s) would change`);
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to preview policy');
+      setError(errorMessage);
+      addLog(`Policy preview failed: ${errorMessage}`);
+    } finally {
+      setIsUpdatingPolicy(false);
+    }
+  };
+
+  // Send each changed environment its new policy, marking the outcome on its preview row
+  const applyPreview = async (preview: PolicyPreview[]) => {
+    setPolicyPreview(preview);
+    const changed = preview.filter(row => row.changes.length > 0);
+    addLog(`${changed.length} of ${preview.length} environment(s) need changes`);
+
+    const updateRun = await runBulk(changed, async (row) => {
+      const updated = await skytapAPI.updateConfigurationSuspendPolicy(row.id, policyToUpdate(row.after));
+      await queryClient.invalidateQueries({ queryKey: skytapKeys.configuration(row.id) });
+      return updated;
+    }, {
+      concurrency: 5,
+      onItemComplete: (outcome) => {
+        if (outcome.status === 'succeeded') {
+          addLog(`Updated ${outcome.item.name}: ${describePolicy(outcome.item.after)}`);
+          setPolicyPreview(prev => prev.map(row => row.id === outcome.item.id ? { ...row, result: 'updated' } : row));
+        } else if (outcome.status === 'failed') {
+          const message = describeSkytapError(outcome.error);
+          addLog(`Failed to update ${outcome.item.name}: ${message}`);
+          setPolicyPreview(prev => prev.map(row => row.id === outcome.item.id ? { ...row, result: 'failed', error: message } : row));
+        }
+      },
+    });
+
+    setStatusResults(prev => prev.map(result => {
+      const updated = updateRun.succeeded.find(({ item }) => item.id === result.id);
+      return updated ? { ...result, autoShutdownStatus: updated.result.auto_suspend_description || 'Auto-Shutdown is Disabled' } : result;
+    }));
+    return { changed: changed.length, updated: updateRun.succeeded.length, failed: updateRun.failed.length };
+  };
+
+  const handleApplyPolicy = async () => {
+    const policy = buildPolicy();
+    if (typeof policy === 'string') {
+      setError(policy);
+      onComplete({ success: false, error: policy, logs: logs });
+      return;
+    }
+
+    setIsUpdatingPolicy(true);
+    setError(null);
+    setSuccess(null);
+    setLogs([]);
+
+    try {
+      addLog(`Applying policy "${describePolicy(policy)}" to project ${projectId}`);
+      const current = await loadCurrentPolicies();
+
+      // Keep what every environment had so the change can be undone; a backup not yet restored wins
+      const hadBackup = !!getSuspendPolicyBackup(projectId.trim());
+      const backup = saveSuspendPolicyBackup(projectId.trim(), current);
+      setPolicyBackup(backup);
+      addLog(hadBackup
+        ? `Keeping the policies saved ${new Date(backup.savedAt).toLocaleString()} for Restore`
+        : `Saved the previous policy of ${current.length} environment(s)`);
+
+      const outcome = await applyPreview(toPreview(current, () => policy));
+      if (outcome.failed > 0) {
+        setError(`Failed to update ${outcome.failed} environment(s); see the log for details`);
+      } else {
+        setSuccess(`Applied "${describePolicy(policy)}" to ${current.length} environment(s)`);
+      }
+
+      // The form as applied, for exporting a class definition
+      const { idleAction, shutdownAtTime, shutdownDate, shutdownTime, shutdownTimeZone } = policyForm;
+      const settings: ClassPowerSettings = {
+        idleAction,
+        ...(policy.idleMinutes !== null && { idleMinutes: policy.idleMinutes }),
+        ...(shutdownAtTime && { shutdownAt: { date: shutdownDate, time: shutdownTime, timeZone: shutdownTimeZone } }),
+      };
+
+      onComplete({
+        success: outcome.failed === 0,
+        results: {
+          totalEnvironments: current.length,
+          updatedCount: outcome.updated,
+          policy,
+        },
+        logs: logs,
+        message: `Applied "${describePolicy(policy)}" to ${current.length} environment(s)`,
+        settings
+      });
+
+      toast({
+        title: outcome.failed > 0 ? "Some Policies Not Updated" : "Suspend Policy Applied",
+        description: `Updated ${outcome.updated} of ${outcome.changed} environment(s) that needed changes`,
+        variant: outcome.failed > 0 ? "destructive" : "default",
+      });
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to apply policy');
+      setError(errorMessage);
+      addLog(`Applying policy failed: ${errorMessage}`);
+
+      onComplete({
+        success: false,
+        error: errorMessage,
+        logs: logs
+      });
+
+      toast({
+        title: "Suspend Policy Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdatingPolicy(false);
+    }
+  };
+
+  const handleRestorePolicy = async () => {
+    if (!policyBackup) return;
+
+    setIsUpdatingPolicy(true);
+    setError(null);
+    setSuccess(null);
+    setLogs([]);
+
+    try {
+      addLog(`Restoring the policies saved ${new Date(policyBackup.savedAt).toLocaleString()}`);
+      const current = await loadCurrentPolicies();
+      const saved = new Map(policyBackup.environments.map(env => [env.id, env.policy]));
+      const missing = policyBackup.environments.filter(env => !current.some(config => config.id === env.id));
+      missing.forEach(env => addLog(`${env.name} is no longer in the project; skipping`));
+
+      const outcome = await applyPreview(toPreview(current, id => saved.get(id)));
+      if (outcome.failed > 0) {
+        setError(`Failed to restore ${outcome.failed} environment(s); see the log for details`);
+      } else {
+        clearSuspendPolicyBackup(projectId.trim());
+        setPolicyBackup(null);
+        setSuccess(`Restored the previous policy of ${saved.size - missing.length} environment(s)`);
+      }
+
+      toast({
+        title: outcome.failed > 0 ? "Some Policies Not Restored" : "Suspend Policy Restored",
+        description: `Restored ${outcome.updated} of ${outcome.changed} environment(s) that had changed`,
+        variant: outcome.failed > 0 ? "destructive" : "default",
+      });
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to restore policy');
+      setError(errorMessage);
+      addLog(`Restoring policy failed: ${errorMessage}`);
+
+      toast({
+        title: "Restore Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdatingPolicy(false);
+    }
+  };
+
+  const powerStatusLabel = (result: PowerResult) => {
+    switch (result.status) {
+      case 'waiting':
+        return 'Waiting';
+      case 'changing':
+        return `${POWER_ACTIONS[powerAction].progress}...`;
+      case 'done':
+        return 'Done';
+      case 'unchanged':
+        return 'Already there';
+      case 'skipped':
+        return 'Cancelled';
+      case 'failed':
+        return `Failed: ${result.error}`;
+    }
+  };
+
   return (
     <div className="space-y-6">
       {error && (
@@ -244,6 +716,14 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
         </Alert>
       )}
 
+      {copies && (
+        <Alert>
+          <AlertDescription>
+            {copies.addedSeats ? 'Adding seats: only' : 'Only'} the {copies.ids.length} {copies.addedSeats ? 'new ' : ''}cop{copies.ids.length === 1 ? 'y' : 'ies'} from the copy step are checked and updated.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {success && (
         <Alert>
           <CheckCircle className="h-4 w-4" />
@@ -254,14 +734,14 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
       <div className="flex gap-3">
         <Button 
           onClick={handleCheckStatus} 
-          disabled={isLoading || !projectId}
+          disabled={isBusy || !projectId}
         >
           <Power className="h-4 w-4 mr-2" />
           {isLoading ? "Checking..." : "Check Status"}
         </Button>
         <Button 
           onClick={handleDisableAutoshutdown} 
-          disabled={isLoading || !projectId}
+          disabled={isBusy || !projectId}
           variant="destructive"
         >
           <XCircle className="h-4 w-4 mr-2" />
@@ -269,6 +749,259 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
         </Button>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Auto-Suspend Policy</CardTitle>
+          <CardDescription>
+            Choose what happens to idle environments and when they shut down regardless, instead of only disabling auto-suspend
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="idleAction">When Idle</Label>
+              <Select
+                value={policyForm.idleAction}
+                onValueChange={(value) => setPolicyForm(prev => ({ ...prev, idleAction: value as IdleAction }))}
+                disabled={isBusy}
+              >
+                <SelectTrigger id="idleAction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IDLE_ACTIONS).map(([action, label]) => (
+                    <SelectItem key={action} value={action}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="idleMinutes">Idle Minutes</Label>
+              <Input
+                id="idleMinutes"
+                type="number"
+                min={MIN_IDLE_MINUTES}
+                max={MAX_IDLE_MINUTES}
+                value={policyForm.idleMinutes}
+                onChange={(e) => setPolicyForm(prev => ({ ...prev, idleMinutes: e.target.value }))}
+                disabled={isBusy || policyForm.idleAction === 'off'}
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="shutdownAtTime"
+              checked={policyForm.shutdownAtTime}
+              onCheckedChange={(checked) => setPolicyForm(prev => ({ ...prev, shutdownAtTime: checked === true }))}
+              disabled={isBusy}
+            />
+            <Label htmlFor="shutdownAtTime">Also shut down at a set time</Label>
+          </div>
+          {policyForm.shutdownAtTime && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="shutdownDate">Shutdown Date</Label>
+                <Input
+                  id="shutdownDate"
+                  type="date"
+                  value={policyForm.shutdownDate}
+                  onChange={(e) => setPolicyForm(prev => ({ ...prev, shutdownDate: e.target.value }))}
+                  disabled={isBusy}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shutdownTime">Shutdown Time</Label>
+                <Input
+                  id="shutdownTime"
+                  type="time"
+                  value={policyForm.shutdownTime}
+                  onChange={(e) => setPolicyForm(prev => ({ ...prev, shutdownTime: e.target.value }))}
+                  disabled={isBusy}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shutdownTimeZone">Shutdown Time Zone</Label>
+                <TimeZoneSelect
+                  id="shutdownTimeZone"
+                  value={policyForm.shutdownTimeZone}
+                  onValueChange={(timeZone) => setPolicyForm(prev => ({ ...prev, shutdownTimeZone: timeZone }))}
+                  disabled={isBusy}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex gap-3">
+            <Button
+              onClick={handlePreviewPolicy}
+              disabled={isBusy || !projectId}
+              variant="outline"
+            >
+              <Eye className="h-4 w-4 mr-2" />
+              Preview Changes
+            </Button>
+            <Button
+              onClick={handleApplyPolicy}
+              disabled={isBusy || !projectId}
+              className="flex-1"
+            >
+              <Moon className="h-4 w-4 mr-2" />
+              {isUpdatingPolicy ? "Updating..." : "Apply Policy"}
+            </Button>
+            <Button
+              onClick={handleRestorePolicy}
+              disabled={isBusy || !policyBackup}
+              variant="outline"
+              title={policyBackup ? `Saved ${new Date(policyBackup.savedAt).toLocaleString()}` : 'No saved policy for this project'}
+            >
+              <Undo2 className="h-4 w-4 mr-2" />
+              Restore Previous Policy
+            </Button>
+          </div>
+
+          {policyPreview.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Environment</TableHead>
+                    <TableHead>Setting</TableHead>
+                    <TableHead>Before</TableHead>
+                    <TableHead>After</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {policyPreview.flatMap((row) => {
+                    const result = row.result === 'updated' ? 'Updated'
+                      : row.result === 'failed' ? `Failed: ${row.error}` : '';
+                    if (row.changes.length === 0) {
+                      return [(
+                        <TableRow key={row.id}>
+                          <TableCell className="font-medium">{row.name}</TableCell>
+                          <TableCell colSpan={3} className="text-muted-foreground">No change</TableCell>
+                          <TableCell />
+                        </TableRow>
+                      )];
+                    }
+                    return row.changes.map((change, index) => (
+                      <TableRow key={`${row.id}-${change.setting}`}>
+                        <TableCell className="font-medium">{index === 0 ? row.name : ''}</TableCell>
+                        <TableCell>{change.setting}</TableCell>
+                        <TableCell className="text-muted-foreground line-through">{change.before}</TableCell>
+                        <TableCell>{change.after}</TableCell>
+                        <TableCell className={row.result === 'failed' ? 'text-destructive' : undefined}>
+                          {index === 0 ? result : ''}
+                        </TableCell>
+                      </TableRow>
+                    ));
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Power Control</CardTitle>
+          <CardDescription>
+            Start every environment before class, or suspend, shut down or power them off afterwards
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="powerAction">Power Action</Label>
+              <Select
+                value={powerAction}
+                onValueChange={(value) => setPowerAction(value as SkytapRunstateChange)}
+                disabled={isChangingPower}
+              >
+                <SelectTrigger id="powerAction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(POWER_ACTIONS).map(([runstate, { label }]) => (
+                    <SelectItem key={runstate} value={runstate}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staggerSeconds">Seconds Between Environments</Label>
+              <Input
+                id="staggerSeconds"
+                type="number"
+                min="0"
+                value={staggerSeconds}
+                onChange={(e) => setStaggerSeconds(e.target.value)}
+                disabled={isChangingPower}
+              />
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <Button
+              onClick={() => powerAction === 'halted' ? setShowPowerConfirm(true) : handleChangeRunstate()}
+              disabled={isBusy || !projectId}
+              className="flex-1"
+            >
+              <Zap className="h-4 w-4 mr-2" />
+              {isChangingPower ? `${POWER_ACTIONS[powerAction].progress}...` : POWER_ACTIONS[powerAction].button}
+            </Button>
+            {isChangingPower && (
+              <Button
+                onClick={handleCancelPower}
+                disabled={isCancelling}
+                variant="destructive"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                {isCancelling ? "Cancelling..." : "Cancel"}
+              </Button>
+            )}
+          </div>
+
+          {isChangingPower && (
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>Power Change Progress</span>
+                <span>{Math.round(powerProgress)}%</span>
+              </div>
+              <Progress value={powerProgress} className="w-full" />
+            </div>
+          )}
+
+          {powerResults.length > 0 && (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Environment</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Runstate</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {powerResults.map((result) => (
+                    <TableRow key={result.id}>
+                      <TableCell className="font-medium">{result.name}</TableCell>
+                      <TableCell className={result.status === 'failed' ? 'text-destructive' : undefined}>
+                        {powerStatusLabel(result)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={getRunstateColor(result.runstate)}>
+                          {result.runstate}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {logs.length > 0 && (
         <Card>
           <Collapsible open={isLogsOpen} onOpenChange={setIsLogsOpen}>
@@ -364,6 +1097,21 @@ const PowerOptions: React.FC<PowerOptionsProps> = ({ projectId, onComplete, step
           </CardContent>
         </Card>
       )}
+
+      <AlertDialog open={showPowerConfirm} onOpenChange={setShowPowerConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Power off every environment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Powering off is like pulling the plug: the VMs stop without shutting down, and any unsaved work in them is lost. Shut down instead to stop them cleanly.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleChangeRunstate}>Power Off</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,709 @@
+import React, { useState, useRef } from "react";
+import { Search, Eye, Trash2, XCircle, Download, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+import { skytapKeys } from "@/hooks/use-skytap-queries";
+import { skytapAPI, SkytapConfiguration, SkytapPublicIP, SkytapPublishSet, SkytapSchedule } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
+import { describeSkytapError } from "@/lib/skytap-errors";
+
+/**
+ * One environment in the project with everything attached to it that teardown can remove
+ */
+interface InventoryItem {
+  configuration: SkytapConfiguration;
+  schedules: SkytapSchedule[];
+  publishSets: SkytapPublishSet[];
+  publicIps: SkytapPublicIP[];
+}
+
+type ProjectAction = 'keep' | 'archive' | 'delete';
+
+interface TeardownOptions {
+  deleteSchedules: boolean;
+  deletePortals: boolean;
+  deleteEnvironments: boolean;
+  /** Save each environment as a template before deleting it */
+  saveTemplates: boolean;
+  /** Release the public IPs attached to deleted environments */
+  releaseIps: boolean;
+  projectAction: ProjectAction;
+}
+
+type ActionKind = 'delete-schedule' | 'delete-portal' | 'save-template' | 'delete-environment' | 'release-ip' | 'archive-project' | 'delete-project';
+
+interface TeardownAction {
+  kind: ActionKind;
+  targetId: string;
+  target: string;
+  /** Environment the action belongs to; project actions have none */
+  configurationId?: string;
+}
+
+interface TeardownResult extends TeardownAction {
+  status: 'succeeded' | 'failed' | 'skipped';
+  detail?: string;
+}
+
+const ACTION_LABELS: Record<ActionKind, string> = {
+  'delete-schedule': 'Delete schedule',
+  'delete-portal': 'Delete sharing portal',
+  'save-template': 'Save template',
+  'delete-environment': 'Delete environment',
+  'release-ip': 'Release public IP',
+  'archive-project': 'Archive project',
+  'delete-project': 'Delete project',
+};
+
+const ARCHIVED_PREFIX = '[Archived] ';
+const TEMPLATE_READY_POLL_MS = 5000;
+
+/**
+ * Every change the teardown would make, in the order it makes them. Used as-is for the dry run.
+ */
+const buildTeardownPlan = (
+  items: InventoryItem[],
+  options: TeardownOptions,
+  project: { id: string; name: string }
+): TeardownAction[] => {
+  const plan: TeardownAction[] = [];
+  items.forEach(({ configuration, schedules, publishSets }) => {
+    if (options.deleteSchedules) {
+      schedules.forEach(schedule => plan.push({ kind: 'delete-schedule', targetId: schedule.id, target: schedule.title, configurationId: configuration.id }));
+    }
+    if (options.deletePortals) {
+      publishSets.forEach(publishSet => plan.push({ kind: 'delete-portal', targetId: publishSet.id, target: publishSet.name, configurationId: configuration.id }));
+    }
+  });
+  if (options.deleteEnvironments) {
+    items.forEach(({ configuration }) => {
+      if (options.saveTemplates) {
+        plan.push({ kind: 'save-template', targetId: configuration.id, target: configuration.name, configurationId: configuration.id });
+      }
+      plan.push({ kind: 'delete-environment', targetId: configuration.id, target: configuration.name, configurationId: configuration.id });
+    });
+    if (options.releaseIps) {
+      items.forEach(({ configuration, publicIps }) => {
+        publicIps.forEach(ip => plan.push({ kind: 'release-ip', targetId: ip.id, target: ip.address, configurationId: configuration.id }));
+      });
+    }
+  }
+  if (options.projectAction !== 'keep') {
+    plan.push({ kind: options.projectAction === 'archive' ? 'archive-project' : 'delete-project', targetId: project.id, target: project.name });
+  }
+  return plan;
+};
+
+interface TeardownClassProps {
+  projectId: string;
+  projectName?: string;
+}
+
+const TeardownClass: React.FC<TeardownClassProps> = ({ projectId, projectName }) => {
+  const queryClient = useQueryClient();
+  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [options, setOptions] = useState<TeardownOptions>({
+    deleteSchedules: true,
+    deletePortals: true,
+    deleteEnvironments: true,
+    saveTemplates: false,
+    releaseIps: true,
+    projectAction: 'keep',
+  });
+  const [plan, setPlan] = useState<TeardownAction[] | null>(null);
+  const [results, setResults] = useState<TeardownResult[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [logs, setLogs] = useState<string[]>([]);
+  const [isLogsOpen, setIsLogsOpen] = useState(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const addLog = (message: string) => {
+    setLogs(prev => [...prev, message]);
+  };
+
+  const selectedItems = inventory.filter(item => selectedIds.has(item.configuration.id));
+
+  // Any change to what would be torn down invalidates the preview
+  const updateOptions = (patch: Partial<TeardownOptions>) => {
+    setOptions(prev => ({ ...prev, ...patch }));
+    setPlan(null);
+  };
+
+  const toggleSelected = (configId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(configId);
+      else next.delete(configId);
+      return next;
+    });
+    setPlan(null);
+  };
+
+  const handleLoadInventory = async () => {
+    if (!projectId.trim()) {
+      setError('Project ID is required');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    setPlan(null);
+    setResults([]);
+    setLogs([]);
+
+    try {
+      addLog(`Loading configurations, schedules and sharing portals for project ${projectId}`);
+      // Read straight from Skytap; teardown must not act on a cached view of the project
+      const [configurations, schedules] = await Promise.all([
+        skytapAPI.getProjectConfigurations(projectId.trim()),
+        skytapAPI.getSchedules(),
+      ]);
+      addLog(`Found ${configurations.length} configuration(s) in project`);
+
+      const inventoryRun = await runBulk(configurations, async (config): Promise<InventoryItem> => {
+        const [configuration, publishSets] = await Promise.all([
+          skytapAPI.getConfiguration(config.id),
+          skytapAPI.getPublishSets(config.id),
+        ]);
+        const publicIps = (configuration.vms ?? [])
+          .flatMap(vm => vm.interfaces ?? [])
+          .flatMap(nic => nic.public_ips ?? [])
+          .filter(ip => ip.id);
+        return {
+          configuration,
+          schedules: schedules.filter(schedule => schedule.configuration_id === config.id),
+          publishSets,
+          publicIps,
+        };
+      }, {
+        concurrency: 5,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'failed') {
+            addLog(`Error loading configuration ${outcome.item.id}: ${describeSkytapError(outcome.error)}`);
+          }
+        },
+      });
+
+      if (inventoryRun.failed.length > 0) {
+        throw new Error(`Could not load ${inventoryRun.failed.length} configuration(s); refusing to plan a partial teardown`);
+      }
+
+      const items = inventoryRun.succeeded
+        .sort((a, b) => a.index - b.index)
+        .map(({ result }) => result);
+      setInventory(items);
+      setSelectedIds(new Set(items.map(item => item.configuration.id)));
+      addLog(`Inventory loaded: ${items.reduce((n, item) => n + item.schedules.length, 0)} schedule(s), ` +
+        `${items.reduce((n, item) => n + item.publishSets.length, 0)} sharing portal(s), ` +
+        `${items.reduce((n, item) => n + item.publicIps.length, 0)} public IP(s)`);
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Failed to load project inventory');
+      setError(errorMessage);
+      addLog(`Inventory failed: ${errorMessage}`);
+      toast({
+        title: "Inventory Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePreview = () => {
+    setError(null);
+    setResults([]);
+    const preview = buildTeardownPlan(selectedItems, options, { id: projectId, name: projectName || projectId });
+    setPlan(preview);
+    if (preview.length === 0) {
+      setError('Nothing to tear down with the selected options');
+    }
+  };
+
+  // Stop after the in-flight actions finish; the report shows what was left
+  const handleCancel = () => {
+    if (!abortControllerRef.current) return;
+    setIsCancelling(true);
+    addLog('Cancelling after in-flight actions finish...');
+    abortControllerRef.current.abort();
+  };
+
+  const handleRunTeardown = async () => {
+    if (!plan || plan.length === 0) return;
+    setShowConfirm(false);
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
+    setIsRunning(true);
+    setIsCancelling(false);
+    setError(null);
+    setResults([]);
+    setProgress(0);
+
+    // Every planned action ends up in the report exactly once, in plan order
+    const outcomes = new Map<TeardownAction, TeardownResult>();
+    const record = (action: TeardownAction, status: TeardownResult['status'], detail?: string) => {
+      outcomes.set(action, { ...action, status, detail });
+      setProgress((outcomes.size / plan.length) * 100);
+      if (status === 'failed') {
+        addLog(`${ACTION_LABELS[action.kind]} "${action.target}" (${action.targetId}) failed: ${detail}`);
+      } else if (status === 'succeeded') {
+        addLog(`${ACTION_LABELS[action.kind]} "${action.target}" (${action.targetId}): done${detail ? ` - ${detail}` : ''}`);
+      }
+    };
+    const actionsOf = (kind: ActionKind) => plan.filter(action => action.kind === kind);
+
+    const runActions = async (actions: TeardownAction[], task: (action: TeardownAction) => Promise<string | void>) => {
+      await runBulk(actions, async (action) => {
+        const detail = await task(action);
+        // DELETE calls resolve to an empty object; only messages from the task belong in the report
+        record(action, 'succeeded', typeof detail === 'string' ? detail : undefined);
+      }, {
+        concurrency: 5,
+        signal,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'failed') record(outcome.item, 'failed', describeSkytapError(outcome.error));
+        },
+      });
+    };
+
+    try {
+      addLog(`Starting teardown of project ${projectId}: ${plan.length} action(s)`);
+
+      await runActions(actionsOf('delete-schedule'), action => skytapAPI.deleteSchedule(action.targetId));
+      await runActions(actionsOf('delete-portal'), action => skytapAPI.deletePublishSet(action.configurationId, action.targetId));
+
+      // Each environment is saved (when asked) and then deleted; a failed save keeps the environment
+      const templateActions = new Map(actionsOf('save-template').map(action => [action.configurationId, action]));
+      const deletedIds = new Set<string>();
+      await runBulk(actionsOf('delete-environment'), async (deleteAction) => {
+        const templateAction = templateActions.get(deleteAction.configurationId);
+        if (templateAction) {
+          try {
+            const template = await skytapAPI.createTemplateFromConfiguration(deleteAction.configurationId);
+            record(templateAction, 'succeeded', `template ${template.id}`);
+          } catch (err) {
+            record(templateAction, 'failed', describeSkytapError(err));
+            record(deleteAction, 'skipped', 'Template was not saved');
+            return;
+          }
+          // The environment is busy until the template is saved; cancelling stops the wait, not the save
+          await skytapAPI.waitForConfigurationReady(deleteAction.configurationId, { signal, intervalMs: TEMPLATE_READY_POLL_MS });
+        }
+        await skytapAPI.deleteConfiguration(deleteAction.configurationId);
+        deletedIds.add(deleteAction.configurationId);
+        record(deleteAction, 'succeeded');
+      }, {
+        concurrency: 5,
+        signal,
+        onItemComplete: (outcome) => {
+          if (outcome.status === 'failed') record(outcome.item, 'failed', describeSkytapError(outcome.error));
+        },
+      });
+
+      // An IP stays attached while its environment exists, so only release the deleted environments' IPs
+      const releasable = actionsOf('release-ip').filter(action => deletedIds.has(action.configurationId));
+      await runActions(releasable, action => skytapAPI.releaseIPAddress(action.targetId));
+
+      const projectActions = plan.filter(action => action.kind === 'archive-project' || action.kind === 'delete-project');
+      const hadFailures = Array.from(outcomes.values()).some(outcome => outcome.status !== 'succeeded');
+      if (!signal.aborted && !hadFailures) {
+        await runActions(projectActions, async (action) => {
+          if (action.kind === 'delete-project') {
+            await skytapAPI.deleteProject(action.targetId);
+            return;
+          }
+          // Read the current name; the page may not have it when the project came from a previous session
+          const { name: currentName } = await skytapAPI.getProject(action.targetId, { signal });
+          const name = currentName.startsWith(ARCHIVED_PREFIX) ? currentName : `${ARCHIVED_PREFIX}${currentName}`;
+          await skytapAPI.updateProject(action.targetId, {
+            name,
+            summary: `Class torn down ${new Date().toLocaleDateString()}`,
+          });
+          return `renamed to "${name}"`;
+        });
+      }
+
+      // Whatever never ran is reported as skipped, with the reason
+      const report = plan.map(action => outcomes.get(action) ?? {
+        ...action,
+        status: 'skipped' as const,
+        detail: signal.aborted
+          ? 'Cancelled'
+          : action.kind === 'release-ip'
+            ? 'Environment was not deleted'
+            : 'Earlier steps did not all succeed',
+      });
+      setResults(report);
+      setPlan(null);
+      setProgress(100);
+
+      await queryClient.invalidateQueries({ queryKey: skytapKeys.project(projectId.trim()) });
+      await queryClient.invalidateQueries({ queryKey: skytapKeys.configurations() });
+
+      const failed = report.filter(result => result.status === 'failed').length;
+      const skipped = report.filter(result => result.status === 'skipped').length;
+      addLog(`Teardown finished: ${report.length - failed - skipped} succeeded, ${failed} failed, ${skipped} skipped`);
+      toast({
+        title: signal.aborted ? "Teardown Cancelled" : failed > 0 ? "Teardown Finished With Errors" : "Teardown Complete",
+        description: `${report.length - failed - skipped} of ${report.length} action(s) succeeded`,
+        variant: failed > 0 || signal.aborted ? "destructive" : "default",
+      });
+    } catch (err) {
+      const errorMessage = describeSkytapError(err, 'Teardown failed');
+      setError(errorMessage);
+      addLog(`Teardown failed: ${errorMessage}`);
+      toast({
+        title: "Teardown Failed",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      setIsCancelling(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    const escapeCsv = (val: unknown) => {
+      const s = String(val ?? "");
+      return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+    const csvContent = [
+      ['Action', 'Target', 'ID', 'Environment ID', 'Status', 'Detail'],
+      ...results.map(result => [ACTION_LABELS[result.kind], result.target, result.targetId, result.configurationId, result.status, result.detail])
+    ].map(row => row.map(escapeCsv).join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    link.setAttribute('href', URL.createObjectURL(blob));
+    link.setAttribute('download', `teardown_${projectId}.csv`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const statusVariant = (status: TeardownResult['status']) =>
+    status === 'succeeded' ? 'default' : status === 'failed' ? 'destructive' : 'secondary';
+
+  const controlsDisabled = isLoading || isRunning;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Button onClick={handleLoadInventory} disabled={controlsDisabled || !projectId} className="w-full">
+        <Search className="h-4 w-4 mr-2" />
+        {isLoading ? "Loading Inventory..." : "Load Inventory"}
+      </Button>
+
+      {inventory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Project Inventory</CardTitle>
+            <CardDescription>
+              {selectedItems.length} of {inventory.length} environment(s) selected for teardown
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Environment</TableHead>
+                    <TableHead>Runstate</TableHead>
+                    <TableHead>Schedules</TableHead>
+                    <TableHead>Sharing Portals</TableHead>
+                    <TableHead>Public IPs</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {inventory.map(({ configuration, schedules, publishSets, publicIps }) => (
+                    <TableRow key={configuration.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.has(configuration.id)}
+                          onCheckedChange={(checked) => toggleSelected(configuration.id, checked === true)}
+                          aria-label={`Select ${configuration.name}`}
+                          disabled={controlsDisabled}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{configuration.name}</div>
+                        <div className="text-xs text-muted-foreground">{configuration.id}</div>
+                      </TableCell>
+                      <TableCell>{configuration.runstate}</TableCell>
+                      <TableCell>{schedules.map(schedule => schedule.title).join(', ') || '-'}</TableCell>
+                      <TableCell>{publishSets.map(publishSet => publishSet.name).join(', ') || '-'}</TableCell>
+                      <TableCell>{publicIps.map(ip => ip.address).join(', ') || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {inventory.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Teardown Options</CardTitle>
+            <CardDescription>Choose what to remove, then preview the exact changes before running</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="deleteSchedules"
+                  checked={options.deleteSchedules}
+                  onCheckedChange={(checked) => updateOptions({ deleteSchedules: checked === true })}
+                  disabled={controlsDisabled}
+                />
+                <Label htmlFor="deleteSchedules">Delete schedules</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="deletePortals"
+                  checked={options.deletePortals}
+                  onCheckedChange={(checked) => updateOptions({ deletePortals: checked === true })}
+                  disabled={controlsDisabled}
+                />
+                <Label htmlFor="deletePortals">Delete sharing portals</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="deleteEnvironments"
+                  checked={options.deleteEnvironments}
+                  onCheckedChange={(checked) => updateOptions({ deleteEnvironments: checked === true })}
+                  disabled={controlsDisabled}
+                />
+                <Label htmlFor="deleteEnvironments">Delete environments</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="saveTemplates"
+                  checked={options.saveTemplates}
+                  onCheckedChange={(checked) => updateOptions({ saveTemplates: checked === true })}
+                  disabled={controlsDisabled || !options.deleteEnvironments}
+                />
+                <Label htmlFor="saveTemplates">Save a template of each environment first</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="releaseIps"
+                  checked={options.releaseIps}
+                  onCheckedChange={(checked) => updateOptions({ releaseIps: checked === true })}
+                  disabled={controlsDisabled || !options.deleteEnvironments}
+                />
+                <Label htmlFor="releaseIps">Release attached public IPs</Label>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <RadioGroup
+                value={options.projectAction}
+                onValueChange={(value) => updateOptions({ projectAction: value as ProjectAction })}
+                className="flex flex-wrap gap-4"
+                disabled={controlsDisabled}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="keep" id="projectKeep" />
+                  <Label htmlFor="projectKeep">Keep</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="archive" id="projectArchive" />
+                  <Label htmlFor="projectArchive">Archive (rename with "{ARCHIVED_PREFIX.trim()}")</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="delete" id="projectDelete" />
+                  <Label htmlFor="projectDelete">Delete</Label>
+                </div>
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                The project is only archived or deleted when every other action succeeds.
+              </p>
+            </div>
+
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={handlePreview} disabled={controlsDisabled} className="flex-1">
+                <Eye className="h-4 w-4 mr-2" />
+                Preview Teardown
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => setShowConfirm(true)}
+                disabled={controlsDisabled || !plan || plan.length === 0}
+                className="flex-1"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                {isRunning ? "Tearing Down..." : "Run Teardown"}
+              </Button>
+              {isRunning && (
+                <Button onClick={handleCancel} disabled={isCancelling} variant="outline">
+                  <XCircle className="h-4 w-4 mr-2" />
+                  {isCancelling ? "Cancelling..." : "Cancel"}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {plan && plan.length > 0 && !isRunning && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Dry Run</CardTitle>
+            <CardDescription>
+              Nothing has been changed yet. Running the teardown will make these {plan.length} change(s), in this order.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ol className="list-decimal pl-6 space-y-1 text-sm">
+              {plan.map((action, index) => (
+                <li key={index}>
+                  {ACTION_LABELS[action.kind]} "{action.target}" ({action.targetId})
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
+      {isRunning && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span>Teardown Progress</span>
+            <span>{Math.round(progress)}%</span>
+          </div>
+          <Progress value={progress} className="w-full" />
+        </div>
+      )}
+
+      {logs.length > 0 && (
+        <Card>
+          <Collapsible open={isLogsOpen} onOpenChange={setIsLogsOpen}>
+            <CollapsibleTrigger asChild>
+              <CardHeader className="cursor-pointer hover:bg-muted/50 transition-colors">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle className="text-lg">Teardown Log</CardTitle>
+                    <CardDescription>
+                      Real-time log of the teardown process
+                    </CardDescription>
+                  </div>
+                  {isLogsOpen ? (
+                    <ChevronDown className="h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="h-4 w-4" />
+                  )}
+                </div>
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent>
+                <div className="bg-muted rounded-md p-4 font-mono text-sm space-y-1 max-h-64 overflow-y-auto">
+                  {logs.map((log, index) => (
+                    <div key={index} className="text-foreground">
+                      {log}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </CollapsibleContent>
+          </Collapsible>
+        </Card>
+      )}
+
+      {results.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="text-lg">Teardown Results</CardTitle>
+                <CardDescription>Outcome of every planned action</CardDescription>
+              </div>
+              <Button variant="outline" onClick={handleDownloadReport}>
+                <Download className="h-4 w-4 mr-2" />
+                Download Report
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Detail</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{ACTION_LABELS[result.kind]}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{result.target}</div>
+                        <div className="text-xs text-muted-foreground">{result.targetId}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariant(result.status)}>{result.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{result.detail ?? ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <AlertDialog open={showConfirm} onOpenChange={setShowConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Tear down this class?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This makes {plan?.length ?? 0} change(s) to project {projectName || projectId}, including deletions that
+              cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRunTeardown}>Run Teardown</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TeardownClass;
@@ -0,0 +1,117 @@
+// Training Wizard Steps
+// The steps Build Class offers, in the order the wizard suggests them. A custom step is a component
+// that takes the props below, plus an entry here saying which outputs it requires, uses and produces;
+// the wizard works out when it can open, whether it can be skipped and what it is handed.
+
+import React from "react";
+import { Copy, Calendar, Power, Share2, Link, Tag, Globe } from "lucide-react";
+import { COPY_STEP_ID, StepCompletion, StepInputs, TrainingStepSpec, validateStepGraph } from "@/lib/training-steps";
+import type { ClassDefinition } from "@/lib/class-definition";
+import type { TrainingRun } from "@/lib/training-runs";
+import CopyEnvironment from "./CopyEnvironment";
+import CreateSchedulers from "./CreateSchedulers";
+import PowerOptions from "./PowerOptions";
+import CreatePortals from "./CreatePortals";
+import ApplyLabels from "./ApplyLabels";
+import AttachPublicIps from "./AttachPublicIps";
+import LookupUrls from "./LookupUrls";
+
+/**
+ * Props every step component is rendered with; a step declares the ones it reads
+ */
+export interface TrainingStepProps {
+  projectId: string;
+  onComplete: (results: StepCompletion) => void;
+  inputs: StepInputs;
+  resumeRun?: TrainingRun | null;
+  classDefinition?: ClassDefinition | null;
+  autoRun?: boolean;
+}
+
+export interface TrainingStep extends TrainingStepSpec {
+  icon: React.ReactNode;
+  component: React.ComponentType<TrainingStepProps>;
+  /** Whether a run of all steps from a class definition includes the step; without it the step always runs */
+  inClassRun?: (definition: ClassDefinition) => boolean;
+}
+
+export const TRAINING_STEPS: TrainingStep[] = [
+  {
+    id: COPY_STEP_ID,
+    title: "Copy Environment",
+    description: "Create multiple copies of a master environment with automated naming",
+    icon: <Copy className="h-6 w-6" />,
+    component: CopyEnvironment,
+    produces: ['copies'],
+  },
+  {
+    id: "create-schedulers",
+    title: "Create Schedulers",
+    description: "Set up staggered schedulers for the copies",
+    icon: <Calendar className="h-6 w-6" />,
+    component: CreateSchedulers,
+    optional: true,
+    requires: ['copies'],
+    produces: ['classSchedule'],
+    inClassRun: definition => !!definition.schedule,
+  },
+  {
+    id: "power-options",
+    title: "Power Options",
+    description: "Disable auto-shutdown or set an auto-suspend policy, and start the copies",
+    icon: <Power className="h-6 w-6" />,
+    component: PowerOptions,
+    optional: true,
+    requires: ['copies'],
+    uses: ['classSchedule'],
+  },
+  {
+    id: "create-portals",
+    title: "Create Portals",
+    description: "Create a sharing portal for each copy that follows the class schedule",
+    icon: <Share2 className="h-6 w-6" />,
+    component: CreatePortals,
+    optional: true,
+    requires: ['copies'],
+    uses: ['classSchedule'],
+    inClassRun: definition => !!definition.portals,
+  },
+  {
+    id: "apply-labels",
+    title: "Apply Labels",
+    description: "Tag the copies with labels such as a billing category",
+    icon: <Tag className="h-6 w-6" />,
+    component: ApplyLabels,
+    optional: true,
+    requires: ['copies'],
+    inClassRun: () => false,
+  },
+  {
+    id: "attach-public-ips",
+    title: "Attach Public IPs",
+    description: "Give the copies' VMs public IP addresses in their region",
+    icon: <Globe className="h-6 w-6" />,
+    component: AttachPublicIps,
+    optional: true,
+    requires: ['copies'],
+    produces: ['publicIps'],
+    inClassRun: () => false,
+  },
+  {
+    id: "lookup-urls",
+    title: "Lookup URLs",
+    description: "Generate and export student access URLs",
+    icon: <Link className="h-6 w-6" />,
+    component: LookupUrls,
+    uses: ['copies', 'publicIps'],
+  },
+];
+
+// A broken requires edge would otherwise only show up as a step that never opens. Development
+// builds and tests fail fast; production keeps the wizard usable and reports the problem.
+const stepGraphProblems = validateStepGraph(TRAINING_STEPS);
+if (stepGraphProblems.length > 0) {
+  const message = `Invalid training step graph: ${stepGraphProblems.join('; ')}`;
+  if (import.meta.env.DEV) throw new Error(message);
+  console.error(message);
+}
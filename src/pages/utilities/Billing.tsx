@@ -1,6 +1,7 @@
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, Download, RefreshCw, BarChart3, Calendar as CalendarIcon, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -140,12 +141,12 @@ const Billing = () => {
             if (x86ResultsResponse.ready) {
               x86Ready = true;
               // Process x86 RAM data
-              const allRegionsGrouping = x86ResultsResponse.results?.groupings?.find((grouping: any) => 
+              const allRegionsGrouping = x86ResultsResponse.results?.groupings?.find((grouping) => 
                 grouping.key === "__all__" || grouping.name === "All Regions"
               );
 
               if (allRegionsGrouping && allRegionsGrouping.periods) {
-                allRegionsGrouping.periods.forEach((period: any) => {
+                allRegionsGrouping.periods.forEach((period) => {
                   const usage = period.total_usage || 0;
                   x86RamHours += usage;
                   
@@ -171,12 +172,12 @@ const Billing = () => {
             if (storageResultsResponse.ready) {
               storageReady = true;
               // Process storage data
-              const allRegionsGrouping = storageResultsResponse.results?.groupings?.find((grouping: any) => 
+              const allRegionsGrouping = storageResultsResponse.results?.groupings?.find((grouping) => 
                 grouping.key === "__all__" || grouping.name === "All Regions"
               );
 
               if (allRegionsGrouping && allRegionsGrouping.periods) {
-                allRegionsGrouping.periods.forEach((period: any) => {
+                allRegionsGrouping.periods.forEach((period) => {
                   const usage = period.total_usage || 0;
                   // Convert MB to TB, then multiply by 1024 for storage hours
                   const terabytes = usage / 1048576;
@@ -355,7 +356,8 @@ const Billing = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/utilities")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to General Utilities
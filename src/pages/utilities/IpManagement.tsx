@@ -1,6 +1,7 @@
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Search, Trash2, AlertCircle, Filter } from "lucide-react";
+import { ArrowLeft, Search, Trash2, AlertCircle, Filter, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -8,12 +9,17 @@ import { Label } from "@/components/ui/label";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { useState } from "react";
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI, SkytapIPAddress } from "@/lib/skytap-api";
+import { skytapQueries, useReleaseIPAddress, useReleaseIPAddresses } from "@/hooks/use-skytap-queries";
+import { SkytapIPAddress } from "@/lib/skytap-api";
 
 const IpManagement = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const releaseIPAddress = useReleaseIPAddress();
+  const releaseIPAddresses = useReleaseIPAddresses();
   const [ipAddresses, setIpAddresses] = useState<SkytapIPAddress[]>([]);
   const [selectedRegion, setSelectedRegion] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
@@ -23,6 +29,8 @@ const IpManagement = () => {
   const [releaseType, setReleaseType] = useState<"single" | "all">("single");
   const [selectedIPId, setSelectedIPId] = useState<string>("");
   const [showNonAttachedOnly, setShowNonAttachedOnly] = useState<boolean>(false);
+  const [releaseProgress, setReleaseProgress] = useState<{ completed: number; total: number } | null>(null);
+  const releaseAbortRef = useRef<AbortController | null>(null);
 
   // Filter IP addresses based on the non-attached filter
   const filteredIPAddresses = showNonAttachedOnly 
@@ -35,7 +43,7 @@ const IpManagement = () => {
     setSelectedRegion(region);
     
     try {
-      const ips = await skytapAPI.getIPAddressesByRegion(region, 100, 0);
+      const ips = await queryClient.fetchQuery(skytapQueries.ipAddresses(region));
       setIpAddresses(ips);
       
       toast({
@@ -66,6 +74,11 @@ const IpManagement = () => {
     setShowReleaseConfirm(true);
   };
 
+  // Stops a "Release All" run between IPs; releases already sent still complete
+  const handleCancelRelease = () => {
+    releaseAbortRef.current?.abort();
+  };
+
   const confirmRelease = async () => {
     setShowReleaseConfirm(false);
     setIsReleasing(true);
@@ -73,7 +86,7 @@ const IpManagement = () => {
     
     try {
       if (releaseType === "single") {
-        await skytapAPI.releaseIPAddress(selectedIPId);
+        await releaseIPAddress.mutateAsync(selectedIPId);
         setIpAddresses(ipAddresses.filter(ip => ip.id !== selectedIPId));
         
         toast({
@@ -82,7 +95,17 @@ const IpManagement = () => {
         });
       } else {
         const ipIds = filteredIPAddresses.map(ip => ip.id);
-        const results = await skytapAPI.releaseIPAddresses(ipIds);
+        const controller = new AbortController();
+        releaseAbortRef.current = controller;
+        setReleaseProgress({ completed: 0, total: ipIds.length });
+
+        const results = await releaseIPAddresses.mutateAsync({
+          ipIds,
+          options: {
+            signal: controller.signal,
+            onProgress: ({ completed, total }) => setReleaseProgress({ completed, total }),
+          },
+        });
         
         // Remove successfully released IPs from the list
         const successfulIds = new Set(results.success);
@@ -96,9 +119,20 @@ const IpManagement = () => {
           });
         }
         
+        if (results.skipped.length > 0) {
+          toast({
+            title: "Release Cancelled",
+            description: `Released ${results.success.length} IP address(es); ${results.skipped.length} were left untouched`,
+          });
+        }
+        
         // Show error message for any failures
         if (results.failed.length > 0) {
-          setError(`Failed to release ${results.failed.length} IP address(es): ${results.failed.map(f => f.id).join(', ')}`);
+          const retryableCount = results.failed.filter(f => f.retryable).length;
+          setError(
+            `Failed to release ${results.failed.length} IP address(es): ${results.failed.map(f => f.id).join(', ')}` +
+            (retryableCount > 0 ? ` (${retryableCount} were busy or rate limited and can be retried)` : '')
+          );
           toast({
             title: "Some Releases Failed",
             description: `${results.failed.length} IP address(es) could not be released`,
@@ -115,6 +149,8 @@ const IpManagement = () => {
         variant: "destructive",
       });
     } finally {
+      releaseAbortRef.current = null;
+      setReleaseProgress(null);
       setIsReleasing(false);
     }
   };
@@ -122,7 +158,8 @@ const IpManagement = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/utilities")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to General Utilities
@@ -193,10 +230,18 @@ const IpManagement = () => {
                     </Label>
                   </div>
                 </div>
-                <Button variant="destructive" onClick={handleReleaseAll} disabled={isReleasing}>
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  {isReleasing ? "Releasing..." : "RELEASE ALL"}
-                </Button>
+                <div className="flex items-center gap-3">
+                  {releaseProgress && (
+                    <Button variant="outline" onClick={handleCancelRelease}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel ({releaseProgress.completed}/{releaseProgress.total})
+                    </Button>
+                  )}
+                  <Button variant="destructive" onClick={handleReleaseAll} disabled={isReleasing}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    {isReleasing ? "Releasing..." : "RELEASE ALL"}
+                  </Button>
+                </div>
               </div>
 
               <Card>
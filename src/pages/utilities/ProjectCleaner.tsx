@@ -1,9 +1,11 @@
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useState } from "react";
 import { toast } from "@/hooks/use-toast";
+import { useDeleteProjects } from "@/hooks/use-skytap-queries";
 import { skytapAPI, SkytapProject } from "@/lib/skytap-api";
 import { ProjectTable } from "@/components/utilities/ProjectTable";
 import { ProjectCleanerControls } from "@/components/utilities/ProjectCleanerControls";
@@ -17,6 +19,7 @@ interface EmptyProject {
 
 const ProjectCleaner = () => {
   const navigate = useNavigate();
+  const deleteProjects = useDeleteProjects();
   const [emptyProjects, setEmptyProjects] = useState<EmptyProject[]>([]);
   const [selectedProjects, setSelectedProjects] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(false);
@@ -26,14 +29,24 @@ const ProjectCleaner = () => {
   const [error, setError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteType, setDeleteType] = useState<"selected" | "all">("selected");
-  const [projectCount, setProjectCount] = useState<number>(200);
+  // 0 means scan every project in the account
+  const [projectCount, setProjectCount] = useState<number>(0);
+  const [scannedCount, setScannedCount] = useState<number>(0);
 
   const handleFindEmptyProjects = async () => {
     setIsLoading(true);
     setError(null);
+    setScannedCount(0);
     
     try {
-      const projects = await skytapAPI.findEmptyProjects(projectCount);
+      let scanned = 0;
+      const projects = await skytapAPI.findEmptyProjects({
+        limit: projectCount > 0 ? projectCount : undefined,
+        onProgress: (fetched) => {
+          scanned = fetched;
+          setScannedCount(fetched);
+        },
+      });
       const emptyProjectsData: EmptyProject[] = projects.map(project => ({
         id: project.id,
         name: project.name,
@@ -46,7 +59,7 @@ const ProjectCleaner = () => {
       
       toast({
         title: "Empty Projects Found",
-        description: `Found ${emptyProjectsData.length} empty projects from ${projectCount} total projects`,
+        description: `Found ${emptyProjectsData.length} empty projects from ${scanned} total projects`,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch empty projects';
@@ -101,7 +114,7 @@ const ProjectCleaner = () => {
         ? Array.from(selectedProjects)
         : emptyProjects.map(p => p.id);
       
-      const results = await skytapAPI.deleteProjects(projectIds);
+      const results = await deleteProjects.mutateAsync({ projectIds });
       
       // Remove successfully deleted projects from the list
       const successfulIds = new Set(results.success);
@@ -118,7 +131,11 @@ const ProjectCleaner = () => {
       
       // Show error message for any failures
       if (results.failed.length > 0) {
-        setError(`Failed to delete ${results.failed.length} project(s): ${results.failed.map(f => f.id).join(', ')}`);
+        const retryableCount = results.failed.filter(f => f.retryable).length;
+        setError(
+          `Failed to delete ${results.failed.length} project(s): ${results.failed.map(f => f.id).join(', ')}` +
+          (retryableCount > 0 ? ` (${retryableCount} were busy or rate limited and can be retried)` : '')
+        );
         toast({
           title: "Some Deletions Failed",
           description: `${results.failed.length} project(s) could not be deleted`,
@@ -172,7 +189,8 @@ const ProjectCleaner = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/utilities")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to General Utilities
@@ -194,6 +212,7 @@ const ProjectCleaner = () => {
             <CardContent className="space-y-4">
               <ProjectCleanerControls
                 projectCount={projectCount}
+                scannedCount={scannedCount}
                 emptyProjects={emptyProjects}
                 selectedProjects={selectedProjects}
                 isLoading={isLoading}
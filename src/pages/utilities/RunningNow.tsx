@@ -5,6 +5,7 @@ import React, { useState, useEffect, useCallback } from "react";
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, RefreshCw, Clock, Monitor, Globe, Activity } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -74,7 +75,7 @@ const RunningNow = () => {
         region: env.region,
         vm_count: env.vm_count,
         storage: env.storage,
-        owner_name: (env as any).owner_name || 'Unknown'
+        owner_name: env.owner_name || 'Unknown'
       }));
       
       setEnvironments(transformedData);
@@ -179,7 +180,8 @@ const RunningNow = () => {
     <div className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/utilities")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to Utilities
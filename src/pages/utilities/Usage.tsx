@@ -1,15 +1,17 @@
 import { useNavigate } from "react-router-dom";
-import { ArrowLeft, Code, Grid3x3, Copy } from "lucide-react";
+import { ArrowLeft, Code, Grid3x3, Copy, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI, SkytapConfiguration, SkytapTemplate, SkytapLabel } from "@/lib/skytap-api";
+import { skytapAPI, SkytapConfiguration, SkytapTemplate, SkytapLabel, isAbortError } from "@/lib/skytap-api";
+import { runBulk } from "@/lib/bulk-runner";
 import { Box, Typography, Slider } from "@mui/material";
 
 interface BillingCategory {
@@ -27,9 +29,9 @@ interface TemplateBillingCategory {
 const Usage = () => {
   const navigate = useNavigate();
   
-  // Shared batch configuration state
-  const [batchSize, setBatchSize] = useState<number>(10);
-  const [delayMs, setDelayMs] = useState<number>(1000);
+  // Shared request throttling state
+  const [concurrency, setConcurrency] = useState<number>(5);
+  const [delayMs, setDelayMs] = useState<number>(100);
 
   // Environment states
   const [envCount, setEnvCount] = useState(10);
@@ -47,9 +49,13 @@ const Usage = () => {
   const [templateResults, setTemplateResults] = useState<TemplateBillingCategory[] | null>(null);
   const [unlabeledTemplates, setUnlabeledTemplates] = useState<string[]>([]);
 
+  // Abort controllers for in-flight fetches so the user can stop a long analysis
+  const envAbortRef = useRef<AbortController | null>(null);
+  const templateAbortRef = useRef<AbortController | null>(null);
+
   // Slider event handlers
-  const handleBatchSizeChange = (_event: Event, newValue: number | number[]) => {
-    setBatchSize(newValue as number);
+  const handleConcurrencyChange = (_event: Event, newValue: number | number[]) => {
+    setConcurrency(newValue as number);
   };
 
   const handleDelayChange = (_event: Event, newValue: number | number[]) => {
@@ -57,6 +63,10 @@ const Usage = () => {
   };
 
   const handleFetchEnvironments = async () => {
+    const controller = new AbortController();
+    envAbortRef.current = controller;
+    const { signal } = controller;
+
     setEnvFetching(true);
     setEnvProgress(0);
     setEnvResults(null);
@@ -65,7 +75,7 @@ const Usage = () => {
       
       
       // Fetch all configurations
-      const configurations = await skytapAPI.getAllConfigurations(envCount, 0);
+      const configurations = await skytapAPI.getAllConfigurations({ limit: envCount, signal });
       
       
       const billingCounts: Record<string, { count: number; svms: number; storage: number }> = {};
@@ -81,74 +91,48 @@ const Usage = () => {
 
       // Totals computed
 
-      // Extract configuration IDs for batch processing
-      const configurationIds = configurations.map((configuration: any) => configuration.id);
-      
-
-      // Process configurations in batches
-      const totalBatches = Math.ceil(configurationIds.length / batchSize);
-      
-      
-      for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-        const startIndex = batchIndex * batchSize;
-        const endIndex = Math.min(startIndex + batchSize, configurationIds.length);
-        const batchConfigurationIds = configurationIds.slice(startIndex, endIndex);
-        
-        console.log(`Processing batch ${batchIndex + 1}/${totalBatches}: configurations ${startIndex + 1}-${endIndex}`);
-
-        // Process each configuration in the batch
-        for (const configurationId of batchConfigurationIds) {
-          try {
-            const labels = await skytapAPI.getConfigurationLabels(configurationId);
-            
-            // Filter for billing category labels
-            const billingCategoryTags = labels.filter(
-              (label: SkytapLabel) => label.type === 'Billing Category'
-            );
-
-            if (billingCategoryTags.length === 0) {
-              const configurationUrl = `https://cloud.skytap.com/configurations/${configurationId}`;
-              unlabeledConfigurations.push(configurationUrl);
-              continue;
-            }
+      // Look up billing labels for every configuration with bounded concurrency
+      const labelRun = await runBulk(configurations, async (config) => {
+        try {
+          const labels = await skytapAPI.getConfigurationLabels(config.id, { signal });
+          
+          // Filter for billing category labels
+          const billingCategoryTags = labels.filter(
+            (label: SkytapLabel) => label.type === 'Billing Category'
+          );
 
-            // Find the configuration data for resource calculation
-            const config = configurations.find(c => c.id === configurationId);
-            if (!config) continue;
-
-            // Calculate resources for this configuration
-            const configSvms = config.svms || 0;
-            const configStorage = (config.storage || 0) / 1024; // Convert MB to GB
-
-            // Add to billing category counts
-            for (const billingTag of billingCategoryTags) {
-              const text = billingTag.text;
-              if (!billingCounts[text]) {
-                billingCounts[text] = { count: 0, svms: 0, storage: 0 };
-              }
-              billingCounts[text].count += 1;
-              billingCounts[text].svms += configSvms;
-              billingCounts[text].storage += configStorage;
-            }
-          } catch (error) {
-            
-            const configurationUrl = `https://cloud.skytap.com/configurations/${configurationId}`;
+          if (billingCategoryTags.length === 0) {
+            const configurationUrl = `https://cloud.skytap.com/configurations/${config.id}`;
             unlabeledConfigurations.push(configurationUrl);
+            return;
           }
-        }
 
-        // Update progress
-        const currentProgress = ((batchIndex + 1) / totalBatches) * 100;
-        setEnvProgress(currentProgress);
+          // Calculate resources for this configuration
+          const configSvms = config.svms || 0;
+          const configStorage = (config.storage || 0) / 1024; // Convert MB to GB
 
-        // Wait for the batch delay (except after the last batch)
-        if (batchIndex < totalBatches - 1) {
-          
-          await new Promise(resolve => setTimeout(resolve, delayMs));
+          // Add to billing category counts
+          for (const billingTag of billingCategoryTags) {
+            const text = billingTag.text;
+            if (!billingCounts[text]) {
+              billingCounts[text] = { count: 0, svms: 0, storage: 0 };
+            }
+            billingCounts[text].count += 1;
+            billingCounts[text].svms += configSvms;
+            billingCounts[text].storage += configStorage;
+          }
+        } catch (error) {
+          // Cancelled lookups are not "unlabeled"; let the runner record them
+          if (isAbortError(error)) throw error;
+          const configurationUrl = `https://cloud.skytap.com/configurations/${config.id}`;
+          unlabeledConfigurations.push(configurationUrl);
         }
-      }
-
-      
+      }, {
+        concurrency,
+        startDelayMs: delayMs,
+        signal,
+        onProgress: ({ percent }) => setEnvProgress(percent),
+      });
 
       // Convert to array format
       const results: BillingCategory[] = Object.entries(billingCounts).map(([name, data]) => ({
@@ -162,10 +146,18 @@ const Usage = () => {
       setEnvTotalStorage(Number(totalStorage.toFixed(2)));
       setEnvResults(results);
       
-      toast({
-        title: "Environments Fetched",
-        description: `Successfully analyzed ${configurations.length} environment(s). Found ${results.length} billing categories.`,
-      });
+      if (signal.aborted) {
+        toast({
+          title: "Analysis Cancelled",
+          description: `Analyzed ${labelRun.succeeded.length} of ${configurations.length} environment(s). Results below are partial.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Environments Fetched",
+          description: `Successfully analyzed ${configurations.length} environment(s). Found ${results.length} billing categories.`,
+        });
+      }
 
       if (unlabeledConfigurations.length > 0) {
         toast({
@@ -175,6 +167,13 @@ const Usage = () => {
         });
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Fetch Cancelled",
+          description: "Stopped before any environments were analyzed",
+        });
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch environments';
       console.error('Error:', error);
       toast({
@@ -183,11 +182,16 @@ const Usage = () => {
         variant: "destructive",
       });
     } finally {
+      envAbortRef.current = null;
       setEnvFetching(false);
     }
   };
 
   const handleFetchTemplates = async () => {
+    const controller = new AbortController();
+    templateAbortRef.current = controller;
+    const { signal } = controller;
+
     setTemplateFetching(true);
     setTemplateProgress(0);
     setTemplateResults(null);
@@ -196,7 +200,7 @@ const Usage = () => {
       
       
       // Fetch all templates
-      const allTemplates = await skytapAPI.getAllTemplates(templateCount, 0);
+      const allTemplates = await skytapAPI.getAllTemplates({ limit: templateCount, signal });
       
       
       // Filter templates that have owner_name
@@ -208,61 +212,39 @@ const Usage = () => {
       const billingCounts: Record<string, number> = {};
       const unlabeledTemplates: string[] = [];
 
-      // Extract template IDs for batch processing
-      const templateIds = templates.map((template: SkytapTemplate) => template.id);
-      
-
-      // Process templates in batches
-      const totalBatches = Math.ceil(templateIds.length / batchSize);
-      
-      
-      for (let batchIndex = 0; batchIndex < totalBatches; batchIndex++) {
-        const startIndex = batchIndex * batchSize;
-        const endIndex = Math.min(startIndex + batchSize, templateIds.length);
-        const batchTemplateIds = templateIds.slice(startIndex, endIndex);
-        
+      // Look up billing labels for every template with bounded concurrency
+      const labelRun = await runBulk(templates, async (template) => {
+        try {
+          const labels = await skytapAPI.getTemplateLabels(template.id, { signal });
           
+          // Filter for billing category labels
+          const billingCategoryTags = labels.filter(
+            (label: SkytapLabel) => label.type === 'Billing Category'
+          );
 
-        // Process each template in the batch
-        for (const templateId of batchTemplateIds) {
-          try {
-            const labels = await skytapAPI.getTemplateLabels(templateId);
-            
-            // Filter for billing category labels
-            const billingCategoryTags = labels.filter(
-              (label: SkytapLabel) => label.type === 'Billing Category'
-            );
-
-            if (billingCategoryTags.length === 0) {
-              const templateUrl = `https://cloud.skytap.com/templates/${templateId}`;
-              unlabeledTemplates.push(templateUrl);
-              continue;
-            }
-
-            // Count templates by billing category
-            for (const billingTag of billingCategoryTags) {
-              const text = billingTag.text;
-              billingCounts[text] = (billingCounts[text] || 0) + 1;
-            }
-          } catch (error) {
-            
-            const templateUrl = `https://cloud.skytap.com/templates/${templateId}`;
+          if (billingCategoryTags.length === 0) {
+            const templateUrl = `https://cloud.skytap.com/templates/${template.id}`;
             unlabeledTemplates.push(templateUrl);
+            return;
           }
-        }
 
-        // Update progress
-        const currentProgress = ((batchIndex + 1) / totalBatches) * 100;
-        setTemplateProgress(currentProgress);
-
-        // Wait for the batch delay (except after the last batch)
-        if (batchIndex < totalBatches - 1) {
-          
-          await new Promise(resolve => setTimeout(resolve, delayMs));
+          // Count templates by billing category
+          for (const billingTag of billingCategoryTags) {
+            const text = billingTag.text;
+            billingCounts[text] = (billingCounts[text] || 0) + 1;
+          }
+        } catch (error) {
+          // Cancelled lookups are not "unlabeled"; let the runner record them
+          if (isAbortError(error)) throw error;
+          const templateUrl = `https://cloud.skytap.com/templates/${template.id}`;
+          unlabeledTemplates.push(templateUrl);
         }
-      }
-
-      
+      }, {
+        concurrency,
+        startDelayMs: delayMs,
+        signal,
+        onProgress: ({ percent }) => setTemplateProgress(percent),
+      });
 
       // Convert to array format
       const results: TemplateBillingCategory[] = Object.entries(billingCounts).map(([name, count]) => ({
@@ -273,10 +255,18 @@ const Usage = () => {
       setTemplateResults(results);
       setUnlabeledTemplates(unlabeledTemplates);
       
-      toast({
-        title: "Templates Fetched",
-        description: `Successfully analyzed ${templates.length} template(s). Found ${results.length} billing categories.`,
-      });
+      if (signal.aborted) {
+        toast({
+          title: "Analysis Cancelled",
+          description: `Analyzed ${labelRun.succeeded.length} of ${templates.length} template(s). Results below are partial.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Templates Fetched",
+          description: `Successfully analyzed ${templates.length} template(s). Found ${results.length} billing categories.`,
+        });
+      }
 
       if (unlabeledTemplates.length > 0) {
         toast({
@@ -286,6 +276,13 @@ const Usage = () => {
         });
       }
     } catch (error) {
+      if (isAbortError(error)) {
+        toast({
+          title: "Fetch Cancelled",
+          description: "Stopped before any templates were analyzed",
+        });
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : 'Failed to fetch templates';
       console.error('Error:', error);
       toast({
@@ -294,6 +291,7 @@ const Usage = () => {
         variant: "destructive",
       });
     } finally {
+      templateAbortRef.current = null;
       setTemplateFetching(false);
     }
   };
@@ -316,7 +314,8 @@ const Usage = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/utilities")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to General Utilities
@@ -371,6 +370,12 @@ const Usage = () => {
                     <Button onClick={handleFetchEnvironments} disabled={envFetching}>
                       {envFetching ? "Fetching..." : "FETCH ENVIRONMENTS"}
                     </Button>
+                    {envFetching && (
+                      <Button variant="outline" onClick={() => envAbortRef.current?.abort()}>
+                        <XCircle className="h-4 w-4 mr-2" />
+                        CANCEL
+                      </Button>
+                    )}
                   </div>
 
                   {envFetching && (
@@ -384,44 +389,43 @@ const Usage = () => {
 
                   <Box sx={{ mb: 3, p: 2, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
                     <Typography variant="h6" gutterBottom>
-                      Batch Configuration
+                      Request Throttling
                     </Typography>
                     <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 3 }}>
                       <Box>
                         <Typography gutterBottom>
-                          Batch Size: {batchSize} environments per batch
+                          Concurrency: {concurrency} environments at a time
                         </Typography>
                         <Slider
-                          value={batchSize}
-                          onChange={handleBatchSizeChange}
+                          value={concurrency}
+                          onChange={handleConcurrencyChange}
                           min={1}
-                          max={50}
+                          max={20}
                           step={1}
                           marks={[
                             { value: 1, label: '1' },
+                            { value: 5, label: '5' },
                             { value: 10, label: '10' },
-                            { value: 25, label: '25' },
-                            { value: 50, label: '50' }
+                            { value: 20, label: '20' }
                           ]}
                           disabled={envFetching}
                         />
                       </Box>
                       <Box>
                         <Typography gutterBottom>
-                          Delay: {delayMs}ms between batches
+                          Delay: {delayMs}ms between request starts
                         </Typography>
                         <Slider
                           value={delayMs}
                           onChange={handleDelayChange}
-                          min={500}
-                          max={10000}
-                          step={250}
+                          min={0}
+                          max={2000}
+                          step={50}
                           marks={[
+                            { value: 0, label: '0s' },
                             { value: 500, label: '0.5s' },
                             { value: 1000, label: '1s' },
-                            { value: 2000, label: '2s' },
-                            { value: 5000, label: '5s' },
-                            { value: 10000, label: '10s' }
+                            { value: 2000, label: '2s' }
                           ]}
                           disabled={envFetching}
                         />
@@ -598,6 +602,12 @@ const Usage = () => {
                     <Button onClick={handleFetchTemplates} disabled={templateFetching}>
                       {templateFetching ? "Fetching..." : "FETCH TEMPLATES"}
                     </Button>
+                    {templateFetching && (
+                      <Button variant="outline" onClick={() => templateAbortRef.current?.abort()}>
+                        <XCircle className="h-4 w-4 mr-2" />
+                        CANCEL
+                      </Button>
+                    )}
                   </div>
 
                   {templateFetching && (
@@ -611,44 +621,43 @@ const Usage = () => {
 
                   <Box sx={{ mb: 3, p: 2, border: '1px solid', borderColor: 'divider', borderRadius: 1 }}>
                     <Typography variant="h6" gutterBottom>
-                      Batch Configuration
+                      Request Throttling
                     </Typography>
                     <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 3 }}>
                       <Box>
                         <Typography gutterBottom>
-                          Batch Size: {batchSize} templates per batch
+                          Concurrency: {concurrency} templates at a time
                         </Typography>
                         <Slider
-                          value={batchSize}
-                          onChange={handleBatchSizeChange}
+                          value={concurrency}
+                          onChange={handleConcurrencyChange}
                           min={1}
-                          max={50}
+                          max={20}
                           step={1}
                           marks={[
                             { value: 1, label: '1' },
+                            { value: 5, label: '5' },
                             { value: 10, label: '10' },
-                            { value: 25, label: '25' },
-                            { value: 50, label: '50' }
+                            { value: 20, label: '20' }
                           ]}
                           disabled={templateFetching}
                         />
                       </Box>
                       <Box>
                         <Typography gutterBottom>
-                          Delay: {delayMs}ms between batches
+                          Delay: {delayMs}ms between request starts
                         </Typography>
                         <Slider
                           value={delayMs}
                           onChange={handleDelayChange}
-                          min={500}
-                          max={10000}
-                          step={250}
+                          min={0}
+                          max={2000}
+                          step={50}
                           marks={[
+                            { value: 0, label: '0s' },
                             { value: 500, label: '0.5s' },
                             { value: 1000, label: '1s' },
-                            { value: 2000, label: '2s' },
-                            { value: 5000, label: '5s' },
-                            { value: 10000, label: '10s' }
+                            { value: 2000, label: '2s' }
                           ]}
                           disabled={templateFetching}
                         />
@@ -1,20 +1,24 @@
 import { useNavigate } from "react-router-dom";
 import { ArrowLeft, Search, ArrowUpDown, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { AccountSwitcher } from "@/components/AccountSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
-import { skytapAPI, SkytapUser } from "@/lib/skytap-api";
+import { skytapQueries } from "@/hooks/use-skytap-queries";
+import { SkytapUser } from "@/lib/skytap-api";
 
 type SortField = 'id' | 'last_name' | 'first_name' | 'activated' | 'last_login';
 type SortOrder = 'asc' | 'desc';
 
 const Users = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [maxResults, setMaxResults] = useState(20);
   const [showNotActivatedOnly, setShowNotActivatedOnly] = useState(false);
   const [users, setUsers] = useState<SkytapUser[]>([]);
@@ -36,7 +40,7 @@ const Users = () => {
     
     try {
       
-      const fetchedUsers = await skytapAPI.getAllUsers(maxResults);
+      const fetchedUsers = await queryClient.fetchQuery(skytapQueries.users(maxResults));
       
       
       setUsers(fetchedUsers);
@@ -171,7 +175,8 @@ const Users = () => {
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b bg-card">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 relative">
+          <AccountSwitcher className="absolute right-4 top-4" />
           <Button variant="ghost" onClick={() => navigate("/utilities")} className="mb-2">
             <ArrowLeft className="h-4 w-4 mr-2" />
             Back to General Utilities
@@ -0,0 +1,49 @@
+// Skytap Test Server
+// Runs the mock Skytap API behind the real profiles middleware and /api proxy, and points the
+// app's relative fetches at it, so tests exercise the same request path as the browser
+
+import http from "http";
+import type { AddressInfo } from "net";
+import { vi } from "vitest";
+import { MockSkytapOptions, startMockSkytapServer } from "../../server/mock/mock-skytap";
+import { createProfilesMiddleware, loadSkytapProfiles } from "../../server/skytap-profiles";
+import { createSkytapProxy } from "../../server/skytap-proxy";
+
+/**
+ * Start the mock and proxy on free ports. Defaults to no latency and no busy locks so
+ * tests are fast; pass options to exercise those paths.
+ */
+export async function startSkytapTestServer(options: MockSkytapOptions = {}) {
+  const upstream = await startMockSkytapServer({ port: 0, latencyMs: 0, lockMs: 0, reportPolls: 0, ...options });
+  const profiles = loadSkytapProfiles({ SKYTAP_USER: 'test-user', SKYTAP_TOKEN: 'test-token', SKYTAP_LABEL: 'Test Account' });
+  const handleProfiles = createProfilesMiddleware(profiles);
+  const handleProxy = createSkytapProxy({ upstream: upstream.url, profiles });
+
+  const server = http.createServer((req, res) => {
+    handleProfiles(req, res, () => {
+      if (handleProxy(req, res)) return;
+      res.writeHead(404);
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Node's fetch has no page origin to resolve "/api/..." against
+  const realFetch = globalThis.fetch;
+  vi.stubGlobal('fetch', (input: RequestInfo | URL, init?: RequestInit) =>
+    realFetch(typeof input === 'string' && input.startsWith('/') ? `${origin}${input}` : input, init)
+  );
+
+  return {
+    mock: upstream.mock,
+    origin,
+    close: async () => {
+      vi.unstubAllGlobals();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      await upstream.close();
+    },
+  };
+}
+
+export type SkytapTestServer = Awaited<ReturnType<typeof startSkytapTestServer>>;
@@ -1,24 +1,78 @@
 // Vite Configuration for Skytap Management Console
 // This configuration sets up the development server with API proxying to Skytap Cloud
+/// <reference types="vitest/config" />
 
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import {
+  PROFILE_HEADER,
+  SkytapProfileConfig,
+  basicAuthHeader,
+  createProfilesMiddleware,
+  loadSkytapProfiles,
+  resolveProfile,
+} from "./server/skytap-profiles";
+import { DEFAULT_UPSTREAM, rewriteLocation } from "./server/skytap-proxy";
+import { startMockSkytapServer } from "./server/mock/mock-skytap";
+
+/**
+ * Serves the credential profile list and rejects unknown profiles in both the dev and preview servers
+ */
+const skytapProfiles = (config: SkytapProfileConfig): Plugin => ({
+  name: 'skytap-profiles',
+  configureServer(server) {
+    server.middlewares.use(createProfilesMiddleware(config));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createProfilesMiddleware(config));
+  },
+});
+
+/**
+ * Runs the mock Skytap API next to the dev or preview server so the proxy has something to talk to offline
+ */
+const skytapMock = (port: number, latencyMs?: number): Plugin => {
+  const start = async (httpServer: { once(event: 'close', listener: () => void): unknown } | null) => {
+    const mock = await startMockSkytapServer({ port, latencyMs });
+    console.log(`Mock Skytap API listening on ${mock.url}`);
+    httpServer?.once('close', () => { mock.close(); });
+  };
+  return {
+    name: 'skytap-mock',
+    async configureServer(server) {
+      await start(server.httpServer);
+    },
+    async configurePreviewServer(server) {
+      await start(server.httpServer);
+    },
+  };
+};
 
 /**
  * Vite configuration for the Skytap Management Console
  * 
  * Key features:
  * - React with SWC for fast compilation
- * - API proxy to Skytap Cloud with authentication
+ * - API proxy to Skytap Cloud with per-profile authentication
+ * - Optional local mock of the Skytap API (`npm run dev:mock` or SKYTAP_UPSTREAM=mock)
  * - Path aliases for clean imports
  * - Development component tagging
  * - Dependency deduplication for better performance
  */
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
   // Load environment variables for API authentication
   const env = loadEnv(mode, process.cwd(), '');
+  const useMock = mode === 'mock' || env.SKYTAP_UPSTREAM === 'mock';
+  const mockPort = Number(env.SKYTAP_MOCK_PORT) || 8090;
+  const upstream = useMock ? `http://127.0.0.1:${mockPort}` : env.SKYTAP_UPSTREAM || DEFAULT_UPSTREAM;
+
+  // The mock accepts any credentials, so offline work needs no .env at all
+  let profileConfig = loadSkytapProfiles(env);
+  if (useMock && profileConfig.profiles.length === 0) {
+    profileConfig = loadSkytapProfiles({ SKYTAP_USER: 'mock', SKYTAP_TOKEN: 'mock', SKYTAP_LABEL: 'Mock Skytap' });
+  }
   
   return {
     // Development server configuration
@@ -28,20 +82,19 @@ export default defineConfig(({ mode }) => {
       proxy: {
         // Proxy API requests to Skytap Cloud
         '/api': {
-          target: 'https://cloud.skytap.com',
+          target: upstream,
           changeOrigin: true,
           secure: true,
           rewrite: (path) => path.replace(/^\/api/, ''),
           configure: (proxy, options) => {
             // Add authentication headers to outgoing requests
             proxy.on('proxyReq', (proxyReq, req, res) => {
-              // Add Basic Auth header from environment variables
-              const username = env.SKYTAP_USER;
-              const token = env.SKYTAP_TOKEN;
-              if (username && token) {
-                const auth = Buffer.from(`${username}:${token}`).toString('base64');
-                proxyReq.setHeader('Authorization', `Basic ${auth}`);
+              // Map the profile the UI asked for to its Basic Auth credentials
+              const profile = resolveProfile(profileConfig, req.headers[PROFILE_HEADER]);
+              if (profile) {
+                proxyReq.setHeader('Authorization', basicAuthHeader(profile));
               }
+              proxyReq.removeHeader(PROFILE_HEADER);
               proxyReq.setHeader('Content-Type', 'application/json');
               proxyReq.setHeader('Accept', 'application/json');
             });
@@ -53,7 +106,7 @@ export default defineConfig(({ mode }) => {
                 const location = proxyRes.headers.location;
                 if (location) {
                   // Make the redirect relative to our proxy
-                  const redirectUrl = location.replace('https://cloud.skytap.com', '/api');
+                  const redirectUrl = rewriteLocation(location, upstream);
                   proxyRes.headers.location = redirectUrl;
                   console.log('Proxy redirect:', { from: req.url, to: redirectUrl });
                 }
@@ -69,12 +122,25 @@ export default defineConfig(({ mode }) => {
       }
     },
     
+    // The production server bundle (npm run build:server) has no use for public/ assets
+    publicDir: isSsrBuild ? false : 'public',
+
     // Vite plugins
     plugins: [
       react(), // React with SWC for fast compilation
+      skytapProfiles(profileConfig), // Credential profile list for the account switcher
+      useMock && !isSsrBuild && skytapMock(mockPort, env.SKYTAP_MOCK_LATENCY_MS ? Number(env.SKYTAP_MOCK_LATENCY_MS) : undefined),
       mode === "development" && componentTagger() // Development-only component tagging
     ].filter(Boolean),
     
+    // Vitest: component and end-to-end tests run in jsdom against the mock Skytap API
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./src/test/setup.ts'],
+      include: ['src/**/*.test.{ts,tsx}'],
+      testTimeout: 60_000,
+    },
+
     // Module resolution configuration
     resolve: {
       alias: {